@@ -0,0 +1,291 @@
+/*
+ * ADMINS TABLE SCHEMA
+ *
+ * Lists the auth users that may sign in to the admin console and their role.
+ * The console reads the role from this table, so changes apply without waiting
+ * for a token refresh, and falls back to the `user_role` JWT claim (populated by
+ * the custom access token hook below) only when the user has no row here. If the
+ * table cannot be read, login is refused rather than trusting the claim.
+ *
+ * ROLES:
+ * - 'super_admin': full access, including managing other admins and settings
+ * - 'admin': day-to-day console access, including archive/delete actions
+ * - 'support': service requests, engineer assignment, test review and exports
+ * - 'read_only': view-only access
+ *
+ * The capabilities per role live in src/auth/permissions.ts.
+ */
+
+create table if not exists public.admins (
+  user_id uuid not null,
+  role text not null default 'admin',
+  is_active boolean not null default true,
+  created_at timestamp with time zone null default timezone('utc'::text, now()),
+  updated_at timestamp with time zone null default timezone('utc'::text, now()),
+  constraint admins_pkey primary key (user_id),
+  constraint admins_user_id_fkey foreign key (user_id) references auth.users (id) on delete cascade,
+  constraint admins_role_check check (role in ('super_admin', 'admin', 'support', 'read_only'))
+) tablespace pg_default;
+
+-- Widen the role check on tables created before support/read_only roles existed
+alter table public.admins drop constraint if exists admins_role_check;
+alter table public.admins add constraint admins_role_check
+  check (role in ('super_admin', 'admin', 'support', 'read_only'));
+
+create index if not exists idx_admins_role on public.admins using btree (role) tablespace pg_default;
+
+-- Create trigger for updated_at (drop and recreate to ensure latest version)
+drop trigger if exists admins_updated_at on public.admins;
+create trigger admins_updated_at
+  before update on public.admins
+  for each row
+  execute function handle_updated_at();
+
+-- An admin may read their own row so the console can resolve their role
+alter table public.admins enable row level security;
+
+drop policy if exists "Admins can read own row" on public.admins;
+create policy "Admins can read own row" on public.admins
+  for select to authenticated
+  using (user_id = auth.uid());
+
+-- Custom access token hook: adds `user_role` to the JWT for active admins.
+-- Enable under Authentication > Hooks > Custom Access Token.
+create or replace function public.custom_access_token_hook(event jsonb)
+returns jsonb
+language plpgsql
+stable
+as $$
+declare
+  claims jsonb;
+  admin_role text;
+begin
+  select role into admin_role
+  from public.admins
+  where user_id = (event->>'user_id')::uuid
+    and is_active = true;
+
+  claims := event->'claims';
+
+  if admin_role is not null then
+    claims := jsonb_set(claims, '{user_role}', to_jsonb(admin_role));
+  else
+    claims := jsonb_set(claims, '{user_role}', 'null'::jsonb);
+  end if;
+
+  return jsonb_set(event, '{claims}', claims);
+end;
+$$;
+
+grant usage on schema public to supabase_auth_admin;
+grant execute on function public.custom_access_token_hook to supabase_auth_admin;
+revoke execute on function public.custom_access_token_hook from authenticated, anon, public;
+grant select on table public.admins to supabase_auth_admin;
+
+drop policy if exists "Auth admin can read admins" on public.admins;
+create policy "Auth admin can read admins" on public.admins
+  as permissive for select to supabase_auth_admin
+  using (true);
+
+-- Account details shown on the admin management page. auth.users is not readable
+-- from the client, so email/name are copied here when the admin signs in.
+alter table public.admins add column if not exists email text null;
+alter table public.admins add column if not exists name text null;
+alter table public.admins add column if not exists last_login_at timestamp with time zone null;
+alter table public.admins add column if not exists invited_by uuid null references auth.users (id) on delete set null;
+
+create or replace function public.is_super_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.admins
+    where user_id = auth.uid()
+      and role = 'super_admin'
+      and is_active = true
+  );
+$$;
+
+drop policy if exists "Super admins can read admins" on public.admins;
+create policy "Super admins can read admins" on public.admins
+  for select to authenticated
+  using (public.is_super_admin());
+
+-- Super admins manage other admins but cannot demote or deactivate themselves
+drop policy if exists "Super admins can update other admins" on public.admins;
+create policy "Super admins can update other admins" on public.admins
+  for update to authenticated
+  using (public.is_super_admin() and user_id <> auth.uid())
+  with check (public.is_super_admin() and user_id <> auth.uid());
+
+-- Called by the console after a successful login; admins cannot update their own row directly
+create or replace function public.record_admin_login()
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.admins
+  set last_login_at = timezone('utc'::text, now()),
+      email = coalesce(auth.jwt() ->> 'email', email),
+      name = coalesce(auth.jwt() -> 'user_metadata' ->> 'name', name)
+  where user_id = auth.uid()
+    -- Admins with a verified factor only count as logged in after the TOTP challenge
+    and (
+      auth.jwt() ->> 'aal' = 'aal2'
+      or not exists (
+        select 1 from auth.mfa_factors
+        where user_id = auth.uid() and status = 'verified'
+      )
+    );
+$$;
+
+grant execute on function public.record_admin_login to authenticated;
+
+/*
+ * ADMIN_INVITES TABLE SCHEMA
+ *
+ * Pending admin invitations by email, following the same pattern as user_tracking:
+ * - If a confirmed auth user with the email already exists, the admins row is created immediately
+ * - Otherwise it is created once an account with that email confirms it, so
+ *   registering an invited address without owning the mailbox grants nothing
+ */
+create table if not exists public.admin_invites (
+  id uuid not null default gen_random_uuid(),
+  email text not null,
+  role text not null default 'admin',
+  invited_by uuid null,
+  user_id uuid null, -- Set when the invite is accepted
+  accepted_at timestamp with time zone null,
+  created_at timestamp with time zone null default timezone('utc'::text, now()),
+  constraint admin_invites_pkey primary key (id),
+  constraint admin_invites_email_key unique (email),
+  constraint admin_invites_invited_by_fkey foreign key (invited_by) references auth.users (id) on delete set null,
+  constraint admin_invites_user_id_fkey foreign key (user_id) references auth.users (id) on delete set null,
+  constraint admin_invites_role_check check (role in ('super_admin', 'admin', 'support', 'read_only')),
+  constraint admin_invites_email_format check (email ~* '^[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}$')
+) tablespace pg_default;
+
+create index if not exists idx_admin_invites_accepted_at on public.admin_invites using btree (accepted_at) tablespace pg_default;
+
+alter table public.admin_invites enable row level security;
+
+drop policy if exists "Super admins manage admin invites" on public.admin_invites;
+create policy "Super admins manage admin invites" on public.admin_invites
+  for all to authenticated
+  using (public.is_super_admin())
+  with check (public.is_super_admin());
+
+-- Turn an invite into an admins row for the given auth user
+create or replace function public.accept_admin_invite(invite public.admin_invites, invited_user auth.users)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.admins (user_id, role, is_active, email, name, invited_by)
+  values (
+    invited_user.id,
+    invite.role,
+    true,
+    invited_user.email,
+    invited_user.raw_user_meta_data ->> 'name',
+    invite.invited_by
+  )
+  on conflict (user_id) do update set
+    role = excluded.role,
+    is_active = true,
+    invited_by = excluded.invited_by;
+
+  update public.admin_invites
+  set user_id = invited_user.id,
+      accepted_at = timezone('utc'::text, now())
+  where id = invite.id;
+end;
+$$;
+
+-- Invite for an existing confirmed account: grant access right away
+create or replace function public.sync_admin_invite()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invited_user auth.users;
+begin
+  select * into invited_user from auth.users
+  where lower(email) = lower(new.email) and email_confirmed_at is not null;
+  if found then
+    perform public.accept_admin_invite(new, invited_user);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists sync_admin_invite_trigger on public.admin_invites;
+create trigger sync_admin_invite_trigger
+  after insert on public.admin_invites
+  for each row
+  execute function public.sync_admin_invite();
+
+-- Account for an invited email: grant access once the email is confirmed, not at
+-- sign-up (accounts created already confirmed are handled on insert)
+create or replace function public.sync_new_user_admin_invite()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invite public.admin_invites;
+begin
+  if new.email_confirmed_at is null then
+    return new;
+  end if;
+
+  select * into invite from public.admin_invites
+  where lower(email) = lower(new.email) and accepted_at is null;
+  if found then
+    perform public.accept_admin_invite(invite, new);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists sync_new_user_admin_invite_trigger on auth.users;
+create trigger sync_new_user_admin_invite_trigger
+  after insert or update of email_confirmed_at on auth.users
+  for each row
+  execute function public.sync_new_user_admin_invite();
+
+-- Recovery for an admin who lost their authenticator: a super admin removes the
+-- admin's TOTP factors so they can sign in with their password and enroll again
+create or replace function public.reset_admin_mfa(target_user_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_super_admin() then
+    raise exception 'Only super admins can reset two-factor authentication';
+  end if;
+
+  if target_user_id = auth.uid() then
+    raise exception 'You cannot reset your own two-factor authentication';
+  end if;
+
+  if not exists (select 1 from public.admins where user_id = target_user_id) then
+    raise exception 'User is not an admin';
+  end if;
+
+  delete from auth.mfa_factors where user_id = target_user_id;
+end;
+$$;
+
+grant execute on function public.reset_admin_mfa to authenticated;
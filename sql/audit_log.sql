@@ -0,0 +1,151 @@
+/*
+ * AUDIT_LOG TABLE SCHEMA
+ *
+ * Append-only history of every create/update/archive/delete on the console's
+ * data tables, written by triggers so changes made outside the console (SQL
+ * editor, mobile app, other services) are recorded too.
+ *
+ * - actor_id/actor_email come from the JWT of the request that made the change;
+ *   they are null for changes made with the service role or from SQL
+ * - before/after hold the full row; changes holds only the fields that differ
+ *   as { "field": { "from": ..., "to": ... } }
+ * - an update that flips `archived` is recorded as 'archive' or 'restore'
+ * - organization_id is denormalised so an organization's history can be listed
+ *   without joining every entity table
+ */
+
+create table if not exists public.audit_log (
+  id bigint generated always as identity,
+  occurred_at timestamp with time zone not null default timezone('utc'::text, now()),
+  actor_id uuid null,
+  actor_email text null,
+  action text not null,
+  entity_type text not null,
+  entity_id text not null,
+  entity_label text null,
+  organization_id uuid null,
+  before jsonb null,
+  after jsonb null,
+  changes jsonb null,
+  constraint audit_log_pkey primary key (id),
+  constraint audit_log_action_check check (action in ('create', 'update', 'archive', 'restore', 'delete'))
+) tablespace pg_default;
+
+create index if not exists idx_audit_log_occurred_at on public.audit_log using btree (occurred_at desc) tablespace pg_default;
+create index if not exists idx_audit_log_entity on public.audit_log using btree (entity_type, entity_id) tablespace pg_default;
+create index if not exists idx_audit_log_actor_id on public.audit_log using btree (actor_id) tablespace pg_default;
+create index if not exists idx_audit_log_organization_id on public.audit_log using btree (organization_id) tablespace pg_default;
+
+-- Fields that differ between two row snapshots, ignoring bookkeeping columns
+create or replace function public.audit_log_diff(old_row jsonb, new_row jsonb)
+returns jsonb
+language sql
+immutable
+as $$
+  select coalesce(
+    jsonb_object_agg(key, jsonb_build_object('from', old_row -> key, 'to', new_row -> key)),
+    '{}'::jsonb
+  )
+  from (
+    select key from jsonb_object_keys(coalesce(old_row, '{}'::jsonb) || coalesce(new_row, '{}'::jsonb)) as key
+  ) keys
+  where key not in ('updated_at', 'created_at')
+    and (old_row -> key) is distinct from (new_row -> key);
+$$;
+
+create or replace function public.record_audit_log()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  old_row jsonb := case when tg_op in ('UPDATE', 'DELETE') then to_jsonb(old) else null end;
+  new_row jsonb := case when tg_op in ('INSERT', 'UPDATE') then to_jsonb(new) else null end;
+  current_row jsonb := coalesce(new_row, old_row);
+  row_changes jsonb := public.audit_log_diff(old_row, new_row);
+  audit_action text;
+begin
+  if tg_op = 'INSERT' then
+    audit_action := 'create';
+  elsif tg_op = 'DELETE' then
+    audit_action := 'delete';
+  elsif row_changes = '{}'::jsonb then
+    -- Only bookkeeping columns changed
+    return null;
+  elsif row_changes ? 'archived' then
+    audit_action := case when (new_row ->> 'archived')::boolean then 'archive' else 'restore' end;
+  else
+    audit_action := 'update';
+  end if;
+
+  insert into public.audit_log (
+    actor_id, actor_email, action, entity_type, entity_id, entity_label, organization_id, before, after, changes
+  ) values (
+    auth.uid(),
+    auth.jwt() ->> 'email',
+    audit_action,
+    tg_table_name,
+    current_row ->> 'id',
+    coalesce(current_row ->> 'ticket_no', current_row ->> 'device_name', current_row ->> 'name', current_row ->> 'email'),
+    case
+      when tg_table_name = 'company_details' then (current_row ->> 'id')::uuid
+      else coalesce(current_row ->> 'organization_id', current_row ->> 'company_id')::uuid
+    end,
+    old_row,
+    new_row,
+    case when tg_op = 'UPDATE' then row_changes else null end
+  );
+
+  return null;
+end;
+$$;
+
+-- Attach to every table the console writes to
+drop trigger if exists audit_company_details on public.company_details;
+create trigger audit_company_details
+  after insert or update or delete on public.company_details
+  for each row execute function public.record_audit_log();
+
+drop trigger if exists audit_devices on public.devices;
+create trigger audit_devices
+  after insert or update or delete on public.devices
+  for each row execute function public.record_audit_log();
+
+drop trigger if exists audit_service_requests on public.service_requests;
+create trigger audit_service_requests
+  after insert or update or delete on public.service_requests
+  for each row execute function public.record_audit_log();
+
+drop trigger if exists audit_service_engineers on public.service_engineers;
+create trigger audit_service_engineers
+  after insert or update or delete on public.service_engineers
+  for each row execute function public.record_audit_log();
+
+drop trigger if exists audit_user_tracking on public.user_tracking;
+create trigger audit_user_tracking
+  after insert or update or delete on public.user_tracking
+  for each row execute function public.record_audit_log();
+
+drop trigger if exists audit_user_role on public.user_role;
+create trigger audit_user_role
+  after insert or update or delete on public.user_role
+  for each row execute function public.record_audit_log();
+
+-- Read-only for active admins; rows are only ever written by the trigger
+alter table public.audit_log enable row level security;
+
+drop policy if exists "Admins can read audit log" on public.audit_log;
+create policy "Admins can read audit log" on public.audit_log
+  for select to authenticated
+  using (exists (
+    select 1 from public.admins
+    where user_id = auth.uid() and is_active = true
+  ));
+
+-- Distinct actors for the audit page filter
+create or replace view public.audit_log_actors
+with (security_invoker = true) as
+  select distinct actor_id, actor_email
+  from public.audit_log
+  where actor_id is not null;
@@ -52,6 +52,14 @@ create trigger update_device_test_updated_at BEFORE
 update on device_test for EACH row
 execute FUNCTION update_updated_at_column ();
 
+-- Manual review (QC) of test_status
+alter table public.device_test add column if not exists reviewed_by uuid null references auth.users (id);
+alter table public.device_test add column if not exists reviewed_by_name text null;
+alter table public.device_test add column if not exists reviewed_at timestamp with time zone null;
+
+create index IF not exists idx_device_test_review_queue on public.device_test using btree (test_date)
+where test_status in ('pending', 'incomplete');
+
 
 -- sample data
 INSERT INTO "public"."device_test" ("id", "created_at", "updated_at", "folder_name", "images", "device_id", "device_name", "device_type", "test_results", "test_date", "test_status", "upload_batch", "notes", "metadata", "data", "data_type") VALUES ('023ea0da-e36b-4206-8d5e-0a5f4a0ce34d', '2025-09-11 07:51:52.418183+00', '2025-09-11 07:51:52.418183+00', 'Batch8', '{}', '607aecf5-5e45-4772-b7f2-c35d2f773f7b', null, null, '{"max": [[112, 112, 198]], "min": [[85, 83, 189]], "mean": [[99.0, 95.29, 194.29]], "range": [[27, 29, 9]], "result": [[[109, 83, 192], [112, 83, 195], [110, 84, 194], [106, 83, 189], [85, 111, 196], [86, 112, 198], [85, 111, 196]]], "variance": [[12.07, 14.59, 1.42]], "standard deviation": [[11.95, 13.9, 2.76]]}', '2025-09-11 13:21:52.223804+00', 'passed', 'batch_1757577112', null, '{"device_id": "607aecf5-5e45-4772-b7f2-c35d2f773f7b", "image_urls": [], "device_name": "RVTESTDEV2", "device_type": "texture-pred", "folder_hash": "6167318202e1ab85e39e7b6c61cb8529", "total_images": 0, "files_processed": ["upload_success.json", "stats.json"], "upload_timestamp": "2025-09-11T13:21:52.223804"}', null, 'image_analysis');
@@ -0,0 +1,41 @@
+-- Certificates issued for reviewed device_test batches.
+-- The snapshot holds everything printed on the certificate so re-downloads are identical
+-- even if the organization, device or test row changes later.
+create sequence if not exists public.device_test_certificate_seq start 1;
+
+create table public.device_test_certificates (
+  id uuid not null default gen_random_uuid (),
+  device_test_id uuid not null,
+  sequence_no bigint not null,
+  certificate_no text not null,
+  issued_at timestamp with time zone not null default now(),
+  issued_by uuid null,
+  issued_by_name text null,
+  snapshot jsonb not null,
+  created_at timestamp with time zone null default now(),
+  constraint device_test_certificates_pkey primary key (id),
+  constraint device_test_certificates_test_key unique (device_test_id),
+  constraint device_test_certificates_no_key unique (certificate_no),
+  constraint device_test_certificates_test_fkey foreign KEY (device_test_id) references device_test (id) on delete CASCADE,
+  constraint device_test_certificates_issued_by_fkey foreign KEY (issued_by) references auth.users (id)
+) TABLESPACE pg_default;
+
+create index IF not exists idx_device_test_certificates_issued_at on public.device_test_certificates using btree (issued_at) TABLESPACE pg_default;
+
+-- Number certificates in the database so concurrent issues never share a number
+-- Format: QC-<year>-<6 digit sequence>, e.g. QC-2025-000042
+create or replace function public.assign_device_test_certificate_no()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.sequence_no := nextval('public.device_test_certificate_seq');
+  new.certificate_no := 'QC-' || to_char(coalesce(new.issued_at, now()) at time zone 'utc', 'YYYY')
+    || '-' || lpad(new.sequence_no::text, 6, '0');
+  return new;
+end;
+$$;
+
+create trigger assign_device_test_certificate_no BEFORE
+insert on device_test_certificates for EACH row
+execute FUNCTION assign_device_test_certificate_no ();
@@ -40,8 +40,13 @@ create table public.service_requests (
       status = any (
         array[
           'pending'::text,
+          'assigned'::text,
+          'scheduled'::text,
+          'in_progress'::text,
+          'on_hold'::text,
           'completed'::text,
-          'cancelled'::text
+          'cancelled'::text,
+          'reopened'::text
         ]
       )
     )
@@ -0,0 +1,140 @@
+/*
+ * SERVICE_REQUEST_ATTACHMENTS TABLE SCHEMA
+ *
+ * Any number of files per service request (photo sets, videos, invoices). Files
+ * live in the public 'service-files' bucket under
+ * service-requests/<uploader id>/<timestamp>_<file name>; storage_path is the
+ * object key used to delete the file, file_url its public URL.
+ *
+ * FILE KINDS: 'image', 'video', 'pdf', 'document'
+ *
+ * service_requests.uploaded_file_url / uploaded_reference are kept for older
+ * clients: existing values are copied here once, and a trigger copies any file
+ * still written to those columns.
+ *
+ * STORAGE POLICY TO ADD MANUALLY IN SUPABASE DASHBOARD (see storage_setup_corrected.sql):
+ * Policy: "Admins can delete service files"
+ * Operation: DELETE
+ * Target roles: authenticated
+ * USING expression: bucket_id = 'service-files' AND EXISTS (
+ *   SELECT 1 FROM public.admins WHERE user_id = auth.uid() AND is_active = true)
+ */
+
+create table if not exists public.service_request_attachments (
+  id uuid not null default gen_random_uuid(),
+  service_request_id uuid not null,
+  storage_path text null,
+  file_url text not null,
+  file_name text not null,
+  file_kind text not null default 'document',
+  mime_type text null,
+  file_size bigint null,
+  uploaded_by uuid null default auth.uid(),
+  created_at timestamp with time zone not null default timezone('utc'::text, now()),
+  constraint service_request_attachments_pkey primary key (id),
+  constraint service_request_attachments_service_request_id_fkey foreign key (service_request_id) references public.service_requests (id) on delete cascade,
+  constraint service_request_attachments_file_kind_check check (file_kind in ('image', 'video', 'pdf', 'document'))
+) tablespace pg_default;
+
+create index if not exists idx_service_request_attachments_request on public.service_request_attachments using btree (service_request_id, created_at) tablespace pg_default;
+
+-- Object key inside the service-files bucket for a public URL, or null for external URLs
+create or replace function public.service_file_storage_path(file_url text)
+returns text
+language sql
+immutable
+as $$
+  select nullif(split_part(file_url, '/storage/v1/object/public/service-files/', 2), '');
+$$;
+
+create or replace function public.service_file_kind(reference text, file_url text)
+returns text
+language sql
+immutable
+as $$
+  select case
+    when reference ilike '%image%' or file_url ~* '\.(jpg|jpeg|png|gif|webp)$' then 'image'
+    when reference ilike '%video%' or file_url ~* '\.(mp4|webm|ogg|mov|avi|wmv|flv)$' then 'video'
+    when reference ilike '%pdf%' or file_url ~* '\.pdf$' then 'pdf'
+    else 'document'
+  end;
+$$;
+
+-- Mirror files written to the legacy single-file columns
+create or replace function public.sync_legacy_service_request_attachment()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.uploaded_file_url is not null
+    and (tg_op = 'INSERT' or new.uploaded_file_url is distinct from old.uploaded_file_url)
+    and not exists (
+      select 1 from public.service_request_attachments
+      where service_request_id = new.id and file_url = new.uploaded_file_url
+    ) then
+    insert into public.service_request_attachments (service_request_id, storage_path, file_url, file_name, file_kind, uploaded_by)
+    values (
+      new.id,
+      public.service_file_storage_path(new.uploaded_file_url),
+      new.uploaded_file_url,
+      regexp_replace(split_part(new.uploaded_file_url, '?', 1), '^.*/', ''),
+      public.service_file_kind(new.uploaded_reference, new.uploaded_file_url),
+      auth.uid()
+    );
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists sync_legacy_service_request_attachment_trigger on public.service_requests;
+create trigger sync_legacy_service_request_attachment_trigger
+  after insert or update of uploaded_file_url on public.service_requests
+  for each row
+  execute function public.sync_legacy_service_request_attachment();
+
+-- Copy existing single attachments
+insert into public.service_request_attachments (service_request_id, storage_path, file_url, file_name, file_kind, uploaded_by, created_at)
+select
+  sr.id,
+  public.service_file_storage_path(sr.uploaded_file_url),
+  sr.uploaded_file_url,
+  regexp_replace(split_part(sr.uploaded_file_url, '?', 1), '^.*/', ''),
+  public.service_file_kind(sr.uploaded_reference, sr.uploaded_file_url),
+  null,
+  coalesce(sr.created_at, sr.date_of_request)
+from public.service_requests sr
+where sr.uploaded_file_url is not null
+  and not exists (
+    select 1 from public.service_request_attachments a
+    where a.service_request_id = sr.id and a.file_url = sr.uploaded_file_url
+  );
+
+-- Active admins list, add and delete attachments
+alter table public.service_request_attachments enable row level security;
+
+drop policy if exists "Admins can read service request attachments" on public.service_request_attachments;
+create policy "Admins can read service request attachments" on public.service_request_attachments
+  for select to authenticated
+  using (exists (
+    select 1 from public.admins
+    where user_id = auth.uid() and is_active = true
+  ));
+
+drop policy if exists "Admins can add service request attachments" on public.service_request_attachments;
+create policy "Admins can add service request attachments" on public.service_request_attachments
+  for insert to authenticated
+  with check (exists (
+    select 1 from public.admins
+    where user_id = auth.uid() and is_active = true
+  ));
+
+drop policy if exists "Admins can delete service request attachments" on public.service_request_attachments;
+create policy "Admins can delete service request attachments" on public.service_request_attachments
+  for delete to authenticated
+  using (exists (
+    select 1 from public.admins
+    where user_id = auth.uid() and is_active = true
+  ));
@@ -0,0 +1,158 @@
+/*
+ * SERVICE_REQUEST_EVENTS TABLE SCHEMA
+ *
+ * History of a service request, written by a trigger on service_requests so every
+ * mutation is captured whether it comes from the console or the mobile app.
+ *
+ * EVENT TYPES:
+ * - 'created': request raised
+ * - 'status_changed': from_value/to_value hold the old/new status
+ * - 'engineer_assigned' / 'engineer_reassigned' / 'engineer_unassigned':
+ *   from_value/to_value hold service_engineers ids
+ * - 'service_date_changed': from_value/to_value hold date_of_service timestamps
+ * - 'comment': engineer_comments changed (comment holds the new text), or a note
+ *   added by an admin from the console
+ *
+ * Time-to-assign and time-to-close are derived from these events in
+ * src/service-request/service_request.service.ts.
+ */
+
+create table if not exists public.service_request_events (
+  id uuid not null default gen_random_uuid(),
+  service_request_id uuid not null,
+  event_type text not null,
+  from_value text null,
+  to_value text null,
+  comment text null,
+  actor_id uuid null,
+  actor_email text null,
+  created_at timestamp with time zone not null default timezone('utc'::text, now()),
+  constraint service_request_events_pkey primary key (id),
+  constraint service_request_events_service_request_id_fkey foreign key (service_request_id) references public.service_requests (id) on delete cascade,
+  constraint service_request_events_event_type_check check (
+    event_type in (
+      'created',
+      'status_changed',
+      'engineer_assigned',
+      'engineer_reassigned',
+      'engineer_unassigned',
+      'service_date_changed',
+      'comment'
+    )
+  )
+) tablespace pg_default;
+
+create index if not exists idx_service_request_events_request on public.service_request_events using btree (service_request_id, created_at) tablespace pg_default;
+create index if not exists idx_service_request_events_type on public.service_request_events using btree (event_type) tablespace pg_default;
+
+create or replace function public.record_service_request_events()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  actor uuid := auth.uid();
+  actor_mail text := auth.jwt() ->> 'email';
+begin
+  if tg_op = 'INSERT' then
+    insert into public.service_request_events (service_request_id, event_type, to_value, actor_id, actor_email, created_at)
+    values (new.id, 'created', new.status, actor, actor_mail, coalesce(new.date_of_request, timezone('utc'::text, now())));
+
+    if new.service_engineer is not null then
+      insert into public.service_request_events (service_request_id, event_type, to_value, actor_id, actor_email)
+      values (new.id, 'engineer_assigned', new.service_engineer, actor, actor_mail);
+    end if;
+
+    return null;
+  end if;
+
+  if new.status is distinct from old.status then
+    insert into public.service_request_events (service_request_id, event_type, from_value, to_value, actor_id, actor_email)
+    values (new.id, 'status_changed', old.status, new.status, actor, actor_mail);
+  end if;
+
+  if new.service_engineer is distinct from old.service_engineer then
+    insert into public.service_request_events (service_request_id, event_type, from_value, to_value, actor_id, actor_email)
+    values (
+      new.id,
+      case
+        when old.service_engineer is null then 'engineer_assigned'
+        when new.service_engineer is null then 'engineer_unassigned'
+        else 'engineer_reassigned'
+      end,
+      old.service_engineer,
+      new.service_engineer,
+      actor,
+      actor_mail
+    );
+  end if;
+
+  if new.date_of_service is distinct from old.date_of_service then
+    insert into public.service_request_events (service_request_id, event_type, from_value, to_value, actor_id, actor_email)
+    values (new.id, 'service_date_changed', old.date_of_service::text, new.date_of_service::text, actor, actor_mail);
+  end if;
+
+  if new.engineer_comments is distinct from old.engineer_comments and coalesce(new.engineer_comments, '') <> '' then
+    insert into public.service_request_events (service_request_id, event_type, comment, actor_id, actor_email)
+    values (new.id, 'comment', new.engineer_comments, actor, actor_mail);
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists service_request_events_trigger on public.service_requests;
+create trigger service_request_events_trigger
+  after insert or update on public.service_requests
+  for each row
+  execute function public.record_service_request_events();
+
+-- Backfill requests created before this table existed. Only the creation, the current
+-- engineer and a closing status can be reconstructed; updated_at stands in for the
+-- time of the last two.
+insert into public.service_request_events (service_request_id, event_type, to_value, created_at)
+select sr.id, 'created', 'pending', sr.date_of_request
+from public.service_requests sr
+where not exists (select 1 from public.service_request_events e where e.service_request_id = sr.id);
+
+insert into public.service_request_events (service_request_id, event_type, to_value, created_at)
+select sr.id, 'engineer_assigned', sr.service_engineer, coalesce(sr.updated_at, sr.date_of_request)
+from public.service_requests sr
+where sr.service_engineer is not null
+  and not exists (
+    select 1 from public.service_request_events e
+    where e.service_request_id = sr.id and e.event_type <> 'created'
+  );
+
+insert into public.service_request_events (service_request_id, event_type, from_value, to_value, created_at)
+select sr.id, 'status_changed', 'pending', sr.status, coalesce(sr.updated_at, sr.date_of_request)
+from public.service_requests sr
+where sr.status <> 'pending'
+  and not exists (
+    select 1 from public.service_request_events e
+    where e.service_request_id = sr.id and e.event_type = 'status_changed'
+  );
+
+-- Active admins read the history and add notes; other rows come from the trigger
+alter table public.service_request_events enable row level security;
+
+drop policy if exists "Admins can read service request events" on public.service_request_events;
+create policy "Admins can read service request events" on public.service_request_events
+  for select to authenticated
+  using (exists (
+    select 1 from public.admins
+    where user_id = auth.uid() and is_active = true
+  ));
+
+drop policy if exists "Admins can add service request comments" on public.service_request_events;
+create policy "Admins can add service request comments" on public.service_request_events
+  for insert to authenticated
+  with check (
+    event_type = 'comment'
+    and actor_id = auth.uid()
+    and exists (
+      select 1 from public.admins
+      where user_id = auth.uid() and is_active = true
+    )
+  );
@@ -0,0 +1,74 @@
+/*
+ * SERVICE REQUEST LIFECYCLE MIGRATION
+ *
+ * Extends service_requests.status from pending/completed/cancelled to:
+ * - 'pending': raised, nobody assigned yet
+ * - 'assigned': engineer assigned
+ * - 'scheduled': visit booked
+ * - 'in_progress': engineer working on it
+ * - 'on_hold': waiting on parts or the customer
+ * - 'completed' / 'cancelled': closed
+ * - 'reopened': closed request that needs more work
+ *
+ * Allowed transitions are enforced by a trigger and mirrored in
+ * SERVICE_STATUS_TRANSITIONS (src/service-request/service_request.type.ts).
+ * Assigning an engineer to a pending or reopened request moves it to 'assigned'.
+ */
+
+alter table public.service_requests drop constraint if exists service_requests_status_check;
+alter table public.service_requests add constraint service_requests_status_check
+  check (status in ('pending', 'assigned', 'scheduled', 'in_progress', 'on_hold', 'completed', 'cancelled', 'reopened'));
+
+-- Existing open requests that already have an engineer are assigned
+update public.service_requests
+set status = 'assigned'
+where status = 'pending'
+  and service_engineer is not null;
+
+create or replace function public.service_request_status_allowed(from_status text, to_status text)
+returns boolean
+language sql
+immutable
+as $$
+  select from_status = to_status or to_status = any (
+    case from_status
+      when 'pending' then array['assigned', 'scheduled', 'on_hold', 'cancelled']
+      when 'assigned' then array['pending', 'scheduled', 'in_progress', 'on_hold', 'cancelled']
+      when 'scheduled' then array['assigned', 'in_progress', 'on_hold', 'cancelled']
+      when 'in_progress' then array['on_hold', 'completed', 'cancelled']
+      when 'on_hold' then array['pending', 'assigned', 'scheduled', 'in_progress', 'cancelled']
+      when 'completed' then array['reopened']
+      when 'cancelled' then array['reopened']
+      when 'reopened' then array['assigned', 'scheduled', 'in_progress', 'on_hold', 'completed', 'cancelled']
+      else array[]::text[]
+    end
+  );
+$$;
+
+create or replace function public.enforce_service_request_status_transition()
+returns trigger
+language plpgsql
+as $$
+begin
+  -- Assigning an engineer moves an unassigned request along
+  if new.service_engineer is not null
+    and old.service_engineer is null
+    and new.status = old.status
+    and new.status in ('pending', 'reopened') then
+    new.status := 'assigned';
+  end if;
+
+  if not public.service_request_status_allowed(old.status, new.status) then
+    raise exception 'Invalid service request status transition from % to %', old.status, new.status
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists enforce_service_request_status_transition_trigger on public.service_requests;
+create trigger enforce_service_request_status_transition_trigger
+  before update on public.service_requests
+  for each row
+  execute function public.enforce_service_request_status_transition();
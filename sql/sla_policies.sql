@@ -0,0 +1,229 @@
+/*
+ * SLA POLICIES
+ *
+ * Response and resolution targets for service requests. A policy applies to one
+ * service_type and can be narrowed to one organization and/or the AMC status of
+ * the request's device. The most specific active policy wins: organization match
+ * first, then AMC status match, then the generic policy for the service type.
+ *
+ * AMC STATUS (of the device when the request is raised):
+ * - 'active': amc_end_date today or later
+ * - 'expired': amc_end_date in the past
+ * - 'none': no AMC end date recorded
+ *
+ * On insert the matching policy's due-by timestamps are stamped on the request:
+ * - response_due_at: date_of_request + response_hours; met when an engineer is
+ *   first assigned (first_response_at)
+ * - resolution_due_at: date_of_request + resolution_hours; met when the request
+ *   is completed or cancelled (resolved_at, cleared again on reopen)
+ *
+ * service_request_sla_status derives on_track / at_risk / breached / met from
+ * these columns. A target is at risk once less than a quarter of its window is
+ * left (SLA_AT_RISK_RATIO in src/sla/sla.type.ts).
+ */
+
+create table if not exists public.sla_policies (
+  id uuid not null default gen_random_uuid(),
+  name text not null,
+  service_type text not null,
+  organization_id uuid null,
+  amc_status text null,
+  response_hours numeric not null,
+  resolution_hours numeric not null,
+  is_active boolean not null default true,
+  created_at timestamp with time zone null default timezone('utc'::text, now()),
+  updated_at timestamp with time zone null default timezone('utc'::text, now()),
+  constraint sla_policies_pkey primary key (id),
+  constraint sla_policies_organization_id_fkey foreign key (organization_id) references public.company_details (id) on delete cascade,
+  constraint sla_policies_service_type_check check (service_type in ('demo_installation', 'repair', 'service', 'calibration')),
+  constraint sla_policies_amc_status_check check (amc_status is null or amc_status in ('active', 'expired', 'none')),
+  constraint sla_policies_hours_check check (response_hours > 0 and resolution_hours >= response_hours)
+) tablespace pg_default;
+
+create index if not exists idx_sla_policies_service_type on public.sla_policies using btree (service_type) tablespace pg_default;
+
+-- One active policy per scope
+create unique index if not exists idx_sla_policies_scope on public.sla_policies
+  (service_type, coalesce(organization_id, '00000000-0000-0000-0000-000000000000'::uuid), coalesce(amc_status, ''))
+  where is_active;
+
+drop trigger if exists sla_policies_updated_at on public.sla_policies;
+create trigger sla_policies_updated_at
+  before update on public.sla_policies
+  for each row
+  execute function handle_updated_at();
+
+-- Default targets; edit them on the Settings page
+insert into public.sla_policies (name, service_type, response_hours, resolution_hours)
+select defaults.name, defaults.service_type, defaults.response_hours, defaults.resolution_hours
+from (values
+  ('Repair', 'repair', 4, 48),
+  ('Service', 'service', 24, 72),
+  ('Calibration', 'calibration', 24, 120),
+  ('Demo / Installation', 'demo_installation', 48, 168)
+) as defaults (name, service_type, response_hours, resolution_hours)
+where not exists (select 1 from public.sla_policies);
+
+alter table public.service_requests add column if not exists sla_policy_id uuid null references public.sla_policies (id) on delete set null;
+alter table public.service_requests add column if not exists response_due_at timestamp with time zone null;
+alter table public.service_requests add column if not exists resolution_due_at timestamp with time zone null;
+alter table public.service_requests add column if not exists first_response_at timestamp with time zone null;
+alter table public.service_requests add column if not exists resolved_at timestamp with time zone null;
+
+create index if not exists idx_service_requests_resolution_due_at on public.service_requests using btree (resolution_due_at) tablespace pg_default;
+
+create or replace function public.device_amc_status(target_device_id uuid)
+returns text
+language sql
+stable
+as $$
+  select case
+    when d.amc_end_date is null then 'none'
+    when d.amc_end_date >= current_date then 'active'
+    else 'expired'
+  end
+  from public.devices d
+  where d.id = target_device_id;
+$$;
+
+create or replace function public.find_sla_policy(target_service_type text, target_organization_id uuid, target_device_id uuid)
+returns public.sla_policies
+language sql
+stable
+as $$
+  select p.*
+  from public.sla_policies p
+  where p.is_active
+    and p.service_type = target_service_type
+    and (p.organization_id is null or p.organization_id = target_organization_id)
+    and (p.amc_status is null or p.amc_status = coalesce(public.device_amc_status(target_device_id), 'none'))
+  order by (p.organization_id is not null) desc, (p.amc_status is not null) desc
+  limit 1;
+$$;
+
+create or replace function public.apply_service_request_sla()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  policy public.sla_policies;
+  requested_at timestamp with time zone := coalesce(new.date_of_request, timezone('utc'::text, now()));
+begin
+  if tg_op = 'INSERT' then
+    policy := public.find_sla_policy(new.service_type, new.organization_id, new.device_id);
+    if policy.id is not null then
+      new.sla_policy_id := policy.id;
+      new.response_due_at := requested_at + make_interval(secs => policy.response_hours * 3600);
+      new.resolution_due_at := requested_at + make_interval(secs => policy.resolution_hours * 3600);
+    end if;
+    if new.service_engineer is not null then
+      new.first_response_at := requested_at;
+    end if;
+    if new.status in ('completed', 'cancelled') then
+      new.resolved_at := requested_at;
+    end if;
+    return new;
+  end if;
+
+  if new.first_response_at is null and new.service_engineer is not null and old.service_engineer is null then
+    new.first_response_at := timezone('utc'::text, now());
+  end if;
+
+  if new.status is distinct from old.status then
+    if new.status in ('completed', 'cancelled') then
+      new.resolved_at := timezone('utc'::text, now());
+    elsif old.status in ('completed', 'cancelled') then
+      new.resolved_at := null;
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists apply_service_request_sla_trigger on public.service_requests;
+create trigger apply_service_request_sla_trigger
+  before insert or update on public.service_requests
+  for each row
+  execute function public.apply_service_request_sla();
+
+-- Backfill existing requests from their history and the default policies.
+-- Replica mode skips the row triggers for these statements, so updated_at keeps
+-- its value (the fallbacks below read it) and no audit_log rows are written.
+begin;
+set local session_replication_role = replica;
+
+update public.service_requests sr
+set sla_policy_id = p.id,
+    response_due_at = sr.date_of_request + make_interval(secs => p.response_hours * 3600),
+    resolution_due_at = sr.date_of_request + make_interval(secs => p.resolution_hours * 3600)
+from public.sla_policies p
+where sr.sla_policy_id is null
+  and p.id = (public.find_sla_policy(sr.service_type, sr.organization_id, sr.device_id)).id;
+
+update public.service_requests sr
+set first_response_at = coalesce(
+  (select min(e.created_at) from public.service_request_events e
+   where e.service_request_id = sr.id and e.event_type = 'engineer_assigned'),
+  sr.updated_at
+)
+where sr.first_response_at is null
+  and sr.service_engineer is not null;
+
+update public.service_requests sr
+set resolved_at = coalesce(
+  (select max(e.created_at) from public.service_request_events e
+   where e.service_request_id = sr.id and e.event_type = 'status_changed' and e.to_value in ('completed', 'cancelled')),
+  sr.updated_at
+)
+where sr.resolved_at is null
+  and sr.status in ('completed', 'cancelled');
+
+commit;
+
+-- Current SLA state per request; keep in sync with getServiceRequestSla in src/sla/sla.service.ts
+create or replace view public.service_request_sla_status
+with (security_invoker = true) as
+  select
+    sr.id,
+    sr.status,
+    sr.response_due_at,
+    sr.resolution_due_at,
+    sr.first_response_at,
+    sr.resolved_at,
+    case
+      when sr.resolution_due_at is null then null
+      when sr.resolved_at is not null then
+        case when sr.resolved_at <= sr.resolution_due_at
+          and (sr.first_response_at is null or sr.response_due_at is null or sr.first_response_at <= sr.response_due_at)
+          then 'met' else 'breached' end
+      when now() > sr.resolution_due_at then 'breached'
+      when sr.first_response_at is null and now() > sr.response_due_at then 'breached'
+      when sr.first_response_at is not null and sr.first_response_at > sr.response_due_at then 'breached'
+      when sr.first_response_at is null
+        and sr.response_due_at - now() < (sr.response_due_at - sr.date_of_request) * 0.25 then 'at_risk'
+      when sr.resolution_due_at - now() < (sr.resolution_due_at - sr.date_of_request) * 0.25 then 'at_risk'
+      else 'on_track'
+    end as sla_state
+  from public.service_requests sr;
+
+grant select on public.service_request_sla_status to authenticated;
+
+-- Every admin can read policies; only super admins change them
+alter table public.sla_policies enable row level security;
+
+drop policy if exists "Admins can read SLA policies" on public.sla_policies;
+create policy "Admins can read SLA policies" on public.sla_policies
+  for select to authenticated
+  using (exists (
+    select 1 from public.admins
+    where user_id = auth.uid() and is_active = true
+  ));
+
+drop policy if exists "Super admins manage SLA policies" on public.sla_policies;
+create policy "Super admins manage SLA policies" on public.sla_policies
+  for all to authenticated
+  using (public.is_super_admin())
+  with check (public.is_super_admin());
@@ -0,0 +1,136 @@
+/*
+ * SERVICE REQUEST TICKET NUMBERING
+ *
+ * Ticket numbers are allocated by next_ticket_number() inside the database so
+ * concurrent requests never receive the same number.
+ *
+ * FORMAT (ticket_number_settings, single row):
+ * - prefix: optional leading text, e.g. 'SR'
+ * - date_format: 'YYYYMMDD', 'YYYY-MM-DD', 'YYMM', 'YYYY' or 'none'
+ * - include_org_code: company_details.short_code (falls back to the first 4
+ *   characters of the organization id when no code is set)
+ * - include_device_code: first 4 characters of the device id
+ * - sequence_padding: zero padding of the running number
+ * - sequence_reset: 'daily', 'monthly', 'yearly' or 'never'
+ * - separator: placed between the parts
+ * - time_zone: the date part and the reset period are both computed in this zone
+ *
+ * Example with the defaults: 2025-01-31-ACME-3F2A-0001
+ */
+
+alter table public.company_details add column if not exists short_code text null;
+
+create table if not exists public.ticket_number_settings (
+  id boolean not null default true,
+  prefix text not null default '',
+  date_format text not null default 'YYYY-MM-DD',
+  include_org_code boolean not null default true,
+  include_device_code boolean not null default true,
+  sequence_padding integer not null default 4,
+  sequence_reset text not null default 'daily',
+  separator text not null default '-',
+  time_zone text not null default 'UTC',
+  updated_at timestamp with time zone null default timezone('utc'::text, now()),
+  constraint ticket_number_settings_pkey primary key (id),
+  constraint ticket_number_settings_single_row check (id),
+  constraint ticket_number_settings_date_format_check check (date_format in ('YYYYMMDD', 'YYYY-MM-DD', 'YYMM', 'YYYY', 'none')),
+  constraint ticket_number_settings_sequence_reset_check check (sequence_reset in ('daily', 'monthly', 'yearly', 'never')),
+  constraint ticket_number_settings_sequence_padding_check check (sequence_padding between 1 and 10)
+) tablespace pg_default;
+
+insert into public.ticket_number_settings (id) values (true) on conflict (id) do nothing;
+
+drop trigger if exists ticket_number_settings_updated_at on public.ticket_number_settings;
+create trigger ticket_number_settings_updated_at
+  before update on public.ticket_number_settings
+  for each row
+  execute function handle_updated_at();
+
+-- Last number handed out per reset period ('2025-01-31', '2025-01', '2025' or 'all')
+create table if not exists public.ticket_number_counters (
+  period text not null,
+  last_value bigint not null default 0,
+  constraint ticket_number_counters_pkey primary key (period)
+) tablespace pg_default;
+
+create or replace function public.next_ticket_number(org_id uuid, device_id uuid)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  settings public.ticket_number_settings;
+  local_now timestamp;
+  counter_period text;
+  sequence_value bigint;
+  org_code text;
+  parts text[];
+  candidate text;
+begin
+  select * into settings from public.ticket_number_settings where id;
+  local_now := now() at time zone settings.time_zone;
+
+  counter_period := case settings.sequence_reset
+    when 'daily' then to_char(local_now, 'YYYY-MM-DD')
+    when 'monthly' then to_char(local_now, 'YYYY-MM')
+    when 'yearly' then to_char(local_now, 'YYYY')
+    else 'all'
+  end;
+
+  select coalesce(nullif(trim(short_code), ''), upper(left(id::text, 4))) into org_code
+  from public.company_details
+  where id = org_id;
+
+  loop
+    -- The upsert takes a row lock, so concurrent callers are serialised per period
+    insert into public.ticket_number_counters (period, last_value)
+    values (counter_period, 1)
+    on conflict (period) do update set last_value = ticket_number_counters.last_value + 1
+    returning last_value into sequence_value;
+
+    parts := array[]::text[];
+    if settings.prefix <> '' then
+      parts := parts || settings.prefix;
+    end if;
+    if settings.date_format <> 'none' then
+      parts := parts || to_char(local_now, settings.date_format);
+    end if;
+    if settings.include_org_code then
+      parts := parts || upper(coalesce(org_code, left(org_id::text, 4)));
+    end if;
+    if settings.include_device_code then
+      parts := parts || upper(left(device_id::text, 4));
+    end if;
+    parts := parts || lpad(sequence_value::text, settings.sequence_padding, '0');
+
+    candidate := array_to_string(parts, settings.separator);
+
+    -- Skip numbers issued before the counter existed or under an older format
+    exit when not exists (select 1 from public.service_requests where ticket_no = candidate);
+  end loop;
+
+  return candidate;
+end;
+$$;
+
+grant execute on function public.next_ticket_number to authenticated;
+
+-- Every admin can read the format; only super admins change it. Counters are only
+-- touched by next_ticket_number().
+alter table public.ticket_number_settings enable row level security;
+alter table public.ticket_number_counters enable row level security;
+
+drop policy if exists "Admins can read ticket number settings" on public.ticket_number_settings;
+create policy "Admins can read ticket number settings" on public.ticket_number_settings
+  for select to authenticated
+  using (exists (
+    select 1 from public.admins
+    where user_id = auth.uid() and is_active = true
+  ));
+
+drop policy if exists "Super admins can update ticket number settings" on public.ticket_number_settings;
+create policy "Super admins can update ticket number settings" on public.ticket_number_settings
+  for update to authenticated
+  using (public.is_super_admin())
+  with check (public.is_super_admin());
@@ -1,6 +1,7 @@
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { MantineProvider, Loader, Center } from '@mantine/core';
 import { Notifications } from '@mantine/notifications';
+import { ModalsProvider } from '@mantine/modals';
 import { Suspense, lazy } from 'react';
 import './App.css'
 // Import Mantine styles
@@ -8,10 +9,13 @@ import '@mantine/core/styles.css';
 import '@mantine/notifications/styles.css';
 import '@mantine/dates/styles.css';
 import '@mantine/dropzone/styles.css';
+import '@mantine/carousel/styles.css';
 import { AuthProvider } from './auth/AuthContexttype';
 
 // Lazy load components
 const AdminLogin = lazy(() => import('./auth/AdminLogin'));
+const ResetPassword = lazy(() => import('./auth/ResetPassword'));
+const MfaChallenge = lazy(() => import('./auth/MfaChallenge'));
 const AdminLayout = lazy(() => import('./auth/AdminLayout'));
 const ProtectedRoute = lazy(() => import('./auth/ProtectedRoute'));
 const PublicRoute = lazy(() => import('./auth/PublicRoute'));
@@ -23,6 +27,12 @@ const Users = lazy(() => import('./pages/users'));
 const Settings = lazy(() => import('./pages/settings'));
 const ServiceRequest = lazy(() => import('./pages/service'));
 const ServiceEngineers = lazy(() => import('./pages/service-engineers'));
+const Schedule = lazy(() => import('./pages/schedule'));
+const DataQuality = lazy(() => import('./pages/data-quality'));
+const TestReview = lazy(() => import('./pages/test-review'));
+const Admins = lazy(() => import('./pages/admins'));
+const AuditLog = lazy(() => import('./pages/audit-log'));
+const Profile = lazy(() => import('./pages/profile'));
 
 const LoadingFallback = () => (
   <Center h="100vh">
@@ -36,38 +46,66 @@ function App() {
   return (
     <MantineProvider>
       <Notifications />
-      <AuthProvider>
-        <Router>
-          <Suspense fallback={<LoadingFallback />}>
-            <Routes>
-              {/* Redirect root to admin login */}
-              <Route path="/" element={<Navigate to="/admin/login" replace />} />
-              {/* Admin routes */}
-              <Route path="/admin/login" element={
-                <PublicRoute>
-                  <AdminLogin />
-                </PublicRoute>
-              } />
-              <Route path="/admin" element={
-                <ProtectedRoute>
-                  <AdminLayout />
-                </ProtectedRoute>
-              }>
-                <Route path="dashboard" element={<Dashboard />} />
-                <Route path="organization" element={<Organization />} />
-                <Route path="organization/:id" element={<OrganizationDetail />} />
-                <Route path="devices" element={<Devices />} />
-                <Route path="users" element={<Users />} />
-                <Route path="service-request" element={<ServiceRequest />} />
-                <Route path="service-engineers" element={<ServiceEngineers />} />
-                <Route path="settings" element={<Settings />} />
-              </Route>
-              {/* Catch all route */}
-              <Route path="*" element={<Navigate to="/admin/login" replace />} />
-            </Routes>
-          </Suspense>
-        </Router>
-      </AuthProvider>
+      <ModalsProvider>
+        <AuthProvider>
+          <Router>
+            <Suspense fallback={<LoadingFallback />}>
+              <Routes>
+                {/* Redirect root to admin login */}
+                <Route path="/" element={<Navigate to="/admin/login" replace />} />
+                {/* Admin routes */}
+                <Route path="/admin/login" element={
+                  <PublicRoute>
+                    <AdminLogin />
+                  </PublicRoute>
+                } />
+                {/* Not wrapped in PublicRoute: the recovery link signs the user in */}
+                <Route path="/admin/reset-password" element={<ResetPassword />} />
+                {/* Signed in with a password but not yet past the second factor */}
+                <Route path="/admin/mfa" element={<MfaChallenge />} />
+                <Route path="/admin" element={
+                  <ProtectedRoute>
+                    <AdminLayout />
+                  </ProtectedRoute>
+                }>
+                  <Route path="dashboard" element={<Dashboard />} />
+                  <Route path="organization" element={<Organization />} />
+                  <Route path="organization/:id" element={<OrganizationDetail />} />
+                  <Route path="devices" element={<Devices />} />
+                  <Route path="users" element={<Users />} />
+                  <Route path="service-request" element={<ServiceRequest />} />
+                  <Route path="service-engineers" element={<ServiceEngineers />} />
+                  <Route path="schedule" element={<Schedule />} />
+                  <Route path="test-review" element={
+                    <ProtectedRoute capability="device_test:review">
+                      <TestReview />
+                    </ProtectedRoute>
+                  } />
+                  <Route path="data-quality" element={<DataQuality />} />
+                  <Route path="audit-log" element={
+                    <ProtectedRoute capability="audit:view">
+                      <AuditLog />
+                    </ProtectedRoute>
+                  } />
+                  <Route path="admins" element={
+                    <ProtectedRoute capability="admin:manage">
+                      <Admins />
+                    </ProtectedRoute>
+                  } />
+                  <Route path="profile" element={<Profile />} />
+                  <Route path="settings" element={
+                    <ProtectedRoute capability="settings:manage">
+                      <Settings />
+                    </ProtectedRoute>
+                  } />
+                </Route>
+                {/* Catch all route */}
+                <Route path="*" element={<Navigate to="/admin/login" replace />} />
+              </Routes>
+            </Suspense>
+          </Router>
+        </AuthProvider>
+      </ModalsProvider>
     </MantineProvider>
   );
 }
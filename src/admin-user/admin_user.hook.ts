@@ -0,0 +1,106 @@
+import { useState, useEffect, useCallback } from 'react';
+import { notifications } from '@mantine/notifications';
+import type { AdminRole } from '../auth/auth';
+import type { AdminAccount, AdminInvite, InviteAdminData } from './admin_user.type';
+import { adminUserService } from './admin_user.service';
+
+export const useAdminUsers = () => {
+  const [admins, setAdmins] = useState<AdminAccount[]>([]);
+  const [invites, setInvites] = useState<AdminInvite[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAdmins = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [adminData, inviteData] = await Promise.all([
+        adminUserService.getAll(),
+        adminUserService.getPendingInvites()
+      ]);
+      setAdmins(adminData);
+      setInvites(inviteData);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch admin accounts');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAdmins();
+  }, [fetchAdmins]);
+
+  return {
+    admins,
+    invites,
+    loading,
+    error,
+    refetch: fetchAdmins
+  };
+};
+
+export const useAdminUserActions = () => {
+  const [loading, setLoading] = useState(false);
+
+  // Shared success/error notifications; errors are rethrown for the caller
+  const run = useCallback(async <T>(action: () => Promise<T>, successMessage: string, fallbackError: string) => {
+    setLoading(true);
+    try {
+      const result = await action();
+      notifications.show({
+        title: 'Success',
+        message: successMessage,
+        color: 'green'
+      });
+      return result;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : fallbackError;
+      notifications.show({
+        title: 'Error',
+        message: errorMessage,
+        color: 'red'
+      });
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const inviteAdmin = useCallback((data: InviteAdminData, invitedBy: string) =>
+    run(() => adminUserService.invite(data, invitedBy), `Invitation sent to ${data.email}`, 'Failed to invite admin'),
+  [run]);
+
+  const revokeInvite = useCallback((invite: AdminInvite) =>
+    run(() => adminUserService.revokeInvite(invite.id), `Invitation for ${invite.email} revoked`, 'Failed to revoke invitation'),
+  [run]);
+
+  const updateRole = useCallback((admin: AdminAccount, role: AdminRole) =>
+    run(() => adminUserService.updateRole(admin.user_id, role), `Role updated for ${admin.name || admin.email}`, 'Failed to update role'),
+  [run]);
+
+  const setActive = useCallback((admin: AdminAccount, isActive: boolean) =>
+    run(
+      () => adminUserService.setActive(admin.user_id, isActive),
+      `${admin.name || admin.email} ${isActive ? 'reactivated' : 'deactivated'}`,
+      'Failed to update account'
+    ),
+  [run]);
+
+  const resetMfa = useCallback((admin: AdminAccount) =>
+    run(
+      () => adminUserService.resetMfa(admin.user_id),
+      `Two-factor authentication reset for ${admin.name || admin.email}`,
+      'Failed to reset two-factor authentication'
+    ),
+  [run]);
+
+  return {
+    loading,
+    inviteAdmin,
+    revokeInvite,
+    updateRole,
+    setActive,
+    resetMfa
+  };
+};
@@ -0,0 +1,104 @@
+import supabase from '../supabase';
+import type { AdminRole } from '../auth/auth';
+import type { AdminAccount, AdminInvite, InviteAdminData } from './admin_user.type';
+
+const ADMINS_TABLE = 'admins';
+const INVITES_TABLE = 'admin_invites';
+
+export const adminUserService = {
+  // Get all admin accounts (readable by super admins only)
+  async getAll(): Promise<AdminAccount[]> {
+    const { data, error } = await supabase
+      .from(ADMINS_TABLE)
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // Invitations not yet linked to an account
+  async getPendingInvites(): Promise<AdminInvite[]> {
+    const { data, error } = await supabase
+      .from(INVITES_TABLE)
+      .select('*')
+      .is('accepted_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // Record the invite, then email a sign-in link. Existing accounts are granted access
+  // immediately by the database; new ones when they first sign in from the link.
+  async invite(data: InviteAdminData, invitedBy: string): Promise<AdminInvite> {
+    const email = data.email.trim().toLowerCase();
+
+    const { data: invite, error } = await supabase
+      .from(INVITES_TABLE)
+      .insert({ email, role: data.role, invited_by: invitedBy })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error(`${email} has already been invited`);
+      }
+      throw error;
+    }
+
+    const { error: emailError } = await supabase.auth.signInWithOtp({
+      email,
+      options: {
+        shouldCreateUser: true,
+        emailRedirectTo: `${window.location.origin}/admin/login`
+      }
+    });
+
+    if (emailError) {
+      throw new Error(`Invite saved, but the email could not be sent: ${emailError.message}`);
+    }
+
+    return invite;
+  },
+
+  async revokeInvite(id: string): Promise<void> {
+    const { error } = await supabase
+      .from(INVITES_TABLE)
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  async updateRole(userId: string, role: AdminRole): Promise<AdminAccount> {
+    const { data, error } = await supabase
+      .from(ADMINS_TABLE)
+      .update({ role })
+      .eq('user_id', userId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Deactivated admins are rejected at login
+  async setActive(userId: string, isActive: boolean): Promise<AdminAccount> {
+    const { data, error } = await supabase
+      .from(ADMINS_TABLE)
+      .update({ is_active: isActive })
+      .eq('user_id', userId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Removes the admin's authenticator factors so they can sign in and enroll a new device
+  async resetMfa(userId: string): Promise<void> {
+    const { error } = await supabase.rpc('reset_admin_mfa', { target_user_id: userId });
+    if (error) throw error;
+  }
+};
@@ -0,0 +1,28 @@
+import type { AdminRole } from '../auth/auth';
+
+export interface AdminAccount {
+  user_id: string;
+  email: string | null;
+  name: string | null;
+  role: AdminRole;
+  is_active: boolean;
+  last_login_at: string | null;
+  invited_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AdminInvite {
+  id: string;
+  email: string;
+  role: AdminRole;
+  invited_by: string | null;
+  user_id: string | null;
+  accepted_at: string | null;
+  created_at: string;
+}
+
+export interface InviteAdminData {
+  email: string;
+  role: AdminRole;
+}
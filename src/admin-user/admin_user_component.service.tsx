@@ -0,0 +1,355 @@
+import { useState } from 'react';
+import {
+  Stack,
+  Paper,
+  Title,
+  Group,
+  Button,
+  Table,
+  Text,
+  ActionIcon,
+  Menu,
+  TextInput,
+  Select,
+  Modal,
+  Badge,
+  Loader,
+  Alert,
+  Tooltip
+} from '@mantine/core';
+import { useForm } from '@mantine/form';
+import { modals } from '@mantine/modals';
+import {
+  IconDots,
+  IconMailForward,
+  IconRefresh,
+  IconShieldOff,
+  IconTrash,
+  IconUserCheck,
+  IconUserOff
+} from '@tabler/icons-react';
+import { useAuth } from '../auth/useAuth';
+import { ADMIN_ROLES, type AdminRole } from '../auth/auth';
+import { useAdminUsers, useAdminUserActions } from './admin_user.hook';
+import type { AdminAccount, AdminInvite, InviteAdminData } from './admin_user.type';
+
+const getRoleColor = (role: AdminRole) => {
+  switch (role) {
+    case 'super_admin': return 'red';
+    case 'admin': return 'blue';
+    case 'support': return 'teal';
+    default: return 'gray';
+  }
+};
+
+const formatDateTime = (value: string | null) =>
+  value ? new Date(value).toLocaleString() : 'Never';
+
+export function AdminUserManagement() {
+  const { user } = useAuth();
+  const [inviteModalOpened, setInviteModalOpened] = useState(false);
+  const { admins, invites, loading, error, refetch } = useAdminUsers();
+  const { inviteAdmin, revokeInvite, updateRole, setActive, resetMfa, loading: actionLoading } = useAdminUserActions();
+
+  const inviteForm = useForm<InviteAdminData>({
+    initialValues: {
+      email: '',
+      role: 'admin'
+    },
+    validate: {
+      email: (value) => {
+        if (!value) return 'Email is required';
+        if (!/^\S+@\S+\.\S+$/.test(value)) return 'Invalid email format';
+        if (admins.some(admin => admin.email?.toLowerCase() === value.trim().toLowerCase())) {
+          return 'This email already has an admin account';
+        }
+        return null;
+      }
+    }
+  });
+
+  const handleInvite = async (values: InviteAdminData) => {
+    if (!user) return;
+    try {
+      await inviteAdmin(values, user.id);
+      setInviteModalOpened(false);
+      inviteForm.reset();
+      refetch();
+    } catch {
+      // Error notification is shown by the hook
+    }
+  };
+
+  const handleRoleChange = async (admin: AdminAccount, role: string | null) => {
+    if (!role || role === admin.role) return;
+    try {
+      await updateRole(admin, role as AdminRole);
+      refetch();
+    } catch {
+      // Error notification is shown by the hook
+    }
+  };
+
+  const handleToggleActive = (admin: AdminAccount) => {
+    const displayName = admin.name || admin.email || 'this admin';
+    modals.openConfirmModal({
+      title: admin.is_active ? 'Deactivate Admin' : 'Reactivate Admin',
+      children: (
+        <Text size="sm">
+          {admin.is_active
+            ? <>Are you sure you want to deactivate <strong>{displayName}</strong>? They will no longer be able to sign in to the console.</>
+            : <>Reactivate <strong>{displayName}</strong>? They will be able to sign in again with their current role.</>}
+        </Text>
+      ),
+      labels: { confirm: admin.is_active ? 'Deactivate' : 'Reactivate', cancel: 'Cancel' },
+      confirmProps: { color: admin.is_active ? 'red' : 'green' },
+      onConfirm: async () => {
+        try {
+          await setActive(admin, !admin.is_active);
+          refetch();
+        } catch {
+          // Error notification is shown by the hook
+        }
+      }
+    });
+  };
+
+  const handleResetMfa = (admin: AdminAccount) => {
+    const displayName = admin.name || admin.email || 'this admin';
+    modals.openConfirmModal({
+      title: 'Reset Two-Factor Authentication',
+      children: (
+        <Text size="sm">
+          Remove all authenticators for <strong>{displayName}</strong>? Use this when they have lost access
+          to their device. They will sign in with their password only until they enroll again.
+        </Text>
+      ),
+      labels: { confirm: 'Reset', cancel: 'Cancel' },
+      confirmProps: { color: 'red' },
+      onConfirm: async () => {
+        try {
+          await resetMfa(admin);
+        } catch {
+          // Error notification is shown by the hook
+        }
+      }
+    });
+  };
+
+  const handleRevokeInvite = (invite: AdminInvite) => {
+    modals.openConfirmModal({
+      title: 'Revoke Invitation',
+      children: (
+        <Text size="sm">
+          Revoke the admin invitation for <strong>{invite.email}</strong>?
+        </Text>
+      ),
+      labels: { confirm: 'Revoke', cancel: 'Cancel' },
+      confirmProps: { color: 'red' },
+      onConfirm: async () => {
+        try {
+          await revokeInvite(invite);
+          refetch();
+        } catch {
+          // Error notification is shown by the hook
+        }
+      }
+    });
+  };
+
+  if (loading && admins.length === 0) return <Loader size="lg" style={{ display: 'block', margin: '2rem auto' }} />;
+
+  return (
+    <Stack gap="md" p={{ base: 'sm', md: 'md' }}>
+      <Group justify="space-between" style={{ flexWrap: 'wrap', gap: 'md' }}>
+        <div>
+          <Title order={2}>Admin Accounts</Title>
+          <Text size="sm" c="dimmed">Who can sign in to this console and what they can do</Text>
+        </div>
+        <Group>
+          <Button
+            leftSection={<IconRefresh size={16} />}
+            variant="subtle"
+            onClick={refetch}
+            loading={loading}
+          >
+            Refresh
+          </Button>
+          <Button leftSection={<IconMailForward size={16} />} onClick={() => setInviteModalOpened(true)}>
+            Invite Admin
+          </Button>
+        </Group>
+      </Group>
+
+      {error && <Alert color="red" title="Error">{error}</Alert>}
+
+      <Paper p="md">
+        <div style={{ overflowX: 'auto' }}>
+          <Table striped highlightOnHover style={{ minWidth: '800px' }}>
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>Admin</Table.Th>
+                <Table.Th>Role</Table.Th>
+                <Table.Th>Status</Table.Th>
+                <Table.Th>Last Login</Table.Th>
+                <Table.Th>Added</Table.Th>
+                <Table.Th>Actions</Table.Th>
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {admins.length === 0 ? (
+                <Table.Tr>
+                  <Table.Td colSpan={6} style={{ textAlign: 'center', padding: '2rem', color: 'var(--mantine-color-dimmed)' }}>
+                    No admin accounts found
+                  </Table.Td>
+                </Table.Tr>
+              ) : (
+                admins.map((admin) => {
+                  const isSelf = admin.user_id === user?.id;
+                  return (
+                    <Table.Tr key={admin.user_id}>
+                      <Table.Td>
+                        <Group gap="xs">
+                          <Text fw={500}>{admin.name || admin.email || admin.user_id}</Text>
+                          {isSelf && <Badge size="xs" variant="outline">You</Badge>}
+                        </Group>
+                        {admin.name && admin.email && (
+                          <Text size="xs" c="dimmed">{admin.email}</Text>
+                        )}
+                      </Table.Td>
+                      <Table.Td>
+                        <Tooltip label="You cannot change your own role" disabled={!isSelf}>
+                          <Select
+                            data={ADMIN_ROLES}
+                            value={admin.role}
+                            onChange={(value) => handleRoleChange(admin, value)}
+                            disabled={isSelf || actionLoading}
+                            allowDeselect={false}
+                            size="xs"
+                            w={150}
+                          />
+                        </Tooltip>
+                      </Table.Td>
+                      <Table.Td>
+                        <Badge color={admin.is_active ? 'green' : 'gray'} variant="light">
+                          {admin.is_active ? 'Active' : 'Deactivated'}
+                        </Badge>
+                      </Table.Td>
+                      <Table.Td>
+                        <Text size="sm">{formatDateTime(admin.last_login_at)}</Text>
+                      </Table.Td>
+                      <Table.Td>
+                        <Text size="sm">{new Date(admin.created_at).toLocaleDateString()}</Text>
+                      </Table.Td>
+                      <Table.Td>
+                        <Menu shadow="md" width={200}>
+                          <Menu.Target>
+                            <ActionIcon variant="subtle" disabled={isSelf}>
+                              <IconDots size={16} />
+                            </ActionIcon>
+                          </Menu.Target>
+                          <Menu.Dropdown>
+                            <Menu.Item
+                              leftSection={<IconShieldOff size={14} />}
+                              onClick={() => handleResetMfa(admin)}
+                            >
+                              Reset two-factor
+                            </Menu.Item>
+                            <Menu.Item
+                              leftSection={admin.is_active ? <IconUserOff size={14} /> : <IconUserCheck size={14} />}
+                              color={admin.is_active ? 'red' : 'green'}
+                              onClick={() => handleToggleActive(admin)}
+                            >
+                              {admin.is_active ? 'Deactivate' : 'Reactivate'}
+                            </Menu.Item>
+                          </Menu.Dropdown>
+                        </Menu>
+                      </Table.Td>
+                    </Table.Tr>
+                  );
+                })
+              )}
+            </Table.Tbody>
+          </Table>
+        </div>
+      </Paper>
+
+      {invites.length > 0 && (
+        <Paper p="md">
+          <Stack gap="md">
+            <Title order={4}>Pending Invitations</Title>
+            <div style={{ overflowX: 'auto' }}>
+              <Table striped style={{ minWidth: '600px' }}>
+                <Table.Thead>
+                  <Table.Tr>
+                    <Table.Th>Email</Table.Th>
+                    <Table.Th>Role</Table.Th>
+                    <Table.Th>Invited</Table.Th>
+                    <Table.Th>Actions</Table.Th>
+                  </Table.Tr>
+                </Table.Thead>
+                <Table.Tbody>
+                  {invites.map((invite) => (
+                    <Table.Tr key={invite.id}>
+                      <Table.Td>{invite.email}</Table.Td>
+                      <Table.Td>
+                        <Badge color={getRoleColor(invite.role)} variant="light">
+                          {ADMIN_ROLES.find(role => role.value === invite.role)?.label || invite.role}
+                        </Badge>
+                      </Table.Td>
+                      <Table.Td>{new Date(invite.created_at).toLocaleDateString()}</Table.Td>
+                      <Table.Td>
+                        <Tooltip label="Revoke invitation">
+                          <ActionIcon variant="subtle" color="red" onClick={() => handleRevokeInvite(invite)}>
+                            <IconTrash size={16} />
+                          </ActionIcon>
+                        </Tooltip>
+                      </Table.Td>
+                    </Table.Tr>
+                  ))}
+                </Table.Tbody>
+              </Table>
+            </div>
+          </Stack>
+        </Paper>
+      )}
+
+      <Modal
+        opened={inviteModalOpened}
+        onClose={() => setInviteModalOpened(false)}
+        title="Invite Admin"
+        size="md"
+      >
+        <form onSubmit={inviteForm.onSubmit(handleInvite)}>
+          <Stack gap="md">
+            <TextInput
+              label="Email"
+              placeholder="admin@example.com"
+              required
+              {...inviteForm.getInputProps('email')}
+            />
+            <Select
+              label="Role"
+              data={ADMIN_ROLES}
+              allowDeselect={false}
+              required
+              {...inviteForm.getInputProps('role')}
+            />
+            <Text size="xs" c="dimmed">
+              Existing accounts get access immediately. Otherwise a sign-in link is emailed and
+              access is granted the first time they sign in.
+            </Text>
+            <Group justify="flex-end">
+              <Button variant="subtle" onClick={() => setInviteModalOpened(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" loading={actionLoading}>
+                Send Invite
+              </Button>
+            </Group>
+          </Stack>
+        </form>
+      </Modal>
+    </Stack>
+  );
+}
@@ -0,0 +1,58 @@
+import { useState, useEffect, useCallback } from 'react';
+import { auditLogService } from './audit_log.service';
+import type { AuditActor, AuditLogEntry, AuditLogFilters, PaginatedResponse, PaginationParams } from './audit_log.type';
+
+export const useAuditLog = (
+  filters: AuditLogFilters = {},
+  pagination: PaginationParams = { page: 1, pageSize: 20 }
+) => {
+  const [entries, setEntries] = useState<PaginatedResponse<AuditLogEntry>>({
+    data: [],
+    totalCount: 0,
+    page: 1,
+    pageSize: 20,
+    totalPages: 0
+  });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Serialize filters/pagination so callers can pass inline objects
+  const filtersKey = JSON.stringify(filters);
+  const paginationKey = JSON.stringify(pagination);
+
+  const fetchEntries = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await auditLogService.getPaginated(JSON.parse(filtersKey), JSON.parse(paginationKey));
+      setEntries(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch audit log');
+    } finally {
+      setLoading(false);
+    }
+  }, [filtersKey, paginationKey]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  return {
+    entries,
+    loading,
+    error,
+    refresh: fetchEntries
+  };
+};
+
+export const useAuditActors = () => {
+  const [actors, setActors] = useState<AuditActor[]>([]);
+
+  useEffect(() => {
+    auditLogService.getActors()
+      .then(setActors)
+      .catch(err => console.error('Failed to fetch audit actors:', err));
+  }, []);
+
+  return { actors };
+};
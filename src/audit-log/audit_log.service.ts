@@ -0,0 +1,66 @@
+import supabase from '../supabase';
+import type { AuditActor, AuditLogEntry, AuditLogFilters, PaginatedResponse, PaginationParams } from './audit_log.type';
+
+const TABLE_NAME = 'audit_log';
+const ACTORS_VIEW = 'audit_log_actors';
+
+export const auditLogService = {
+  async getPaginated(filters?: AuditLogFilters, pagination?: PaginationParams): Promise<PaginatedResponse<AuditLogEntry>> {
+    const page = pagination?.page || 1;
+    const pageSize = pagination?.pageSize || 20;
+    const from = (page - 1) * pageSize;
+    const to = from + pageSize - 1;
+
+    let query = supabase.from(TABLE_NAME).select('*', { count: 'exact' });
+
+    if (filters?.entity_type) {
+      query = query.eq('entity_type', filters.entity_type);
+    }
+    if (filters?.entity_id) {
+      query = query.eq('entity_id', filters.entity_id);
+    }
+    if (filters?.actor_id) {
+      query = query.eq('actor_id', filters.actor_id);
+    }
+    if (filters?.action) {
+      query = query.eq('action', filters.action);
+    }
+    if (filters?.organization_id) {
+      query = query.eq('organization_id', filters.organization_id);
+    }
+    if (filters?.date_from) {
+      query = query.gte('occurred_at', filters.date_from);
+    }
+    if (filters?.date_to) {
+      query = query.lte('occurred_at', `${filters.date_to}T23:59:59.999Z`);
+    }
+
+    const { data, error, count } = await query
+      .order('occurred_at', { ascending: false })
+      .order('id', { ascending: false })
+      .range(from, to);
+
+    if (error) throw error;
+
+    const totalCount = count || 0;
+    const totalPages = Math.ceil(totalCount / pageSize);
+
+    return {
+      data: data || [],
+      totalCount,
+      page,
+      pageSize,
+      totalPages
+    };
+  },
+
+  async getActors(): Promise<AuditActor[]> {
+    const { data, error } = await supabase
+      .from(ACTORS_VIEW)
+      .select('actor_id, actor_email')
+      .order('actor_email', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+};
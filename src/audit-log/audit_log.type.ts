@@ -0,0 +1,77 @@
+export type AuditAction = 'create' | 'update' | 'archive' | 'restore' | 'delete';
+
+// Table names recorded by the audit trigger (see sql/audit_log.sql)
+export type AuditEntityType =
+  | 'company_details'
+  | 'devices'
+  | 'service_requests'
+  | 'service_engineers'
+  | 'user_tracking'
+  | 'user_role';
+
+export type AuditRow = Record<string, unknown>;
+
+export interface AuditFieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface AuditLogEntry {
+  id: number;
+  occurred_at: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  action: AuditAction;
+  entity_type: AuditEntityType;
+  entity_id: string;
+  entity_label: string | null;
+  organization_id: string | null;
+  before: AuditRow | null;
+  after: AuditRow | null;
+  changes: Record<string, AuditFieldChange> | null;
+}
+
+export interface AuditActor {
+  actor_id: string;
+  actor_email: string | null;
+}
+
+export interface AuditLogFilters {
+  entity_type?: AuditEntityType;
+  entity_id?: string;
+  actor_id?: string;
+  action?: AuditAction;
+  organization_id?: string;
+  date_from?: string;
+  date_to?: string;
+}
+
+export interface PaginationParams {
+  page: number;
+  pageSize: number;
+}
+
+export interface PaginatedResponse<T> {
+  data: T[];
+  totalCount: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+export const AUDIT_ENTITIES: { value: AuditEntityType; label: string }[] = [
+  { value: 'company_details', label: 'Organization' },
+  { value: 'devices', label: 'Device' },
+  { value: 'service_requests', label: 'Service Request' },
+  { value: 'service_engineers', label: 'Service Engineer' },
+  { value: 'user_tracking', label: 'User Invite' },
+  { value: 'user_role', label: 'User Access' }
+];
+
+export const AUDIT_ACTIONS: { value: AuditAction; label: string }[] = [
+  { value: 'create', label: 'Created' },
+  { value: 'update', label: 'Updated' },
+  { value: 'archive', label: 'Archived' },
+  { value: 'restore', label: 'Restored' },
+  { value: 'delete', label: 'Deleted' }
+];
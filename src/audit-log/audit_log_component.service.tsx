@@ -0,0 +1,284 @@
+import { useState } from 'react';
+import {
+  Paper,
+  Title,
+  Group,
+  Button,
+  Select,
+  Table,
+  Badge,
+  Modal,
+  Stack,
+  Text,
+  Pagination,
+  Loader,
+  Alert,
+  ActionIcon,
+  Tooltip,
+  Code
+} from '@mantine/core';
+import { DatePickerInput } from '@mantine/dates';
+import { IconEye, IconFilterOff, IconRefresh } from '@tabler/icons-react';
+import { useAuditActors, useAuditLog } from './audit_log.hook';
+import { AUDIT_ACTIONS, AUDIT_ENTITIES } from './audit_log.type';
+import type { AuditAction, AuditEntityType, AuditFieldChange, AuditLogEntry, AuditLogFilters } from './audit_log.type';
+
+const PAGE_SIZE = 25;
+
+const getActionColor = (action: AuditAction) => {
+  switch (action) {
+    case 'create': return 'green';
+    case 'update': return 'blue';
+    case 'archive': return 'orange';
+    case 'restore': return 'teal';
+    case 'delete': return 'red';
+    default: return 'gray';
+  }
+};
+
+const getEntityLabel = (entityType: AuditEntityType) =>
+  AUDIT_ENTITIES.find(entity => entity.value === entityType)?.label || entityType;
+
+const getActionLabel = (action: AuditAction) =>
+  AUDIT_ACTIONS.find(item => item.value === action)?.label || action;
+
+const formatAuditValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const formatDateForFilter = (date: Date | string | null): string | undefined => {
+  if (!date) return undefined;
+  if (typeof date === 'string') return date;
+  return date.toISOString().split('T')[0];
+};
+
+// Field-level changes for updates; the full snapshot for creates and deletes
+const getEntryChanges = (entry: AuditLogEntry): [string, AuditFieldChange][] => {
+  if (entry.changes) return Object.entries(entry.changes);
+  const snapshot = entry.after || entry.before || {};
+  return Object.entries(snapshot).map(([field, value]) => [
+    field,
+    entry.action === 'delete' ? { from: value, to: null } : { from: null, to: value }
+  ]);
+};
+
+export function AuditLogViewer() {
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  const [page, setPage] = useState(1);
+  const [selectedEntry, setSelectedEntry] = useState<AuditLogEntry | null>(null);
+  const { entries, loading, error, refresh } = useAuditLog(filters, { page, pageSize: PAGE_SIZE });
+  const { actors } = useAuditActors();
+
+  const updateFilters = (updates: Partial<AuditLogFilters>) => {
+    setFilters(prev => ({ ...prev, ...updates }));
+    setPage(1);
+  };
+
+  const hasActiveFilters = Object.values(filters).some(value => value !== undefined && value !== '');
+
+  const actorOptions = actors.map(actor => ({
+    value: actor.actor_id,
+    label: actor.actor_email || actor.actor_id
+  }));
+
+  return (
+    <Stack gap="md" p={{ base: 'sm', md: 'md' }}>
+      <Paper p="md">
+        <Stack gap="md">
+          <Group justify="space-between" style={{ flexWrap: 'wrap', gap: 'md' }}>
+            <div>
+              <Title order={2}>Audit Log</Title>
+              <Text size="sm" c="dimmed">Who changed what, and when</Text>
+            </div>
+            <Button
+              leftSection={<IconRefresh size={16} />}
+              variant="subtle"
+              onClick={refresh}
+              loading={loading}
+            >
+              Refresh
+            </Button>
+          </Group>
+
+          <Group gap="sm" style={{ flexWrap: 'wrap' }}>
+            <Select
+              placeholder="Any entity"
+              data={AUDIT_ENTITIES}
+              value={filters.entity_type || null}
+              onChange={(value) => updateFilters({ entity_type: (value as AuditEntityType) || undefined })}
+              clearable
+              w={180}
+            />
+            <Select
+              placeholder="Any actor"
+              data={actorOptions}
+              value={filters.actor_id || null}
+              onChange={(value) => updateFilters({ actor_id: value || undefined })}
+              searchable
+              clearable
+              w={220}
+            />
+            <Select
+              placeholder="Any action"
+              data={AUDIT_ACTIONS}
+              value={filters.action || null}
+              onChange={(value) => updateFilters({ action: (value as AuditAction) || undefined })}
+              clearable
+              w={150}
+            />
+            <DatePickerInput
+              type="range"
+              placeholder="Date range"
+              value={[filters.date_from || null, filters.date_to || null]}
+              onChange={([from, to]) => updateFilters({
+                date_from: formatDateForFilter(from),
+                date_to: formatDateForFilter(to)
+              })}
+              clearable
+              w={240}
+            />
+            {hasActiveFilters && (
+              <Button
+                leftSection={<IconFilterOff size={16} />}
+                variant="outline"
+                onClick={() => {
+                  setFilters({});
+                  setPage(1);
+                }}
+              >
+                Clear
+              </Button>
+            )}
+          </Group>
+
+          {error && <Alert color="red" title="Error">{error}</Alert>}
+
+          <div style={{ overflowX: 'auto' }}>
+            <Table striped highlightOnHover style={{ minWidth: '900px' }}>
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th>When</Table.Th>
+                  <Table.Th>Actor</Table.Th>
+                  <Table.Th>Action</Table.Th>
+                  <Table.Th>Entity</Table.Th>
+                  <Table.Th>Changed Fields</Table.Th>
+                  <Table.Th>Details</Table.Th>
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {loading && entries.data.length === 0 ? (
+                  <Table.Tr>
+                    <Table.Td colSpan={6} style={{ textAlign: 'center', padding: '2rem' }}>
+                      <Loader size="sm" />
+                    </Table.Td>
+                  </Table.Tr>
+                ) : entries.data.length === 0 ? (
+                  <Table.Tr>
+                    <Table.Td colSpan={6} style={{ textAlign: 'center', padding: '2rem', color: 'var(--mantine-color-dimmed)' }}>
+                      No changes recorded
+                    </Table.Td>
+                  </Table.Tr>
+                ) : (
+                  entries.data.map((entry) => (
+                    <Table.Tr key={entry.id}>
+                      <Table.Td>
+                        <Text size="sm">{new Date(entry.occurred_at).toLocaleString()}</Text>
+                      </Table.Td>
+                      <Table.Td>
+                        <Text size="sm">{entry.actor_email || (entry.actor_id ? entry.actor_id : 'System')}</Text>
+                      </Table.Td>
+                      <Table.Td>
+                        <Badge color={getActionColor(entry.action)} variant="light">
+                          {getActionLabel(entry.action)}
+                        </Badge>
+                      </Table.Td>
+                      <Table.Td>
+                        <Text size="sm" fw={500}>{entry.entity_label || entry.entity_id}</Text>
+                        <Text size="xs" c="dimmed">{getEntityLabel(entry.entity_type)}</Text>
+                      </Table.Td>
+                      <Table.Td>
+                        <Text size="sm" lineClamp={2}>
+                          {entry.changes ? Object.keys(entry.changes).join(', ') : '—'}
+                        </Text>
+                      </Table.Td>
+                      <Table.Td>
+                        <Tooltip label="View changes">
+                          <ActionIcon variant="subtle" onClick={() => setSelectedEntry(entry)}>
+                            <IconEye size={16} />
+                          </ActionIcon>
+                        </Tooltip>
+                      </Table.Td>
+                    </Table.Tr>
+                  ))
+                )}
+              </Table.Tbody>
+            </Table>
+          </div>
+
+          <Group justify="space-between">
+            <Text size="sm" c="dimmed">
+              {entries.totalCount} change{entries.totalCount === 1 ? '' : 's'}
+            </Text>
+            {entries.totalPages > 1 && (
+              <Pagination
+                total={entries.totalPages}
+                value={page}
+                onChange={setPage}
+                size="sm"
+              />
+            )}
+          </Group>
+        </Stack>
+      </Paper>
+
+      <Modal
+        opened={!!selectedEntry}
+        onClose={() => setSelectedEntry(null)}
+        title="Change Details"
+        size="xl"
+      >
+        {selectedEntry && (
+          <Stack gap="md">
+            <Group gap="xs">
+              <Badge color={getActionColor(selectedEntry.action)} variant="light">
+                {getActionLabel(selectedEntry.action)}
+              </Badge>
+              <Text fw={500}>
+                {getEntityLabel(selectedEntry.entity_type)}: {selectedEntry.entity_label || selectedEntry.entity_id}
+              </Text>
+            </Group>
+            <Text size="sm" c="dimmed">
+              {new Date(selectedEntry.occurred_at).toLocaleString()} by {selectedEntry.actor_email || selectedEntry.actor_id || 'System'}
+            </Text>
+            <div style={{ overflowX: 'auto' }}>
+              <Table striped style={{ minWidth: '600px' }}>
+                <Table.Thead>
+                  <Table.Tr>
+                    <Table.Th>Field</Table.Th>
+                    <Table.Th>Before</Table.Th>
+                    <Table.Th>After</Table.Th>
+                  </Table.Tr>
+                </Table.Thead>
+                <Table.Tbody>
+                  {getEntryChanges(selectedEntry).map(([field, change]) => (
+                    <Table.Tr key={field}>
+                      <Table.Td><Code>{field}</Code></Table.Td>
+                      <Table.Td>
+                        <Text size="sm" c="red.7" style={{ wordBreak: 'break-word' }}>{formatAuditValue(change.from)}</Text>
+                      </Table.Td>
+                      <Table.Td>
+                        <Text size="sm" c="green.7" style={{ wordBreak: 'break-word' }}>{formatAuditValue(change.to)}</Text>
+                      </Table.Td>
+                    </Table.Tr>
+                  ))}
+                </Table.Tbody>
+              </Table>
+            </div>
+          </Stack>
+        )}
+      </Modal>
+    </Stack>
+  );
+}
@@ -17,9 +17,16 @@ import {
   IconHome,
   IconAlertTriangle,
   IconTool,
+  IconDatabaseExclamation,
+  IconClipboardCheck,
+  IconUserShield,
+  IconHistory,
+  IconSettings,
+  IconCalendarEvent,
 } from "@tabler/icons-react";
 import { useNavigate, useLocation, Outlet } from "react-router-dom";
 import { useAuth } from "./useAuth";
+import { useCan } from "./useCan";
 import LOGO from "../assets/logo.svg";
 import { theme } from "../theme";
 
@@ -29,6 +36,7 @@ export default function AdminLayout() {
   const navigate = useNavigate();
   const location = useLocation();
   const { user, logout } = useAuth();
+  const can = useCan();
 
   const handleLogout = async () => {
     try {
@@ -96,6 +104,7 @@ export default function AdminLayout() {
     
               <Button
                 variant="subtle"
+                onClick={() => navigate("/admin/profile")}
               >
                 <Group gap="xs">
                   <Avatar size="sm" color="blue">
@@ -182,6 +191,98 @@ export default function AdminLayout() {
             active={isActive("/admin/service-engineers")}
             onClick={() => navigate("/admin/service-engineers")}
           />
+
+          <NavLink
+            label="Schedule"
+            className="rounded-xl m-2 font-light"
+            style={{ padding: "12px", fontSize: "18px",
+              backgroundColor: isActive("/admin/schedule")
+                ? theme.colors?.primary?.[6]
+                : "transparent",
+              color: isActive("/admin/schedule") ? "white" : "black",
+            }}
+            leftSection={<IconCalendarEvent size="1rem" />}
+            active={isActive("/admin/schedule")}
+            onClick={() => navigate("/admin/schedule")}
+          />
+
+          {can("device_test:review") && (
+            <NavLink
+              label="Test Review"
+              className="rounded-xl m-2 font-light"
+              style={{ padding: "12px", fontSize: "18px",
+                backgroundColor: isActive("/admin/test-review")
+                  ? theme.colors?.primary?.[6]
+                  : "transparent",
+                color: isActive("/admin/test-review") ? "white" : "black",
+              }}
+              leftSection={<IconClipboardCheck size="1rem" />}
+              active={isActive("/admin/test-review")}
+              onClick={() => navigate("/admin/test-review")}
+            />
+          )}
+
+          <NavLink
+            label="Data Quality"
+            className="rounded-xl m-2 font-light"
+            style={{ padding: "12px", fontSize: "18px",
+              backgroundColor: isActive("/admin/data-quality")
+                ? theme.colors?.primary?.[6]
+                : "transparent",
+              color: isActive("/admin/data-quality") ? "white" : "black",
+            }}
+            leftSection={<IconDatabaseExclamation size="1rem" />}
+            active={isActive("/admin/data-quality")}
+            onClick={() => navigate("/admin/data-quality")}
+          />
+
+          {can("audit:view") && (
+            <NavLink
+              label="Audit Log"
+              className="rounded-xl m-2 font-light"
+              style={{ padding: "12px", fontSize: "18px",
+                backgroundColor: isActive("/admin/audit-log")
+                  ? theme.colors?.primary?.[6]
+                  : "transparent",
+                color: isActive("/admin/audit-log") ? "white" : "black",
+              }}
+              leftSection={<IconHistory size="1rem" />}
+              active={isActive("/admin/audit-log")}
+              onClick={() => navigate("/admin/audit-log")}
+            />
+          )}
+
+          {can("admin:manage") && (
+            <NavLink
+              label="Admins"
+              className="rounded-xl m-2 font-light"
+              style={{ padding: "12px", fontSize: "18px",
+                backgroundColor: isActive("/admin/admins")
+                  ? theme.colors?.primary?.[6]
+                  : "transparent",
+                color: isActive("/admin/admins") ? "white" : "black",
+              }}
+              leftSection={<IconUserShield size="1rem" />}
+              active={isActive("/admin/admins")}
+              onClick={() => navigate("/admin/admins")}
+            />
+          )}
+
+          {can("settings:manage") && (
+            <NavLink
+              label="Settings"
+              className="rounded-xl m-2 font-light"
+              style={{ padding: "12px", fontSize: "18px",
+                backgroundColor: isActive("/admin/settings")
+                  ? theme.colors?.primary?.[6]
+                  : "transparent",
+                color: isActive("/admin/settings") ? "white" : "black",
+              }}
+              leftSection={<IconSettings size="1rem" />}
+              active={isActive("/admin/settings")}
+              onClick={() => navigate("/admin/settings")}
+            />
+          )}
         </Box>
 
         <Box mt="auto">
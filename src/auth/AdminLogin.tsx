@@ -11,9 +11,11 @@ import {
   Anchor,
   Group,
   Box,
+  Alert,
 } from "@mantine/core";
 import { useForm } from "@mantine/form";
 import { notifications } from "@mantine/notifications";
+import { useLocation } from "react-router-dom";
 import {
   IconAlertCircle,
   IconCheck,
@@ -27,12 +29,15 @@ import {
 import LOGO from "../assets/logo.svg";
 import "./AdminLogin.css";
 import { useAuth } from "./useAuth";
-import type { LoginCredentials } from "./auth";
+import type { LoginCredentials, SessionEndReason } from "./auth";
+import { SESSION_END_MESSAGES } from "./auth";
 
 export default function AdminLogin() {  
   const [isLoading, setIsLoading] = useState(false);
   const [showForgotPassword, setShowForgotPassword] = useState(false);
   const { login, resetPassword } = useAuth();
+  const location = useLocation();
+  const sessionEndReason = (location.state as { sessionEndReason?: SessionEndReason } | null)?.sessionEndReason;
   const loginForm = useForm<LoginCredentials>({
     initialValues: {
       email: "",
@@ -76,7 +81,7 @@ export default function AdminLogin() {
         if (response.error.includes("Admin access only")) {
           notifications.show({
             title: "Access Denied",
-            message: "Admin access only. Unauthorized user.",
+            message: response.error,
             color: "red",
             icon: <IconAlertCircle />,
           });
@@ -88,6 +93,13 @@ export default function AdminLogin() {
             icon: <IconAlertCircle />,
           });
         }
+      } else if (response.mfaRequired) {
+        notifications.show({
+          title: "Two-Factor Authentication",
+          message: "Enter the code from your authenticator app to finish signing in.",
+          color: "blue",
+        });
+        // PublicRoute redirects into the console, which sends the admin to the challenge
       } else if (response.user) {
         notifications.show({
           title: "Login Successful",
@@ -187,6 +199,11 @@ export default function AdminLogin() {
                 </Text>
               </Box>
 
+                {sessionEndReason && (
+                  <Alert color="orange" icon={<IconAlertCircle size={16} />} title="Session ended">
+                    {SESSION_END_MESSAGES[sessionEndReason]}
+                  </Alert>
+                )}
 
                 {!showForgotPassword ? (
                   /* Login Form */
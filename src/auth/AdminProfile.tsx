@@ -0,0 +1,274 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useLocation } from 'react-router-dom';
+import {
+  Stack,
+  Paper,
+  Title,
+  Group,
+  Button,
+  Text,
+  Badge,
+  Alert,
+  Loader,
+  Center,
+  Modal,
+  PinInput,
+  Image,
+  Code,
+  ActionIcon,
+  Tooltip,
+  SimpleGrid
+} from '@mantine/core';
+import { modals } from '@mantine/modals';
+import { notifications } from '@mantine/notifications';
+import {
+  IconAlertCircle,
+  IconCheck,
+  IconDeviceMobile,
+  IconShieldCheck,
+  IconShieldLock,
+  IconTrash
+} from '@tabler/icons-react';
+import { useAuth } from './useAuth';
+import { ADMIN_ROLES, REQUIRE_MFA, type MfaFactor, type TotpEnrollment } from './auth';
+
+const CODE_LENGTH = 6;
+
+export default function AdminProfile() {
+  const { user, listMfaFactors, enrollTotp, confirmTotpEnrollment, removeMfaFactor } = useAuth();
+  const location = useLocation();
+  const mfaSetupRequired = (location.state as { mfaSetupRequired?: boolean } | null)?.mfaSetupRequired;
+  const [factors, setFactors] = useState<MfaFactor[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [enrolling, setEnrolling] = useState(false);
+  const [code, setCode] = useState('');
+  const [codeError, setCodeError] = useState<string | null>(null);
+
+  const fetchFactors = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setFactors(await listMfaFactors());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load authenticators');
+    } finally {
+      setLoading(false);
+    }
+  }, [listMfaFactors]);
+
+  useEffect(() => {
+    fetchFactors();
+    // listMfaFactors is recreated on every auth context render; load once on mount
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const verifiedFactors = factors.filter(factor => factor.status === 'verified');
+
+  const handleStartEnrollment = async () => {
+    try {
+      setEnrolling(true);
+      setEnrollment(await enrollTotp());
+      setCode('');
+      setCodeError(null);
+    } catch (err) {
+      notifications.show({
+        title: 'Error',
+        message: err instanceof Error ? err.message : 'Failed to start enrollment',
+        color: 'red'
+      });
+    } finally {
+      setEnrolling(false);
+    }
+  };
+
+  const handleConfirmEnrollment = async (value: string) => {
+    if (!enrollment || value.length !== CODE_LENGTH) return;
+    setEnrolling(true);
+    try {
+      const response = await confirmTotpEnrollment(enrollment.factorId, value);
+      if (response.success) {
+        notifications.show({
+          title: 'Two-factor enabled',
+          message: 'You will be asked for a code from your authenticator each time you sign in.',
+          color: 'green',
+          icon: <IconCheck size={16} />
+        });
+        setEnrollment(null);
+        fetchFactors();
+      } else {
+        setCodeError(response.error || 'Invalid code');
+        setCode('');
+      }
+    } finally {
+      setEnrolling(false);
+    }
+  };
+
+  const handleRemoveFactor = (factor: MfaFactor) => {
+    modals.openConfirmModal({
+      title: 'Remove Authenticator',
+      children: (
+        <Text size="sm">
+          {REQUIRE_MFA
+            ? 'Two-factor authentication is required for this console. You will need to enroll a new authenticator before you can continue.'
+            : 'Your account will be protected by your password only. Are you sure?'}
+        </Text>
+      ),
+      labels: { confirm: 'Remove', cancel: 'Cancel' },
+      confirmProps: { color: 'red' },
+      onConfirm: async () => {
+        const response = await removeMfaFactor(factor.id);
+        if (response.success) {
+          notifications.show({ title: 'Authenticator removed', message: 'Two-factor authentication is off', color: 'green' });
+          fetchFactors();
+        } else {
+          notifications.show({ title: 'Error', message: response.error || 'Failed to remove authenticator', color: 'red' });
+        }
+      }
+    });
+  };
+
+  if (!user) return null;
+
+  return (
+    <Stack gap="md" p={{ base: 'sm', md: 'md' }}>
+      <div>
+        <Title order={2}>My Profile</Title>
+        <Text size="sm" c="dimmed">Your account and sign-in security</Text>
+      </div>
+
+      {mfaSetupRequired && verifiedFactors.length === 0 && (
+        <Alert color="orange" icon={<IconAlertCircle size={16} />} title="Two-factor authentication required">
+          Set up an authenticator app below to continue using the console.
+        </Alert>
+      )}
+
+      <Paper p="md">
+        <SimpleGrid cols={{ base: 1, sm: 2 }} spacing="md">
+          <div>
+            <Text size="xs" c="dimmed">Name</Text>
+            <Text fw={500}>{user.name}</Text>
+          </div>
+          <div>
+            <Text size="xs" c="dimmed">Email</Text>
+            <Text fw={500}>{user.email}</Text>
+          </div>
+          <div>
+            <Text size="xs" c="dimmed">Role</Text>
+            <Badge variant="light">
+              {ADMIN_ROLES.find(role => role.value === user.role)?.label || user.role}
+            </Badge>
+          </div>
+          <div>
+            <Text size="xs" c="dimmed">Last Login</Text>
+            <Text fw={500}>{user.last_login_at ? new Date(user.last_login_at).toLocaleString() : 'Never'}</Text>
+          </div>
+        </SimpleGrid>
+      </Paper>
+
+      <Paper p="md">
+        <Stack gap="md">
+          <Group justify="space-between">
+            <Group gap="xs">
+              <IconShieldLock size={20} />
+              <Title order={4}>Two-Factor Authentication</Title>
+            </Group>
+            {verifiedFactors.length > 0 ? (
+              <Badge color="green" leftSection={<IconShieldCheck size={12} />}>Enabled</Badge>
+            ) : (
+              <Badge color="gray">Off</Badge>
+            )}
+          </Group>
+
+          <Text size="sm" c="dimmed">
+            Require a 6-digit code from an authenticator app (Google Authenticator, 1Password, Authy)
+            in addition to your password when signing in.
+          </Text>
+
+          {error && <Alert color="red" title="Error">{error}</Alert>}
+
+          {loading ? (
+            <Center py="md"><Loader size="sm" /></Center>
+          ) : verifiedFactors.length === 0 ? (
+            <Group>
+              <Button leftSection={<IconDeviceMobile size={16} />} onClick={handleStartEnrollment} loading={enrolling}>
+                Set Up Authenticator
+              </Button>
+            </Group>
+          ) : (
+            <Stack gap="xs">
+              {verifiedFactors.map(factor => (
+                <Group key={factor.id} justify="space-between">
+                  <Group gap="xs">
+                    <IconDeviceMobile size={16} />
+                    <div>
+                      <Text size="sm" fw={500}>{factor.friendly_name || 'Authenticator app'}</Text>
+                      <Text size="xs" c="dimmed">Added {new Date(factor.created_at).toLocaleDateString()}</Text>
+                    </div>
+                  </Group>
+                  <Tooltip label="Remove authenticator">
+                    <ActionIcon variant="subtle" color="red" onClick={() => handleRemoveFactor(factor)}>
+                      <IconTrash size={16} />
+                    </ActionIcon>
+                  </Tooltip>
+                </Group>
+              ))}
+            </Stack>
+          )}
+        </Stack>
+      </Paper>
+
+      <Modal
+        opened={!!enrollment}
+        onClose={() => setEnrollment(null)}
+        title="Set Up Authenticator"
+        size="md"
+      >
+        {enrollment && (
+          <Stack gap="md">
+            <Text size="sm">
+              1. Scan this QR code with your authenticator app.
+            </Text>
+            <Center>
+              <Image src={enrollment.qrCode} alt="Authenticator QR code" w={200} h={200} />
+            </Center>
+            <Text size="xs" c="dimmed">
+              Can't scan it? Enter this key manually:
+            </Text>
+            <Code block>{enrollment.secret}</Code>
+            <Text size="sm">
+              2. Enter the 6-digit code shown in the app.
+            </Text>
+            <Group justify="center">
+              <PinInput
+                length={CODE_LENGTH}
+                type="number"
+                oneTimeCode
+                value={code}
+                onChange={setCode}
+                onComplete={handleConfirmEnrollment}
+                disabled={enrolling}
+                error={!!codeError}
+              />
+            </Group>
+            {codeError && <Text size="sm" c="red" ta="center">{codeError}</Text>}
+            <Group justify="flex-end">
+              <Button variant="subtle" onClick={() => setEnrollment(null)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => handleConfirmEnrollment(code)}
+                loading={enrolling}
+                disabled={code.length !== CODE_LENGTH}
+              >
+                Verify & Enable
+              </Button>
+            </Group>
+          </Stack>
+        )}
+      </Modal>
+    </Stack>
+  );
+}
@@ -1,62 +1,281 @@
-import { useState, useEffect, type ReactNode } from 'react';
-import type { AdminUser, AuthContextType, LoginCredentials, ResetPasswordData } from './auth';
+import { useState, useEffect, useRef, useCallback, type ReactNode } from 'react';
+import type { AuthChangeEvent } from '@supabase/supabase-js';
+import { Modal, Stack, Text, Group, Button } from '@mantine/core';
+import type { AdminUser, AuthContextType, LoginCredentials, MfaResponse, ResetPasswordData, SessionEndReason, UpdatePasswordData } from './auth';
+import { DEFAULT_IDLE_TIMEOUT_MINUTES, IDLE_WARNING_SECONDS } from './auth';
 import authService from './authService';
+import supabase from '../supabase';
 import { AuthContext } from './useAuth';
 
-
+// Shared between tabs through localStorage so activity in one tab keeps the others alive
+const ACTIVITY_STORAGE_KEY = 'admin-last-activity';
+const SESSION_END_STORAGE_KEY = 'admin-session-end';
+const ACTIVITY_EVENTS = ['mousedown', 'mousemove', 'keydown', 'scroll', 'touchstart'] as const;
+const ACTIVITY_THROTTLE_MS = 5000;
+// How long another tab's sign-out marker is trusted when this tab sees SIGNED_OUT
+const SESSION_END_MARKER_TTL_MS = 10000;
 
 interface AuthProviderProps {
   children: ReactNode;
+  idleTimeoutMinutes?: number;
 }
 
-export function AuthProvider({ children }: AuthProviderProps) {
+const getConfiguredIdleTimeout = () => {
+  const configured = import.meta.env.VITE_ADMIN_IDLE_TIMEOUT_MINUTES;
+  const minutes = configured ? Number(configured) : NaN;
+  return Number.isFinite(minutes) && minutes >= 0 ? minutes : DEFAULT_IDLE_TIMEOUT_MINUTES;
+};
+
+const recordActivity = () => {
+  localStorage.setItem(ACTIVITY_STORAGE_KEY, String(Date.now()));
+};
+
+const getLastActivity = () => Number(localStorage.getItem(ACTIVITY_STORAGE_KEY)) || 0;
+
+const writeSessionEndMarker = (reason: SessionEndReason) => {
+  localStorage.setItem(SESSION_END_STORAGE_KEY, JSON.stringify({ reason, at: Date.now() }));
+};
+
+// Reason for a sign-out this tab did not initiate: another tab's recent marker, else an expired session
+const readSessionEndMarker = (): SessionEndReason => {
+  try {
+    const marker = JSON.parse(localStorage.getItem(SESSION_END_STORAGE_KEY) || 'null');
+    if (marker && Date.now() - marker.at < SESSION_END_MARKER_TTL_MS) {
+      return marker.reason;
+    }
+  } catch {
+    // Ignore malformed markers
+  }
+  return 'expired';
+};
+
+export function AuthProvider({ children, idleTimeoutMinutes = getConfiguredIdleTimeout() }: AuthProviderProps) {
   const [user, setUser] = useState<AdminUser | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [sessionEndReason, setSessionEndReason] = useState<SessionEndReason | null>(null);
+  const [idleSecondsLeft, setIdleSecondsLeft] = useState<number | null>(null);
+  const userRef = useRef<AdminUser | null>(null);
+  // Reason to report for the next SIGNED_OUT event; undefined when this tab did not start it
+  const pendingEndReason = useRef<SessionEndReason | null | undefined>(undefined);
+  const idleTimeoutMs = idleTimeoutMinutes * 60 * 1000;
+  const isSignedIn = !!user;
+
+  const applyUser = useCallback((nextUser: AdminUser | null) => {
+    userRef.current = nextUser;
+    setUser(nextUser);
+  }, []);
+
+  const endSession = useCallback(async (reason: SessionEndReason | null) => {
+    pendingEndReason.current = reason;
+    writeSessionEndMarker(reason || 'signed_out');
+    await authService.logout();
+    applyUser(null);
+    setSessionEndReason(reason);
+    setIdleSecondsLeft(null);
+  }, [applyUser]);
 
   useEffect(() => {
+    const loadUser = async () => {
+      try {
+        const currentUser = await authService.getCurrentUser();
+        applyUser(currentUser);
+      } catch (error) {
+        console.error('Failed to load user:', error);
+        applyUser(null);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    const handleAuthEvent = async (event: AuthChangeEvent) => {
+      switch (event) {
+        case 'SIGNED_OUT': {
+          const reason = pendingEndReason.current !== undefined ? pendingEndReason.current : readSessionEndMarker();
+          pendingEndReason.current = undefined;
+          if (userRef.current) {
+            applyUser(null);
+            setSessionEndReason(reason);
+          }
+          setIdleSecondsLeft(null);
+          break;
+        }
+        case 'SIGNED_IN':
+        case 'TOKEN_REFRESHED':
+        case 'USER_UPDATED':
+        case 'MFA_CHALLENGE_VERIFIED': {
+          // Picks up sign-ins from other tabs and role changes on refresh; a failed
+          // lookup keeps the current user rather than signing them out on a blip
+          const currentUser = await authService.getCurrentUser();
+          if (currentUser) {
+            applyUser(currentUser);
+            setSessionEndReason(null);
+          }
+          break;
+        }
+      }
+    };
+
     loadUser();
-  }, []);
 
-  const loadUser = async () => {
-    try {
-      const currentUser = await authService.getCurrentUser();
-      setUser(currentUser);
-    } catch (error) {
-      console.error('Failed to load user:', error);
-      setUser(null);
-    } finally {
-      setIsLoading(false);
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+      // Defer: calling supabase from inside the callback can deadlock the auth lock
+      setTimeout(() => {
+        handleAuthEvent(event).catch(error => console.error('Auth state change error:', error));
+      }, 0);
+    });
+
+    return () => subscription.unsubscribe();
+  }, [applyUser]);
+
+  // Idle timeout: warn before signing out, shared across tabs via the activity timestamp
+  useEffect(() => {
+    if (!isSignedIn || idleTimeoutMs <= 0) return;
+
+    // Reopening the console after the timeout has passed also counts as idle
+    const lastActivity = getLastActivity();
+    if (lastActivity && Date.now() - lastActivity > idleTimeoutMs) {
+      endSession('idle').catch(error => console.error('Idle logout error:', error));
+      return;
     }
-  };
+    recordActivity();
+
+    let lastRecorded = Date.now();
+    let warning = false;
+    const handleActivity = () => {
+      // While warning, only an explicit "Stay signed in" extends the session
+      if (warning || Date.now() - lastRecorded < ACTIVITY_THROTTLE_MS) return;
+      lastRecorded = Date.now();
+      recordActivity();
+    };
+
+    const interval = window.setInterval(() => {
+      const remaining = getLastActivity() + idleTimeoutMs - Date.now();
+      if (remaining <= 0) {
+        window.clearInterval(interval);
+        endSession('idle').catch(error => console.error('Idle logout error:', error));
+      } else if (remaining <= IDLE_WARNING_SECONDS * 1000) {
+        warning = true;
+        setIdleSecondsLeft(Math.ceil(remaining / 1000));
+      } else {
+        warning = false;
+        setIdleSecondsLeft(null);
+      }
+    }, 1000);
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+
+    return () => {
+      window.clearInterval(interval);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+      setIdleSecondsLeft(null);
+    };
+  }, [isSignedIn, idleTimeoutMs, endSession]);
 
   const login = async (credentials: LoginCredentials) => {
+    // Record first: the SIGNED_IN event may set the user before login resolves,
+    // and a stale timestamp would immediately count as idle
+    recordActivity();
     const response = await authService.login(credentials);
     if (!response.error && response.user) {
-      setUser(response.user);
+      applyUser(response.user);
+      setSessionEndReason(null);
     }
     return response;
   };
 
   const logout = async () => {
-    await authService.logout();
-    setUser(null);
+    await endSession(null);
+  };
+
+  const staySignedIn = () => {
+    recordActivity();
+    setIdleSecondsLeft(null);
   };
 
   const resetPassword = async (data: ResetPasswordData) => {
     return await authService.resetPassword(data);
   };
 
+  const verifyRecoverySession = async () => {
+    return await authService.verifyRecoverySession();
+  };
+
+  const updatePassword = async (data: UpdatePasswordData) => {
+    return await authService.updatePassword(data);
+  };
+
+  // Reload the user after a successful challenge so the new assurance level is picked up
+  const refreshAfterMfa = async (response: MfaResponse) => {
+    if (response.success) {
+      const currentUser = await authService.getCurrentUser();
+      if (currentUser) applyUser(currentUser);
+    }
+    return response;
+  };
+
+  const verifyMfa = async (code: string) => {
+    return await refreshAfterMfa(await authService.verifyMfa(code));
+  };
+
+  const listMfaFactors = async () => {
+    return await authService.listMfaFactors();
+  };
+
+  const enrollTotp = async () => {
+    return await authService.enrollTotp();
+  };
+
+  const confirmTotpEnrollment = async (factorId: string, code: string) => {
+    return await refreshAfterMfa(await authService.confirmTotpEnrollment(factorId, code));
+  };
+
+  const removeMfaFactor = async (factorId: string) => {
+    return await refreshAfterMfa(await authService.removeMfaFactor(factorId));
+  };
+
  const value: AuthContextType = {
     user,
     isLoading,
+    sessionEndReason,
     login,
     logout,
     resetPassword,
+    verifyRecoverySession,
+    updatePassword,
+    verifyMfa,
+    listMfaFactors,
+    enrollTotp,
+    confirmTotpEnrollment,
+    removeMfaFactor,
   };
 
   return (
     <AuthContext.Provider value={value}>
       {children}
+      <Modal
+        opened={isSignedIn && idleSecondsLeft !== null}
+        onClose={staySignedIn}
+        title="Are you still there?"
+        centered
+        closeOnClickOutside={false}
+      >
+        <Stack>
+          <Text size="sm">
+            You will be signed out in {idleSecondsLeft} seconds due to inactivity.
+          </Text>
+          <Group justify="flex-end">
+            <Button
+              variant="outline"
+              onClick={() => logout().catch(error => console.error('Logout error:', error))}
+            >
+              Sign out now
+            </Button>
+            <Button onClick={staySignedIn}>
+              Stay signed in
+            </Button>
+          </Group>
+        </Stack>
+      </Modal>
     </AuthContext.Provider>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { Navigate, useLocation, useNavigate } from "react-router-dom";
+import {
+  Paper,
+  PinInput,
+  Button,
+  Title,
+  Text,
+  Stack,
+  LoadingOverlay,
+  Box,
+  Alert,
+  Loader,
+  Center,
+  Group,
+} from "@mantine/core";
+import { notifications } from "@mantine/notifications";
+import { IconAlertCircle, IconCheck, IconShieldLock } from "@tabler/icons-react";
+import LOGO from "../assets/logo.svg";
+import "./AdminLogin.css";
+import { useAuth } from "./useAuth";
+
+const CODE_LENGTH = 6;
+
+export default function MfaChallenge() {
+  const [isLoading, setIsLoading] = useState(false);
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const { user, isLoading: isAuthLoading, verifyMfa, logout } = useAuth();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const from = (location.state as { from?: string } | null)?.from;
+
+  if (isAuthLoading) {
+    return (
+      <Center h="100vh">
+        <Loader size="lg" />
+      </Center>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/admin/login" replace />;
+  }
+
+  if (!user.mfa_enrolled || user.aal === "aal2") {
+    return <Navigate to={from || "/admin/dashboard"} replace />;
+  }
+
+  const handleVerify = async (value: string) => {
+    if (value.length !== CODE_LENGTH) return;
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await verifyMfa(value);
+
+      if (response.success) {
+        notifications.show({
+          title: "Login Successful",
+          message: `Welcome back, ${user.name}!`,
+          color: "green",
+          icon: <IconCheck />,
+        });
+        navigate(from || "/admin/dashboard", { replace: true });
+      } else {
+        setError(response.error || "Invalid code. Please try again.");
+        setCode("");
+      }
+    } catch (err) {
+      console.error("Verify MFA error:", err);
+      setError("An unexpected error occurred. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await logout();
+    } catch (err) {
+      console.error("Logout error:", err);
+    }
+    navigate("/admin/login", { replace: true });
+  };
+
+  return (
+    <div className="min-h-screen flex">
+      {/* Left side - Brand section */}
+      <div className="hidden bg-gray-50 lg:flex lg:w-1/2 items-center justify-center p-12">
+        <div className="text-center text-white">
+          <div className="mb-8">
+            <img src={LOGO} alt="Image Pick Logo" className="h-24 mx-auto mb-6" />
+          </div>
+          <div className="text-xl opacity-90 font-light">
+            Admin Dashboard
+          </div>
+        </div>
+      </div>
+
+      {/* Right side - Code form */}
+      <div className="w-full lg:w-1/2 bg-[#4078c0] flex items-center justify-center p-8">
+        <div className="w-full max-w-md">
+          {/* Mobile logo */}
+          <div className="lg:hidden text-center mb-8">
+            <img src={LOGO} alt="Image Pick Logo" className="h-16 mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-800">Image Pick</h1>
+          </div>
+
+          <Paper p="xl" radius="md" className="bg-white shadow-lg">
+            <LoadingOverlay visible={isLoading} />
+
+            <Stack gap="lg">
+              <Box ta="center" mb="md">
+                <IconShieldLock size={40} color="var(--mantine-color-blue-6)" />
+                <Title order={2} fw={600} c="gray.8" mb="xs">
+                  Two-Factor Authentication
+                </Title>
+                <Text size="sm" c="gray.6">
+                  Enter the {CODE_LENGTH}-digit code from your authenticator app for {user.email}
+                </Text>
+              </Box>
+
+              {error && (
+                <Alert color="red" icon={<IconAlertCircle size={16} />}>
+                  {error}
+                </Alert>
+              )}
+
+              <Group justify="center">
+                <PinInput
+                  length={CODE_LENGTH}
+                  type="number"
+                  oneTimeCode
+                  autoFocus
+                  size="lg"
+                  value={code}
+                  onChange={setCode}
+                  onComplete={handleVerify}
+                  disabled={isLoading}
+                  error={!!error}
+                />
+              </Group>
+
+              <Stack gap="sm" mt="lg">
+                <Button
+                  fullWidth
+                  size="lg"
+                  radius="md"
+                  disabled={isLoading || code.length !== CODE_LENGTH}
+                  loading={isLoading}
+                  onClick={() => handleVerify(code)}
+                  className="bg-blue-600 hover:bg-blue-700 text-white font-medium"
+                >
+                  Verify
+                </Button>
+                <Button
+                  variant="outline"
+                  fullWidth
+                  size="lg"
+                  radius="md"
+                  onClick={handleSignOut}
+                  disabled={isLoading}
+                  className="border-gray-300 text-gray-700 hover:bg-gray-50"
+                >
+                  Sign Out
+                </Button>
+              </Stack>
+
+              <Text size="xs" c="gray.5" ta="center" mt="md">
+                Lost access to your authenticator? Ask a super admin to reset two-factor
+                authentication for your account, then sign in and enroll a new device.
+              </Text>
+            </Stack>
+          </Paper>
+        </div>
+      </div>
+    </div>
+  );
+}
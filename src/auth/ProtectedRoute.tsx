@@ -1,13 +1,19 @@
-import { Navigate } from 'react-router-dom';
+import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from './useAuth';
-import { Center, Loader } from '@mantine/core';
+import { Center, Loader, Alert } from '@mantine/core';
+import { IconLock } from '@tabler/icons-react';
+import { hasCapability, type Capability } from './permissions';
+import { REQUIRE_MFA } from './auth';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  // Page-level permission; admins without it see an access notice instead of the page
+  capability?: Capability;
 }
 
-export default function ProtectedRoute({ children }: ProtectedRouteProps) {
-  const { user, isLoading } = useAuth();
+export default function ProtectedRoute({ children, capability }: ProtectedRouteProps) {
+  const { user, isLoading, sessionEndReason } = useAuth();
+  const location = useLocation();
 
   if (isLoading) {
     return (
@@ -18,7 +24,32 @@ export default function ProtectedRoute({ children }: ProtectedRouteProps) {
   }
 
   if (!user) {
-    return <Navigate to="/admin/login" replace />;
+    // Tell the login page why the admin landed there and where to return afterwards
+    return (
+      <Navigate
+        to="/admin/login"
+        replace
+        state={sessionEndReason ? { sessionEndReason, from: location.pathname } : undefined}
+      />
+    );
+  }
+
+  // Signed in with a password but the second factor is still outstanding
+  if (user.mfa_enrolled && user.aal !== 'aal2') {
+    return <Navigate to="/admin/mfa" replace state={{ from: location.pathname }} />;
+  }
+
+  // When two-factor is mandatory, admins without it can only reach their profile to set it up
+  if (REQUIRE_MFA && !user.mfa_enrolled && location.pathname !== '/admin/profile') {
+    return <Navigate to="/admin/profile" replace state={{ mfaSetupRequired: true }} />;
+  }
+
+  if (capability && !hasCapability(user.role, capability)) {
+    return (
+      <Alert color="red" icon={<IconLock size={16} />} title="Access denied" m="md">
+        Your role does not have access to this page. Ask a super admin if you need it.
+      </Alert>
+    );
   }
 
   return <>{children}</>;
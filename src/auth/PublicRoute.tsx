@@ -1,4 +1,4 @@
-import { Navigate } from 'react-router-dom';
+import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from './useAuth';
 import { Center, Loader } from '@mantine/core';
 
@@ -8,6 +8,8 @@ interface PublicRouteProps {
 
 export default function PublicRoute({ children }: PublicRouteProps) {
   const { user, isLoading } = useAuth();
+  const location = useLocation();
+  const from = (location.state as { from?: string } | null)?.from;
 
   if (isLoading) {
     return (
@@ -18,7 +20,7 @@ export default function PublicRoute({ children }: PublicRouteProps) {
   }
 
   if (user) {
-    return <Navigate to="/admin/dashboard" replace />;
+    return <Navigate to={from || "/admin/dashboard"} replace />;
   }
 
   return <>{children}</>;
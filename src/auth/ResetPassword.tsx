@@ -0,0 +1,289 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  Paper,
+  PasswordInput,
+  Button,
+  Title,
+  Text,
+  Stack,
+  LoadingOverlay,
+  Box,
+  Progress,
+  Alert,
+  Loader,
+  Center,
+} from "@mantine/core";
+import { useForm } from "@mantine/form";
+import { notifications } from "@mantine/notifications";
+import {
+  IconAlertCircle,
+  IconCheck,
+  IconX,
+  IconEye,
+  IconEyeOff,
+} from "@tabler/icons-react";
+import LOGO from "../assets/logo.svg";
+import "./AdminLogin.css";
+import { useAuth } from "./useAuth";
+
+interface ResetPasswordForm {
+  password: string;
+  confirmPassword: string;
+}
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const passwordRequirements = [
+  { re: /[0-9]/, label: "Includes a number" },
+  { re: /[a-z]/, label: "Includes a lowercase letter" },
+  { re: /[A-Z]/, label: "Includes an uppercase letter" },
+  { re: /[^A-Za-z0-9]/, label: "Includes a special character" },
+];
+
+const getStrength = (password: string) => {
+  let multiplier = password.length >= MIN_PASSWORD_LENGTH ? 0 : 1;
+  passwordRequirements.forEach((requirement) => {
+    if (!requirement.re.test(password)) {
+      multiplier += 1;
+    }
+  });
+  return Math.max(100 - (100 / (passwordRequirements.length + 1)) * multiplier, 0);
+};
+
+function PasswordRequirement({ meets, label }: { meets: boolean; label: string }) {
+  return (
+    <Text c={meets ? "teal" : "red"} size="sm" style={{ display: "flex", alignItems: "center", gap: 6 }}>
+      {meets ? <IconCheck size={14} /> : <IconX size={14} />}
+      {label}
+    </Text>
+  );
+}
+
+export default function ResetPassword() {
+  const [isLoading, setIsLoading] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(true);
+  const [linkError, setLinkError] = useState<string | null>(null);
+  const [email, setEmail] = useState<string | undefined>();
+  const { verifyRecoverySession, updatePassword, logout } = useAuth();
+  const navigate = useNavigate();
+
+  const form = useForm<ResetPasswordForm>({
+    initialValues: {
+      password: "",
+      confirmPassword: "",
+    },
+    validate: {
+      password: (value) => {
+        if (!value) return "Password is required";
+        if (value.length < MIN_PASSWORD_LENGTH) return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+        if (passwordRequirements.some((requirement) => !requirement.re.test(value))) {
+          return "Password does not meet all requirements";
+        }
+        return null;
+      },
+      confirmPassword: (value, values) => {
+        if (!value) return "Please confirm your password";
+        if (value !== values.password) return "Passwords do not match";
+        return null;
+      },
+    },
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    verifyRecoverySession().then((status) => {
+      if (cancelled) return;
+      if (status.valid) {
+        setEmail(status.email);
+      } else {
+        setLinkError(status.error || "This reset link is invalid or has expired.");
+      }
+      setIsVerifying(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+    // Verify once on mount; the recovery session is consumed by the first check
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const backToLogin = async () => {
+    try {
+      // Drop the recovery session so the user signs in with the new password
+      await logout();
+    } catch (err) {
+      console.error("Logout error:", err);
+    }
+    navigate("/admin/login", { replace: true });
+  };
+
+  const handleSubmit = async (values: ResetPasswordForm) => {
+    setIsLoading(true);
+
+    try {
+      const response = await updatePassword({ password: values.password });
+
+      if (response.success) {
+        notifications.show({
+          title: "Password Updated",
+          message: response.message,
+          color: "green",
+          icon: <IconCheck />,
+        });
+        await backToLogin();
+      } else {
+        notifications.show({
+          title: response.message,
+          message: response.error || "Please try again.",
+          color: "red",
+          icon: <IconAlertCircle />,
+        });
+      }
+    } catch (err) {
+      console.error("Update password error:", err);
+      notifications.show({
+        title: "Error",
+        message: "Failed to update password. Please try again.",
+        color: "red",
+        icon: <IconAlertCircle />,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const strength = getStrength(form.values.password);
+  const strengthColor = strength === 100 ? "teal" : strength > 50 ? "yellow" : "red";
+
+  return (
+    <div className="min-h-screen flex">
+      {/* Left side - Brand section */}
+      <div className="hidden bg-gray-50 lg:flex lg:w-1/2 items-center justify-center p-12">
+        <div className="text-center text-white">
+          <div className="mb-8">
+            <img src={LOGO} alt="Image Pick Logo" className="h-24 mx-auto mb-6" />
+          </div>
+          <div className="text-xl opacity-90 font-light">
+            Admin Dashboard
+          </div>
+        </div>
+      </div>
+
+      {/* Right side - Reset form */}
+      <div className="w-full lg:w-1/2 bg-[#4078c0] flex items-center justify-center p-8">
+        <div className="w-full max-w-md">
+          {/* Mobile logo */}
+          <div className="lg:hidden text-center mb-8">
+            <img src={LOGO} alt="Image Pick Logo" className="h-16 mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-800">Image Pick</h1>
+          </div>
+
+          <Paper p="xl" radius="md" className="bg-white shadow-lg">
+            <LoadingOverlay visible={isLoading} />
+
+            <Stack gap="lg">
+              <Box ta="center" mb="md">
+                <Title order={2} fw={600} c="gray.8" mb="xs">
+                  Set New Password
+                </Title>
+                <Text size="sm" c="gray.6">
+                  {email ? `Choose a new password for ${email}` : "Choose a new password for your account"}
+                </Text>
+              </Box>
+
+              {isVerifying ? (
+                <Center py="xl">
+                  <Loader />
+                </Center>
+              ) : linkError ? (
+                <Stack gap="md">
+                  <Alert color="red" icon={<IconAlertCircle size={16} />} title="Reset link not valid">
+                    {linkError}
+                  </Alert>
+                  <Button
+                    fullWidth
+                    size="lg"
+                    radius="md"
+                    onClick={backToLogin}
+                    className="bg-blue-600 hover:bg-blue-700 text-white font-medium"
+                  >
+                    Back to Login
+                  </Button>
+                </Stack>
+              ) : (
+                <form onSubmit={form.onSubmit(handleSubmit)}>
+                  <Stack gap="md">
+                    <PasswordInput
+                      label="New Password"
+                      placeholder="••••••••••"
+                      visibilityToggleIcon={({ reveal }) =>
+                        reveal ? <IconEyeOff size={18} /> : <IconEye size={18} />
+                      }
+                      {...form.getInputProps("password")}
+                      disabled={isLoading}
+                      size="md"
+                      className="[&_input]:bg-gray-50"
+                    />
+
+                    <Stack gap={4}>
+                      <Progress color={strengthColor} value={strength} size={5} />
+                      <PasswordRequirement
+                        label={`At least ${MIN_PASSWORD_LENGTH} characters`}
+                        meets={form.values.password.length >= MIN_PASSWORD_LENGTH}
+                      />
+                      {passwordRequirements.map((requirement) => (
+                        <PasswordRequirement
+                          key={requirement.label}
+                          label={requirement.label}
+                          meets={requirement.re.test(form.values.password)}
+                        />
+                      ))}
+                    </Stack>
+
+                    <PasswordInput
+                      label="Confirm Password"
+                      placeholder="••••••••••"
+                      visibilityToggleIcon={({ reveal }) =>
+                        reveal ? <IconEyeOff size={18} /> : <IconEye size={18} />
+                      }
+                      {...form.getInputProps("confirmPassword")}
+                      disabled={isLoading}
+                      size="md"
+                      className="[&_input]:bg-gray-50"
+                    />
+
+                    <Stack gap="sm" mt="lg">
+                      <Button
+                        type="submit"
+                        fullWidth
+                        size="lg"
+                        disabled={isLoading}
+                        loading={isLoading}
+                        className="bg-blue-600 hover:bg-blue-700 text-white font-medium"
+                        radius="md"
+                      >
+                        Update Password
+                      </Button>
+                      <Button
+                        variant="outline"
+                        fullWidth
+                        onClick={backToLogin}
+                        disabled={isLoading}
+                        size="lg"
+                        className="border-gray-300 text-gray-700 hover:bg-gray-50"
+                        radius="md"
+                      >
+                        Back to Login
+                      </Button>
+                    </Stack>
+                  </Stack>
+                </form>
+              )}
+            </Stack>
+          </Paper>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,46 @@
+export type AdminRole = 'super_admin' | 'admin' | 'support' | 'read_only';
+
+export const ADMIN_ROLES: { value: AdminRole; label: string }[] = [
+  { value: 'super_admin', label: 'Super Admin' },
+  { value: 'admin', label: 'Admin' },
+  { value: 'support', label: 'Support' },
+  { value: 'read_only', label: 'Read Only' }
+];
+
 export interface AdminUser {
   id: string;
   email: string;
   name: string;
-  role: 'admin' | 'super_admin';
+  role: AdminRole;
   is_active: boolean;
   department_id?: string | null;
   project_id?: string | null;
   last_login_at?: string;
   created_at: string;
   updated_at: string;
+  // Authenticator assurance level of the current session; aal2 after a TOTP challenge
+  aal?: AssuranceLevel;
+  mfa_enrolled?: boolean;
+}
+
+export type AssuranceLevel = 'aal1' | 'aal2';
+
+export interface MfaFactor {
+  id: string;
+  friendly_name?: string;
+  status: 'verified' | 'unverified';
+  created_at: string;
+}
+
+export interface TotpEnrollment {
+  factorId: string;
+  qrCode: string; // data URL for an <img>
+  secret: string;
+}
+
+export interface MfaResponse {
+  success: boolean;
+  error?: string;
 }
 
 export interface LoginCredentials {
@@ -20,22 +52,57 @@ export interface LoginResponse {
   user: AdminUser | null;
   session: unknown;
   error?: string;
+  mfaRequired?: boolean;
 }
 
 export interface ResetPasswordData {
   email: string;
 }
 
+export interface UpdatePasswordData {
+  password: string;
+}
+
+export interface RecoverySessionStatus {
+  valid: boolean;
+  email?: string;
+  error?: string;
+}
+
 export interface PasswordResetResponse {
   success: boolean;
   message: string;
   error?: string;
 }
 
+// Why the admin was signed out without asking to be
+export type SessionEndReason = 'expired' | 'idle' | 'signed_out';
+
+export const SESSION_END_MESSAGES: Record<SessionEndReason, string> = {
+  expired: 'Your session has expired. Please sign in again.',
+  idle: 'You were signed out after a period of inactivity.',
+  signed_out: 'You were signed out in another tab.'
+};
+
+// Set VITE_ADMIN_REQUIRE_MFA=true to make every admin enroll TOTP before using the console
+export const REQUIRE_MFA = import.meta.env.VITE_ADMIN_REQUIRE_MFA === 'true';
+
+// Idle timeout, overridable with VITE_ADMIN_IDLE_TIMEOUT_MINUTES (0 disables it)
+export const DEFAULT_IDLE_TIMEOUT_MINUTES = 30;
+export const IDLE_WARNING_SECONDS = 60;
+
 export interface AuthContextType {
   user: AdminUser | null;
   isLoading: boolean;
+  sessionEndReason: SessionEndReason | null;
   login: (credentials: LoginCredentials) => Promise<LoginResponse>;
   logout: () => Promise<void>;
   resetPassword: (data: ResetPasswordData) => Promise<PasswordResetResponse>;
+  verifyRecoverySession: () => Promise<RecoverySessionStatus>;
+  updatePassword: (data: UpdatePasswordData) => Promise<PasswordResetResponse>;
+  verifyMfa: (code: string) => Promise<MfaResponse>;
+  listMfaFactors: () => Promise<MfaFactor[]>;
+  enrollTotp: () => Promise<TotpEnrollment>;
+  confirmTotpEnrollment: (factorId: string, code: string) => Promise<MfaResponse>;
+  removeMfaFactor: (factorId: string) => Promise<MfaResponse>;
 }
\ No newline at end of file
@@ -1,5 +1,6 @@
 import supabase from '../supabase';
-import type { AdminUser, LoginCredentials, LoginResponse, PasswordResetResponse, ResetPasswordData } from './auth';
+import { ADMIN_ROLES } from './auth';
+import type { AdminRole, AdminUser, AssuranceLevel, LoginCredentials, LoginResponse, MfaFactor, MfaResponse, PasswordResetResponse, RecoverySessionStatus, ResetPasswordData, TotpEnrollment, UpdatePasswordData } from './auth';
 
 interface CustomClaims {
   user_role: string | null;
@@ -7,30 +8,109 @@ interface CustomClaims {
   project_id: string | null;
 }
 
+interface AdminRoleResolution {
+  role: AdminRole;
+  is_active: boolean;
+  department_id: string | null;
+  project_id: string | null;
+  last_login_at?: string;
+}
+
+const ADMINS_TABLE = 'admins';
+const isAdminRole = (value: unknown): value is AdminRole =>
+  typeof value === 'string' && ADMIN_ROLES.some(role => role.value === value);
+
+// Recovery links land on /admin/reset-password with the session in the URL hash.
+// supabase-js consumes and clears the hash while initializing, so capture it first.
+const recoveryRedirectParams = new URLSearchParams(window.location.hash.slice(1));
+let passwordRecoveryPending = recoveryRedirectParams.get('type') === 'recovery';
+
+supabase.auth.onAuthStateChange((event) => {
+  if (event === 'PASSWORD_RECOVERY') {
+    passwordRecoveryPending = true;
+  }
+});
+
 class AuthService {
   // Helper method to decode JWT and extract custom claims
-  // private decodeJWTCustomClaims(accessToken: string): CustomClaims | null {
-  //   try {
-  //     const base64Url = accessToken.split('.')[1];
-  //     const base64 = base64Url.replace(/-/g, '+').replace(/_/g, '/');
-  //     const jsonPayload = decodeURIComponent(
-  //       atob(base64)
-  //         .split('')
-  //         .map(c => '%' + ('00' + c.charCodeAt(0).toString(16)).slice(-2))
-  //         .join('')
-  //     );
-  //     const payload = JSON.parse(jsonPayload);
-      
-  //     return {
-  //       user_role: payload.user_role || null,
-  //       department_id: payload.department_id || null,
-  //       project_id: payload.project_id || null
-  //     };
-  //   } catch (error) {
-  //     console.error('Error decoding JWT:', error);
-  //     return null;
-  //   }
-  // }
+  private decodeJWTCustomClaims(accessToken: string): CustomClaims | null {
+    try {
+      const base64Url = accessToken.split('.')[1];
+      const base64 = base64Url.replace(/-/g, '+').replace(/_/g, '/');
+      const jsonPayload = decodeURIComponent(
+        atob(base64)
+          .split('')
+          .map(c => '%' + ('00' + c.charCodeAt(0).toString(16)).slice(-2))
+          .join('')
+      );
+      const payload = JSON.parse(jsonPayload);
+
+      return {
+        user_role: payload.user_role || null,
+        department_id: payload.department_id || null,
+        project_id: payload.project_id || null
+      };
+    } catch (error) {
+      console.error('Error decoding JWT:', error);
+      return null;
+    }
+  }
+
+  // Resolve the admin role for a signed-in user. The admins table is the source of
+  // truth when the user has a row (it can be changed without waiting for a token
+  // refresh); the `user_role` JWT claim is used only when the lookup succeeds without
+  // a row. Returns null for non-admins; deactivated admins resolve with is_active false
+  // so login can say why it failed. Throws when the lookup fails, since a deactivated
+  // admin's claim stays valid until the token expires.
+  private async resolveAdminRole(userId: string, accessToken: string): Promise<AdminRoleResolution | null> {
+    const customClaims = this.decodeJWTCustomClaims(accessToken);
+
+    const { data: adminRow, error } = await supabase
+      .from(ADMINS_TABLE)
+      .select('role, is_active, last_login_at')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching admin role:', error);
+      throw new Error('Could not verify admin access. Please try again.');
+    }
+
+    const role = adminRow ? adminRow.role : customClaims?.user_role;
+    if (!isAdminRole(role)) {
+      return null;
+    }
+
+    return {
+      role,
+      is_active: adminRow ? adminRow.is_active : true,
+      department_id: customClaims?.department_id || null,
+      project_id: customClaims?.project_id || null,
+      last_login_at: adminRow?.last_login_at || undefined
+    };
+  }
+
+  // Assurance level of the current session; an enrolled admin is at aal1 until they pass the TOTP challenge
+  private async getMfaStatus(): Promise<{ aal: AssuranceLevel; mfa_enrolled: boolean }> {
+    const { data, error } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+    if (error || !data) {
+      console.error('Error reading assurance level:', error);
+      return { aal: 'aal1', mfa_enrolled: false };
+    }
+    return {
+      aal: data.currentLevel === 'aal2' ? 'aal2' : 'aal1',
+      mfa_enrolled: data.nextLevel === 'aal2'
+    };
+  }
+
+  // Stamp last_login_at; failure here should not block access
+  private async recordLogin(): Promise<void> {
+    const { error } = await supabase.rpc('record_admin_login');
+    if (error) {
+      console.error('Error recording admin login:', error);
+    }
+  }
+
   // Admin login with email and password
   async login(credentials: LoginCredentials): Promise<LoginResponse> {
     try {
@@ -61,38 +141,46 @@ class AuthService {
         };
       }
 
-      // Decode JWT to get custom claims
-      // const customClaims = this.decodeJWTCustomClaims(session.access_token);
-      
-      // if (!customClaims) {
-      //   await supabase.auth.signOut();
-      //   return {
-      //     user: null,
-      //     session: null,
-      //     error: 'Invalid access token.'
-      //   };
-      // }
-      
-      // const { user_role: userRole, department_id: departmentId, project_id: projectId } = customClaims;
-      
-      // if (!userRole || (userRole !== 'admin' && userRole !== 'super_admin')) {
-      //   // Sign out the user if they don't have admin role
-      //   await supabase.auth.signOut();
-      //   return {
-      //     user: null,
-      //     session: null,
-      //     error: 'Admin access only. Unauthorized user.'
-      //   };
-      // }
-
-      // Create AdminUser object from auth user and custom claims
+      let adminRole: AdminRoleResolution | null;
+      try {
+        adminRole = await this.resolveAdminRole(user.id, session.access_token);
+      } catch (roleError) {
+        await supabase.auth.signOut();
+        return {
+          user: null,
+          session: null,
+          error: roleError instanceof Error ? roleError.message : 'Could not verify admin access.'
+        };
+      }
+
+      if (!adminRole || !adminRole.is_active) {
+        // Sign out the user if they don't have admin role
+        await supabase.auth.signOut();
+        return {
+          user: null,
+          session: null,
+          error: adminRole
+            ? 'Admin access only. This account has been deactivated.'
+            : 'Admin access only. Unauthorized user.'
+        };
+      }
+
+      const mfaStatus = await this.getMfaStatus();
+      const mfaRequired = mfaStatus.mfa_enrolled && mfaStatus.aal !== 'aal2';
+
+      // An enrolled admin has not logged in until the TOTP challenge passes (verifyMfa)
+      if (!mfaRequired) {
+        await this.recordLogin();
+      }
+
+      // Create AdminUser object from auth user and resolved role
       const adminUser: AdminUser = {
         id: user.id,
         email: user.email!,
         name: user.user_metadata?.name || user.email!,
-        role: 'admin' as 'admin' | 'super_admin',
-        is_active: true,
-        last_login_at: new Date().toISOString(),
+        ...adminRole,
+        ...mfaStatus,
+        last_login_at: mfaRequired ? adminRole.last_login_at : new Date().toISOString(),
         created_at: user.created_at,
         updated_at: user.updated_at || user.created_at
       };
@@ -100,7 +188,8 @@ class AuthService {
       return {
         user: adminUser,
         session: authData.session,
-        error: undefined
+        error: undefined,
+        mfaRequired
       };
     } catch (error) {
       console.error('Login error:', error);
@@ -131,27 +220,20 @@ class AuthService {
         return null;
       }
 
-      // Decode JWT to get custom claims
-      // const customClaims = this.decodeJWTCustomClaims(session.access_token);
-      
-      // if (!customClaims) {
-      //   return null;
-      // }
-      
-      // const { user_role: userRole, department_id: departmentId, project_id: projectId } = customClaims;
-      
-      // if (!userRole || (userRole !== 'admin' && userRole !== 'super_admin')) {
-      //   return null;
-      // }
+      const adminRole = await this.resolveAdminRole(user.id, session.access_token);
+
+      if (!adminRole || !adminRole.is_active) {
+        return null;
+      }
 
-      // Create AdminUser object from auth user and custom claims
+      // Create AdminUser object from auth user and resolved role
       const adminUser: AdminUser = {
         id: user.id,
         email: user.email!,
         name: user.user_metadata?.name || user.email!,
-        role: 'admin' as 'admin' | 'super_admin',
-        is_active: true,
-        last_login_at: user.last_sign_in_at || user.created_at,
+        ...adminRole,
+        ...(await this.getMfaStatus()),
+        last_login_at: adminRole.last_login_at || user.last_sign_in_at || user.created_at,
         created_at: user.created_at,
         updated_at: user.updated_at || user.created_at
       };
@@ -166,7 +248,7 @@ class AuthService {
   // Reset password
   async resetPassword(data: ResetPasswordData): Promise<PasswordResetResponse> {
     try {
-      // Send password reset email directly - user validation will happen through custom claims
+      // Send password reset email directly - admin role is checked when the user signs in
       const { error } = await supabase.auth.resetPasswordForEmail(data.email, {
         redirectTo: `${window.location.origin}/admin/reset-password`,
       });
@@ -193,6 +275,130 @@ class AuthService {
     }
   }
 
+  // Check that the current page was opened from a valid password recovery link
+  async verifyRecoverySession(): Promise<RecoverySessionStatus> {
+    const redirectError = recoveryRedirectParams.get('error_description');
+    if (redirectError) {
+      return { valid: false, error: redirectError.replace(/\+/g, ' ') };
+    }
+
+    try {
+      // getSession waits for supabase-js to finish consuming the recovery link
+      const { data: { session }, error } = await supabase.auth.getSession();
+
+      if (error || !session || !passwordRecoveryPending) {
+        return { valid: false, error: 'This reset link is invalid or has expired. Please request a new one.' };
+      }
+
+      return { valid: true, email: session.user.email };
+    } catch (error) {
+      console.error('Verify recovery session error:', error);
+      return { valid: false, error: 'Unable to verify the reset link. Please request a new one.' };
+    }
+  }
+
+  // Set a new password using the recovery session
+  async updatePassword(data: UpdatePasswordData): Promise<PasswordResetResponse> {
+    if (!passwordRecoveryPending) {
+      return {
+        success: false,
+        message: 'Password reset session has expired',
+        error: 'Please request a new reset link.'
+      };
+    }
+
+    try {
+      const { error } = await supabase.auth.updateUser({ password: data.password });
+
+      if (error) {
+        return {
+          success: false,
+          message: 'Failed to update password',
+          error: error.message
+        };
+      }
+
+      passwordRecoveryPending = false;
+      return {
+        success: true,
+        message: 'Your password has been updated. Please sign in with your new password.'
+      };
+    } catch (error) {
+      console.error('Update password error:', error);
+      return {
+        success: false,
+        message: 'An unexpected error occurred',
+        error: 'Unexpected error'
+      };
+    }
+  }
+
+  // Second login step: verify a code from the enrolled authenticator to reach aal2
+  async verifyMfa(code: string): Promise<MfaResponse> {
+    try {
+      const { data: factors, error: factorsError } = await supabase.auth.mfa.listFactors();
+      const factor = factors?.totp[0];
+
+      if (factorsError || !factor) {
+        return { success: false, error: 'No authenticator is enrolled for this account.' };
+      }
+
+      const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId: factor.id, code });
+      if (error) {
+        return { success: false, error: 'Invalid or expired code. Please try again.' };
+      }
+
+      await this.recordLogin();
+      return { success: true };
+    } catch (error) {
+      console.error('Verify MFA error:', error);
+      return { success: false, error: 'An unexpected error occurred' };
+    }
+  }
+
+  async listMfaFactors(): Promise<MfaFactor[]> {
+    const { data, error } = await supabase.auth.mfa.listFactors();
+    if (error) throw new Error(error.message);
+    return data.totp.map(({ id, friendly_name, status, created_at }) => ({ id, friendly_name, status, created_at }));
+  }
+
+  // Start TOTP enrollment; the factor stays unverified until confirmTotpEnrollment succeeds
+  async enrollTotp(): Promise<TotpEnrollment> {
+    // Clear out abandoned enrollments so the friendly name stays unique
+    const { data: existing } = await supabase.auth.mfa.listFactors();
+    const unverified = existing?.all.filter(factor => factor.factor_type === 'totp' && factor.status === 'unverified') || [];
+    await Promise.all(unverified.map(factor => supabase.auth.mfa.unenroll({ factorId: factor.id })));
+
+    const { data, error } = await supabase.auth.mfa.enroll({
+      factorType: 'totp',
+      friendlyName: `Authenticator ${new Date().toISOString().slice(0, 10)}`
+    });
+    if (error) throw new Error(error.message);
+
+    const qrCode = data.totp.qr_code.startsWith('data:')
+      ? data.totp.qr_code
+      : `data:image/svg+xml;utf-8,${encodeURIComponent(data.totp.qr_code)}`;
+
+    return { factorId: data.id, qrCode, secret: data.totp.secret };
+  }
+
+  async confirmTotpEnrollment(factorId: string, code: string): Promise<MfaResponse> {
+    const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code });
+    if (error) {
+      return { success: false, error: 'Invalid code. Check the time on your device and try again.' };
+    }
+    return { success: true };
+  }
+
+  async removeMfaFactor(factorId: string): Promise<MfaResponse> {
+    const { error } = await supabase.auth.mfa.unenroll({ factorId });
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    // Drop back to the new assurance level right away
+    await supabase.auth.refreshSession();
+    return { success: true };
+  }
 }
 
 export default new AuthService();
\ No newline at end of file
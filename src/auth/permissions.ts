@@ -0,0 +1,79 @@
+import type { AdminRole } from './auth';
+
+// Actions and pages that can be gated per admin role
+export type Capability =
+  | 'organization:create'
+  | 'organization:edit'
+  | 'organization:archive'
+  | 'organization:export'
+  | 'device:create'
+  | 'device:edit'
+  | 'device:archive'
+  | 'device:export'
+  | 'user:invite'
+  | 'user:edit'
+  | 'user:remove'
+  | 'engineer:create'
+  | 'engineer:edit'
+  | 'engineer:delete'
+  | 'service_request:create'
+  | 'service_request:edit'
+  | 'service_request:assign'
+  | 'service_request:export'
+  | 'device_test:import'
+  | 'device_test:review'
+  | 'device_test:certify'
+  | 'audit:view'
+  | 'admin:manage'
+  | 'settings:manage';
+
+const ALL_CAPABILITIES: Capability[] = [
+  'organization:create',
+  'organization:edit',
+  'organization:archive',
+  'organization:export',
+  'device:create',
+  'device:edit',
+  'device:archive',
+  'device:export',
+  'user:invite',
+  'user:edit',
+  'user:remove',
+  'engineer:create',
+  'engineer:edit',
+  'engineer:delete',
+  'service_request:create',
+  'service_request:edit',
+  'service_request:assign',
+  'service_request:export',
+  'device_test:import',
+  'device_test:review',
+  'device_test:certify',
+  'audit:view',
+  'admin:manage',
+  'settings:manage'
+];
+
+// Support handles day-to-day service work but cannot archive, delete or remove anything
+const SUPPORT_CAPABILITIES: Capability[] = [
+  'organization:export',
+  'device:export',
+  'service_request:create',
+  'service_request:edit',
+  'service_request:assign',
+  'service_request:export',
+  'device_test:import',
+  'device_test:review',
+  'device_test:certify'
+];
+
+export const ROLE_CAPABILITIES: Record<AdminRole, Capability[]> = {
+  super_admin: ALL_CAPABILITIES,
+  // Managing admin accounts and settings is reserved for super admins
+  admin: ALL_CAPABILITIES.filter(capability => capability !== 'admin:manage' && capability !== 'settings:manage'),
+  support: SUPPORT_CAPABILITIES,
+  read_only: []
+};
+
+export const hasCapability = (role: AdminRole | null | undefined, capability: Capability) =>
+  !!role && ROLE_CAPABILITIES[role].includes(capability);
@@ -0,0 +1,11 @@
+import { useCallback } from 'react';
+import { useAuth } from './useAuth';
+import { hasCapability, type Capability } from './permissions';
+
+// Returns a checker for the logged-in admin, e.g. `const can = useCan(); can('device:archive')`
+export function useCan() {
+  const { user } = useAuth();
+  const role = user?.role;
+
+  return useCallback((capability: Capability) => hasCapability(role, capability), [role]);
+}
@@ -41,27 +41,27 @@ export function useDashboardData() {
   };
 }
 
-export function useDashboardStats() {
+export function useDashboardStats(inactiveDeviceDays?: number) {
   const [stats, setStats] = useState<DashboardStats | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  const fetchStats = async () => {
+  const fetchStats = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
-      const dashboardStats = await dashboardService.getDashboardStats();
+      const dashboardStats = await dashboardService.getDashboardStats(inactiveDeviceDays);
       setStats(dashboardStats);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
       setLoading(false);
     }
-  };
+  }, [inactiveDeviceDays]);
 
   useEffect(() => {
     fetchStats();
-  }, []);
+  }, [fetchStats]);
 
   return {
     stats,
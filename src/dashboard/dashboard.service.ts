@@ -8,9 +8,14 @@ import type {
   PaginationParams,
   PaginatedDeviceResponse,
   PaginatedOrganizationResponse,
-  DeviceListFilters
+  DeviceListFilters,
+  TestPassRatePoint
 } from './dashboard.type';
+import { DEFAULT_INACTIVE_DEVICE_DAYS, PASS_RATE_TREND_WEEKS } from './dashboard.type';
 import type { Device } from '../device/device.type';
+import { slaService } from '../sla/sla.service';
+import type { ServiceRequestStatus } from '../service-request/service_request.type';
+import { OPEN_SERVICE_STATUSES, SERVICE_STATUSES } from '../service-request/service_request.type';
 
 /**
  * Dashboard Service - Optimized for Scale
@@ -153,8 +158,114 @@ export const dashboardService = {
     };
   },
 
+  // One count per status; PostgREST has no group-by without an RPC
+  async getServiceRequestStatusCounts(): Promise<Record<ServiceRequestStatus, number>> {
+    const results = await Promise.all(
+      SERVICE_STATUSES.map(({ value }) =>
+        supabase
+          .from('service_requests')
+          .select('*', { count: 'exact', head: true })
+          .eq('status', value)
+      )
+    );
+
+    const counts = {} as Record<ServiceRequestStatus, number>;
+    SERVICE_STATUSES.forEach(({ value }, index) => {
+      if (results[index].error) throw results[index].error;
+      counts[value] = results[index].count || 0;
+    });
+    return counts;
+  },
+
+  // Device test statistics: recent uploads, review outcomes and devices that went quiet
+  async getDeviceTestStats(inactiveDeviceDays: number) {
+    const dayMs = 24 * 60 * 60 * 1000;
+    const thirtyDaysAgo = new Date(Date.now() - 30 * dayMs).toISOString();
+    const inactiveSince = new Date(Date.now() - inactiveDeviceDays * dayMs).toISOString();
+
+    const weeks = Array.from({ length: PASS_RATE_TREND_WEEKS }, (_, index) => {
+      const start = new Date(Date.now() - (PASS_RATE_TREND_WEEKS - index) * 7 * dayMs);
+      const end = new Date(start.getTime() + 7 * dayMs);
+      return { start: start.toISOString(), end: end.toISOString() };
+    });
+
+    const countByStatusInWeek = (status: string, week: { start: string; end: string }) =>
+      supabase
+        .from('device_test')
+        .select('*', { count: 'exact', head: true })
+        .eq('test_status', status)
+        .gte('test_date', week.start)
+        .lt('test_date', week.end);
+
+    const [
+      recentBatchesResult,
+      failedBatchesResult,
+      incompleteBatchesResult,
+      inactiveDevicesResult,
+      passedByWeek,
+      failedByWeek
+    ] = await Promise.all([
+      // Count batches uploaded in the last 30 days
+      supabase
+        .from('device_test')
+        .select('*', { count: 'exact', head: true })
+        .gte('test_date', thirtyDaysAgo),
+
+      // Count failed batches
+      supabase
+        .from('device_test')
+        .select('*', { count: 'exact', head: true })
+        .eq('test_status', 'failed'),
+
+      // Count incomplete batches
+      supabase
+        .from('device_test')
+        .select('*', { count: 'exact', head: true })
+        .eq('test_status', 'incomplete'),
+
+      // Count active devices with no batch since the cutoff (anti-join on the embedded tests)
+      supabase
+        .from('devices')
+        .select('id, device_test(id)', { count: 'exact', head: true })
+        .eq('archived', false)
+        .gte('device_test.test_date', inactiveSince)
+        .is('device_test', null),
+
+      Promise.all(weeks.map(week => countByStatusInWeek('passed', week))),
+      Promise.all(weeks.map(week => countByStatusInWeek('failed', week)))
+    ]);
+
+    if (recentBatchesResult.error) throw recentBatchesResult.error;
+    if (failedBatchesResult.error) throw failedBatchesResult.error;
+    if (incompleteBatchesResult.error) throw incompleteBatchesResult.error;
+    if (inactiveDevicesResult.error) throw inactiveDevicesResult.error;
+
+    const testPassRateTrend: TestPassRatePoint[] = weeks.map((week, index) => {
+      if (passedByWeek[index].error) throw passedByWeek[index].error;
+      if (failedByWeek[index].error) throw failedByWeek[index].error;
+
+      const passed = passedByWeek[index].count || 0;
+      const failed = failedByWeek[index].count || 0;
+      return {
+        weekStart: week.start.split('T')[0],
+        passed,
+        failed,
+        passRate: passed + failed > 0 ? Math.round((passed / (passed + failed)) * 1000) / 10 : null
+      };
+    });
+
+    return {
+      recentTestBatches: recentBatchesResult.count || 0,
+      failedTestBatches: failedBatchesResult.count || 0,
+      incompleteTestBatches: incompleteBatchesResult.count || 0,
+      testPassRateTrend,
+      inactiveDevices: inactiveDevicesResult.count || 0,
+      inactiveDeviceDays
+    };
+  },
+
   // Calculate dashboard statistics using optimized SQL queries
-  async getDashboardStats(): Promise<DashboardStats> {
+  async getDashboardStats(inactiveDeviceDays: number = DEFAULT_INACTIVE_DEVICE_DAYS): Promise<DashboardStats> {
     const now = new Date().toISOString().split('T')[0]; // YYYY-MM-DD format
     const sevenDaysFromNow = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
     const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
@@ -169,14 +280,14 @@ export const dashboardService = {
       devicesExpiredResult,
       // Service Request Statistics
       totalServiceRequestsResult,
-      pendingServiceRequestsResult,
-      completedServiceRequestsResult,
-      cancelledServiceRequestsResult,
+      serviceRequestsByStatus,
       demoInstallationResult,
       repairResult,
       serviceResult,
       calibrationResult,
-      recentServiceRequestsResult
+      recentServiceRequestsResult,
+      slaCounts,
+      testStats
     ] = await Promise.all([
       // Count total organizations (non-archived)
       supabase
@@ -223,23 +334,8 @@ export const dashboardService = {
         .from('service_requests')
         .select('*', { count: 'exact', head: true }),
       
-      // Count pending service requests
-      supabase
-        .from('service_requests')
-        .select('*', { count: 'exact', head: true })
-        .eq('status', 'pending'),
-      
-      // Count completed service requests
-      supabase
-        .from('service_requests')
-        .select('*', { count: 'exact', head: true })
-        .eq('status', 'completed'),
-      
-      // Count cancelled service requests
-      supabase
-        .from('service_requests')
-        .select('*', { count: 'exact', head: true })
-        .eq('status', 'cancelled'),
+      // Count service requests per lifecycle status
+      this.getServiceRequestStatusCounts(),
       
       // Count demo installation requests
       supabase
@@ -269,7 +365,13 @@ export const dashboardService = {
       supabase
         .from('service_requests')
         .select('*', { count: 'exact', head: true })
-        .gte('date_of_request', thirtyDaysAgo)
+        .gte('date_of_request', thirtyDaysAgo),
+
+      // Count open requests breaching or close to breaching their SLA
+      slaService.getCounts(),
+
+      // Device Test Statistics
+      this.getDeviceTestStats(inactiveDeviceDays)
     ]);
 
     // Handle potential errors
@@ -280,9 +382,6 @@ export const dashboardService = {
     if (devicesExpiringResult.error) throw devicesExpiringResult.error;
     if (devicesExpiredResult.error) throw devicesExpiredResult.error;
     if (totalServiceRequestsResult.error) throw totalServiceRequestsResult.error;
-    if (pendingServiceRequestsResult.error) throw pendingServiceRequestsResult.error;
-    if (completedServiceRequestsResult.error) throw completedServiceRequestsResult.error;
-    if (cancelledServiceRequestsResult.error) throw cancelledServiceRequestsResult.error;
     if (demoInstallationResult.error) throw demoInstallationResult.error;
     if (repairResult.error) throw repairResult.error;
     if (serviceResult.error) throw serviceResult.error;
@@ -298,9 +397,7 @@ export const dashboardService = {
 
     // Service Request Statistics
     const totalServiceRequests = totalServiceRequestsResult.count || 0;
-    const pendingServiceRequests = pendingServiceRequestsResult.count || 0;
-    const completedServiceRequests = completedServiceRequestsResult.count || 0;
-    const cancelledServiceRequests = cancelledServiceRequestsResult.count || 0;
+    const openServiceRequests = OPEN_SERVICE_STATUSES.reduce((sum, status) => sum + serviceRequestsByStatus[status], 0);
     const demoInstallationCount = demoInstallationResult.count || 0;
     const repairCount = repairResult.count || 0;
     const serviceCount = serviceResult.count || 0;
@@ -324,9 +421,14 @@ export const dashboardService = {
       devicesExpired,
       // Service Request Statistics
       totalServiceRequests,
-      pendingServiceRequests,
-      completedServiceRequests,
-      cancelledServiceRequests,
+      pendingServiceRequests: serviceRequestsByStatus.pending,
+      completedServiceRequests: serviceRequestsByStatus.completed,
+      cancelledServiceRequests: serviceRequestsByStatus.cancelled,
+      onHoldServiceRequests: serviceRequestsByStatus.on_hold,
+      openServiceRequests,
+      serviceRequestsByStatus,
+      slaBreachedServiceRequests: slaCounts.breached,
+      slaAtRiskServiceRequests: slaCounts.atRisk,
       serviceRequestsByType: {
         demo_installation: demoInstallationCount,
         repair: repairCount,
@@ -334,7 +436,9 @@ export const dashboardService = {
         calibration: calibrationCount
       },
       averageServiceRequestsPerMonth,
-      recentServiceRequests
+      recentServiceRequests,
+      // Device Test Statistics
+      ...testStats
     };
   },
 
@@ -1,5 +1,6 @@
 import type { Device } from '../device/device.type';
 import type { Organization } from '../organization/organization.type';
+import type { ServiceRequestStatus } from '../service-request/service_request.type';
 
 export interface DashboardStats {
   totalOrganizations: number;
@@ -14,6 +15,11 @@ export interface DashboardStats {
   pendingServiceRequests: number;
   completedServiceRequests: number;
   cancelledServiceRequests: number;
+  onHoldServiceRequests: number;
+  openServiceRequests: number; // Any status other than completed/cancelled
+  serviceRequestsByStatus: Record<ServiceRequestStatus, number>;
+  slaBreachedServiceRequests: number; // Open requests past a response or resolution target
+  slaAtRiskServiceRequests: number; // Open requests with under SLA_AT_RISK_RATIO of a window left
   serviceRequestsByType: {
     demo_installation: number;
     repair: number;
@@ -22,8 +28,25 @@ export interface DashboardStats {
   };
   averageServiceRequestsPerMonth: number;
   recentServiceRequests: number; // Last 30 days
+  // Device Test Statistics
+  recentTestBatches: number; // Last 30 days
+  failedTestBatches: number;
+  incompleteTestBatches: number;
+  testPassRateTrend: TestPassRatePoint[]; // Weekly, oldest first
+  inactiveDevices: number; // No batch uploaded in inactiveDeviceDays
+  inactiveDeviceDays: number;
 }
 
+export interface TestPassRatePoint {
+  weekStart: string; // YYYY-MM-DD
+  passed: number;
+  failed: number;
+  passRate: number | null; // Percentage of reviewed batches that passed, null when none
+}
+
+export const DEFAULT_INACTIVE_DEVICE_DAYS = 14;
+export const PASS_RATE_TREND_WEEKS = 8;
+
 export interface DeviceWithOrganization extends Device {
   organization: Organization;
 }
@@ -17,7 +17,8 @@ import {
   Button,
   Textarea,
   Divider,
-  Code
+  Code,
+  Select
 } from '@mantine/core';
 import { useDisclosure, useClipboard } from '@mantine/hooks';
 import React, { useState } from 'react';
@@ -37,8 +38,24 @@ import {
   IconPhone,
   IconMail,
   IconCopy,
-  IconExternalLink
+  IconExternalLink,
+  IconTestPipe,
+  IconCircleX,
+  IconProgressAlert,
+  IconDeviceDesktopOff,
+  IconPlayerPause,
+  IconAlarm,
+  IconHourglassHigh
 } from '@tabler/icons-react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip as ChartTooltip,
+  ResponsiveContainer
+} from 'recharts';
 import type { 
   DashboardStats, 
   DeviceWithOrganization, 
@@ -47,6 +64,7 @@ import type {
   PaginatedOrganizationResponse,
   DeviceListFilters
 } from './dashboard.type';
+import { SERVICE_STATUSES, SERVICE_STATUS_COLORS } from '../service-request/service_request.type';
 
 // Email templates for AMC notifications
 const getEmailTemplate = (device: DeviceWithOrganization, isExpired: boolean) => {
@@ -401,9 +419,18 @@ interface DashboardStatsGridProps {
   stats: DashboardStats;
   loading: boolean;
   onRefresh: () => void;
+  onInactiveDeviceDaysChange?: (days: number) => void;
 }
 
-export function DashboardStatsGrid({ stats, loading, onRefresh }: DashboardStatsGridProps) {
+const INACTIVE_DAY_OPTIONS = [
+  { value: '7', label: '7 days' },
+  { value: '14', label: '14 days' },
+  { value: '30', label: '30 days' },
+  { value: '60', label: '60 days' },
+  { value: '90', label: '90 days' }
+];
+
+export function DashboardStatsGrid({ stats, loading, onRefresh, onInactiveDeviceDaysChange }: DashboardStatsGridProps) {
   if (loading) {
     return (
       <Card withBorder p="xl" radius="md">
@@ -457,7 +484,7 @@ export function DashboardStatsGrid({ stats, loading, onRefresh }: DashboardStats
 
       {/* Service Request Statistics */}
       <Text size="lg" fw={600} mt="xl" mb="md">Service Request Analytics</Text>
-      <SimpleGrid cols={{ base: 1, sm: 2, lg: 4 }} spacing="lg">
+      <SimpleGrid cols={{ base: 1, sm: 2, lg: 5 }} spacing="lg">
         <StatsCard
           title="Total Service Requests"
           value={stats.totalServiceRequests}
@@ -466,12 +493,19 @@ export function DashboardStatsGrid({ stats, loading, onRefresh }: DashboardStats
         />
 
         <StatsCard
-          title="Pending Requests"
-          value={stats.pendingServiceRequests}
+          title="Open Requests"
+          value={stats.openServiceRequests}
           icon={<IconClock size={28} />}
           color="orange"
         />
 
+        <StatsCard
+          title="On Hold"
+          value={stats.onHoldServiceRequests}
+          icon={<IconPlayerPause size={28} />}
+          color="grape"
+        />
+
         <StatsCard
           title="Completed Requests"
           value={stats.completedServiceRequests}
@@ -486,6 +520,109 @@ export function DashboardStatsGrid({ stats, loading, onRefresh }: DashboardStats
           color="cyan"
         />
       </SimpleGrid>
+      <Group gap="xs" mt="md">
+        {SERVICE_STATUSES.map(status => (
+          <Badge key={status.value} color={SERVICE_STATUS_COLORS[status.value]} variant="light" size="lg">
+            {status.label}: {stats.serviceRequestsByStatus[status.value]}
+          </Badge>
+        ))}
+      </Group>
+      <SimpleGrid cols={{ base: 1, sm: 2 }} spacing="lg" mt="md">
+        <StatsCard
+          title="SLA Breached"
+          value={stats.slaBreachedServiceRequests}
+          icon={<IconAlarm size={28} />}
+          color="red"
+        />
+
+        <StatsCard
+          title="SLA At Risk"
+          value={stats.slaAtRiskServiceRequests}
+          icon={<IconHourglassHigh size={28} />}
+          color="yellow"
+        />
+      </SimpleGrid>
+
+      {/* Device Test Statistics */}
+      <Group justify="space-between" mt="xl" mb="md">
+        <Text size="lg" fw={600}>Device Test Analytics</Text>
+        {onInactiveDeviceDaysChange && (
+          <Select
+            size="xs"
+            label="Inactive after"
+            data={INACTIVE_DAY_OPTIONS}
+            value={stats.inactiveDeviceDays.toString()}
+            onChange={(value) => value && onInactiveDeviceDaysChange(parseInt(value))}
+            allowDeselect={false}
+            w={120}
+          />
+        )}
+      </Group>
+      <SimpleGrid cols={{ base: 1, sm: 2, lg: 4 }} spacing="lg">
+        <StatsCard
+          title="Test Batches (30 days)"
+          value={stats.recentTestBatches}
+          icon={<IconTestPipe size={28} />}
+          color="cyan"
+        />
+
+        <StatsCard
+          title="Failed Batches"
+          value={stats.failedTestBatches}
+          icon={<IconCircleX size={28} />}
+          color="red"
+        />
+
+        <StatsCard
+          title="Incomplete Batches"
+          value={stats.incompleteTestBatches}
+          icon={<IconProgressAlert size={28} />}
+          color="orange"
+        />
+
+        <StatsCard
+          title={`No Uploads in ${stats.inactiveDeviceDays} Days`}
+          value={stats.inactiveDevices}
+          icon={<IconDeviceDesktopOff size={28} />}
+          color="purple"
+        />
+      </SimpleGrid>
+
+      <Card withBorder radius="lg" mt="lg" p="md">
+        <Text fw={500} mb="sm">Weekly Pass Rate</Text>
+        {stats.testPassRateTrend.some(point => point.passRate !== null) ? (
+          <ResponsiveContainer width="100%" height={220}>
+            <LineChart data={stats.testPassRateTrend} margin={{ top: 5, right: 20, left: -10, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                dataKey="weekStart"
+                fontSize={11}
+                tickFormatter={(value: string) => new Date(value).toLocaleDateString(undefined, { day: '2-digit', month: 'short' })}
+              />
+              <YAxis domain={[0, 100]} fontSize={11} unit="%" />
+              <ChartTooltip
+                labelFormatter={(value) => `Week of ${new Date(String(value)).toLocaleDateString()}`}
+                formatter={(value, _name, item) => [
+                  value === null ? 'No reviewed batches' : `${value}% (${item.payload.passed} passed / ${item.payload.failed} failed)`,
+                  'Pass rate'
+                ]}
+              />
+              <Line
+                type="monotone"
+                dataKey="passRate"
+                stroke="var(--mantine-color-green-6)"
+                strokeWidth={2}
+                connectNulls
+                isAnimationActive={false}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        ) : (
+          <Text size="sm" c="dimmed" ta="center" py="md">
+            No passed or failed batches in the last {stats.testPassRateTrend.length} weeks
+          </Text>
+        )}
+      </Card>
       </Card>
       
 </Stack>
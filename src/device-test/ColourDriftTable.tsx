@@ -0,0 +1,190 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Stack,
+  Group,
+  Text,
+  Table,
+  Badge,
+  Button,
+  NumberInput,
+  ColorSwatch,
+  Modal,
+  Loader,
+  Alert
+} from '@mantine/core';
+import { useDisclosure } from '@mantine/hooks';
+import { IconRefresh, IconAdjustments } from '@tabler/icons-react';
+import { ServiceRequestForm } from '../service-request/ServiceRequestForm';
+import { useCan } from '../auth/useCan';
+import type { DeviceColourDrift } from './device_test.type';
+import { toRgb } from './device_test.format';
+
+interface ColourDriftTableProps {
+  drifts: DeviceColourDrift[];
+  loading: boolean;
+  error: string | null;
+  threshold: number;
+  onThresholdChange: (threshold: number) => void;
+  onRefresh: () => void;
+}
+
+const formatDelta = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(1)}`;
+
+export const ColourDriftTable: React.FC<ColourDriftTableProps> = ({
+  drifts,
+  loading,
+  error,
+  threshold,
+  onThresholdChange,
+  onRefresh
+}) => {
+  const [selectedDrift, setSelectedDrift] = useState<DeviceColourDrift | null>(null);
+  const [formOpened, { open: openForm, close: closeForm }] = useDisclosure(false);
+  const can = useCan();
+
+  // Keep the prefill object stable so the form isn't re-initialised on every render
+  const calibrationDefaults = useMemo(() => {
+    if (!selectedDrift) return undefined;
+    return {
+      service_type: 'calibration' as const,
+      organization_id: selectedDrift.company_id,
+      device_id: selectedDrift.device_id,
+      service_details: `Colour drift of ${selectedDrift.deviation.toFixed(1)} detected between baseline batch "${selectedDrift.baseline.folder_name}" and latest batch "${selectedDrift.latest.folder_name}" (R ${formatDelta(selectedDrift.delta[0])}, G ${formatDelta(selectedDrift.delta[1])}, B ${formatDelta(selectedDrift.delta[2])}). Calibration required.`
+    };
+  }, [selectedDrift]);
+
+  const handleCreateCalibration = (drift: DeviceColourDrift) => {
+    setSelectedDrift(drift);
+    openForm();
+  };
+
+  const formatDate = (date: string | null) => (date ? new Date(date).toLocaleDateString() : '-');
+
+  return (
+    <Stack gap="md">
+      <Group justify="space-between" style={{ flexWrap: 'wrap', gap: 'md' }}>
+        <div>
+          <Text fw={600} size="lg">Devices with Colour Drift</Text>
+          <Text size="sm" c="dimmed">
+            Latest test batch compared against each device's first (baseline) batch
+          </Text>
+        </div>
+        <Group gap="sm">
+          <NumberInput
+            leftSection={<IconAdjustments size={16} />}
+            placeholder="Threshold"
+            value={threshold}
+            onChange={(value) => onThresholdChange(typeof value === 'number' ? value : Number(value) || 0)}
+            min={0}
+            max={255}
+            step={1}
+            w={140}
+            aria-label="Drift threshold"
+          />
+          <Button
+            leftSection={<IconRefresh size={16} />}
+            variant="subtle"
+            onClick={onRefresh}
+            loading={loading}
+          >
+            Refresh
+          </Button>
+        </Group>
+      </Group>
+
+      {error && <Alert color="red" title="Error">{error}</Alert>}
+
+      <div style={{ overflowX: 'auto' }}>
+        <Table striped highlightOnHover style={{ minWidth: '900px' }}>
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>Device</Table.Th>
+              <Table.Th>Organization</Table.Th>
+              <Table.Th>Baseline</Table.Th>
+              <Table.Th>Latest</Table.Th>
+              <Table.Th>Δ R / G / B</Table.Th>
+              <Table.Th>Deviation</Table.Th>
+              <Table.Th>Actions</Table.Th>
+            </Table.Tr>
+          </Table.Thead>
+          <Table.Tbody>
+            {loading ? (
+              <Table.Tr>
+                <Table.Td colSpan={7} style={{ textAlign: 'center', padding: '2rem' }}>
+                  <Loader size="md" />
+                </Table.Td>
+              </Table.Tr>
+            ) : drifts.length === 0 ? (
+              <Table.Tr>
+                <Table.Td colSpan={7} style={{ textAlign: 'center', padding: '2rem', color: 'var(--mantine-color-dimmed)' }}>
+                  No devices have drifted beyond the threshold.
+                </Table.Td>
+              </Table.Tr>
+            ) : (
+              drifts.map((drift) => (
+                <Table.Tr key={drift.device_id}>
+                  <Table.Td>
+                    <Text fw={500}>{drift.device_name}</Text>
+                    {drift.serial_number && (
+                      <Text size="xs" c="dimmed">SN: {drift.serial_number}</Text>
+                    )}
+                  </Table.Td>
+                  <Table.Td>{drift.organization_name}</Table.Td>
+                  <Table.Td>
+                    <Group gap="xs" wrap="nowrap">
+                      <ColorSwatch color={toRgb(drift.baseline.mean)} size={18} />
+                      <Text size="sm">{formatDate(drift.baseline.test_date)}</Text>
+                    </Group>
+                  </Table.Td>
+                  <Table.Td>
+                    <Group gap="xs" wrap="nowrap">
+                      <ColorSwatch color={toRgb(drift.latest.mean)} size={18} />
+                      <div>
+                        <Text size="sm">{formatDate(drift.latest.test_date)}</Text>
+                        <Text size="xs" c="dimmed">{drift.batch_count} batches</Text>
+                      </div>
+                    </Group>
+                  </Table.Td>
+                  <Table.Td>
+                    <Text size="sm">{drift.delta.map(formatDelta).join(' / ')}</Text>
+                  </Table.Td>
+                  <Table.Td>
+                    <Badge color={drift.deviation > threshold * 2 ? 'red' : 'orange'} variant="light">
+                      {drift.deviation.toFixed(1)}
+                    </Badge>
+                  </Table.Td>
+                  <Table.Td>
+                    <Button
+                      size="xs"
+                      variant="light"
+                      onClick={() => handleCreateCalibration(drift)}
+                      disabled={!can('service_request:create')}
+                    >
+                      Create calibration request
+                    </Button>
+                  </Table.Td>
+                </Table.Tr>
+              ))
+            )}
+          </Table.Tbody>
+        </Table>
+      </div>
+
+      <Modal
+        opened={formOpened}
+        onClose={closeForm}
+        title="Create Calibration Request"
+        size="xl"
+      >
+        {selectedDrift && (
+          <ServiceRequestForm
+            key={selectedDrift.device_id}
+            defaultValues={calibrationDefaults}
+            onClose={closeForm}
+            onSuccess={closeForm}
+          />
+        )}
+      </Modal>
+    </Stack>
+  );
+};
@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import {
+  Stack,
+  Group,
+  Text,
+  Table,
+  Badge,
+  Button,
+  NumberInput,
+  ColorSwatch,
+  SimpleGrid,
+  Image,
+  Paper,
+  Alert,
+  ActionIcon,
+  Tooltip
+} from '@mantine/core';
+import { IconArrowsLeftRight, IconCheck, IconAlertTriangle } from '@tabler/icons-react';
+import { deviceTestService } from './device_test.service';
+import type { BatchSummary, DeviceTest } from './device_test.type';
+import { DEFAULT_COMPARISON_TOLERANCE, RGB_CHANNELS } from './device_test.type';
+import { toRgb } from './device_test.format';
+import { IMAGE_FALLBACK } from '../utils/image';
+
+interface DeviceTestComparisonProps {
+  deviceTests: [DeviceTest, DeviceTest];
+  onClose: () => void;
+}
+
+const MAX_THUMBNAILS = 6;
+
+const formatDelta = (value: number, digits = 2) => `${value > 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+// Earlier batch on the left so deltas read as "after - before"
+const sortByDate = ([a, b]: [DeviceTest, DeviceTest]): [DeviceTest, DeviceTest] => {
+  const dateA = new Date(a.test_date || a.created_at).getTime();
+  const dateB = new Date(b.test_date || b.created_at).getTime();
+  return dateA <= dateB ? [a, b] : [b, a];
+};
+
+const BatchColumn: React.FC<{ title: string; deviceTest: DeviceTest; summary: BatchSummary | null }> = ({
+  title,
+  deviceTest,
+  summary
+}) => (
+  <Paper withBorder p="sm">
+    <Stack gap="xs">
+      <Group justify="space-between" wrap="nowrap">
+        <div>
+          <Text size="xs" c="dimmed" tt="uppercase" fw={600}>{title}</Text>
+          <Text fw={600}>{deviceTest.folder_name}</Text>
+          <Text size="xs" c="dimmed">
+            {deviceTest.device?.device_name || 'Unknown device'}
+            {deviceTest.test_date && ` · ${new Date(deviceTest.test_date).toLocaleString()}`}
+          </Text>
+        </div>
+        {summary && (
+          <Tooltip label={`Batch mean ${toRgb(summary.mean)}`}>
+            <ColorSwatch color={toRgb(summary.mean)} size={32} />
+          </Tooltip>
+        )}
+      </Group>
+      {deviceTest.images.length > 0 ? (
+        <SimpleGrid cols={3} spacing={4}>
+          {deviceTest.images.slice(0, MAX_THUMBNAILS).map(url => (
+            <Image key={url} src={url} h={70} fit="cover" radius="sm" fallbackSrc={IMAGE_FALLBACK} />
+          ))}
+        </SimpleGrid>
+      ) : (
+        <Text size="xs" c="dimmed">No images</Text>
+      )}
+      {deviceTest.images.length > MAX_THUMBNAILS && (
+        <Text size="xs" c="dimmed">+{deviceTest.images.length - MAX_THUMBNAILS} more</Text>
+      )}
+    </Stack>
+  </Paper>
+);
+
+export const DeviceTestComparison: React.FC<DeviceTestComparisonProps> = ({ deviceTests, onClose }) => {
+  const [[before, after], setOrder] = useState(() => sortByDate(deviceTests));
+  const [tolerance, setTolerance] = useState<number>(DEFAULT_COMPARISON_TOLERANCE);
+
+  const comparison = deviceTestService.compareDeviceTests(before, after, tolerance);
+  const { before: beforeSummary, after: afterSummary, delta } = comparison;
+
+  const statRows: { label: string; key: 'mean' | 'variance' | 'standardDeviation' }[] = [
+    { label: 'Mean', key: 'mean' },
+    { label: 'Variance', key: 'variance' },
+    { label: 'Std Dev', key: 'standardDeviation' }
+  ];
+
+  return (
+    <Stack gap="md">
+      <Group align="stretch" wrap="nowrap" gap="xs">
+        <div style={{ flex: 1 }}>
+          <BatchColumn title="Before" deviceTest={before} summary={beforeSummary} />
+        </div>
+        <Tooltip label="Swap batches">
+          <ActionIcon variant="subtle" onClick={() => setOrder([after, before])} style={{ alignSelf: 'center' }}>
+            <IconArrowsLeftRight size={18} />
+          </ActionIcon>
+        </Tooltip>
+        <div style={{ flex: 1 }}>
+          <BatchColumn title="After" deviceTest={after} summary={afterSummary} />
+        </div>
+      </Group>
+
+      <Group justify="space-between" align="flex-end">
+        <NumberInput
+          label="Tolerance (per channel mean)"
+          value={tolerance}
+          onChange={(value) => setTolerance(typeof value === 'number' ? value : Number(value) || 0)}
+          min={0}
+          max={255}
+          step={0.5}
+          decimalScale={2}
+          w={220}
+        />
+        {comparison.distance !== null && (
+          <Text size="sm" c="dimmed">Colour distance: {comparison.distance.toFixed(2)}</Text>
+        )}
+      </Group>
+
+      {comparison.withinTolerance === null ? (
+        <Alert color="gray" icon={<IconAlertTriangle size={16} />}>
+          {!beforeSummary && !afterSummary
+            ? 'Neither batch has statistics to compare.'
+            : `The ${beforeSummary ? 'after' : 'before'} batch has no statistics to compare.`}
+        </Alert>
+      ) : comparison.withinTolerance ? (
+        <Alert color="green" icon={<IconCheck size={16} />} title="Within tolerance">
+          Every channel mean differs by at most {tolerance} between the two batches.
+        </Alert>
+      ) : (
+        <Alert color="red" icon={<IconAlertTriangle size={16} />} title="Outside tolerance">
+          At least one channel mean differs by more than {tolerance} between the two batches.
+        </Alert>
+      )}
+
+      {beforeSummary && afterSummary && delta && (
+        <div style={{ overflowX: 'auto' }}>
+          <Table striped style={{ minWidth: '640px' }}>
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>Channel</Table.Th>
+                <Table.Th>Statistic</Table.Th>
+                <Table.Th>Before</Table.Th>
+                <Table.Th>After</Table.Th>
+                <Table.Th>Δ</Table.Th>
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {RGB_CHANNELS.map(channel =>
+                statRows.map(({ label, key }, rowIndex) => {
+                  const channelDelta = delta[key][channel.index];
+                  const outOfTolerance = key === 'mean' && Math.abs(channelDelta) > tolerance;
+                  return (
+                    <Table.Tr key={`${channel.label}-${key}`}>
+                      {rowIndex === 0 && (
+                        <Table.Td rowSpan={statRows.length}>
+                          <Text fw={500} style={{ color: channel.color }}>{channel.label}</Text>
+                        </Table.Td>
+                      )}
+                      <Table.Td>{label}</Table.Td>
+                      <Table.Td>{beforeSummary[key][channel.index].toFixed(2)}</Table.Td>
+                      <Table.Td>{afterSummary[key][channel.index].toFixed(2)}</Table.Td>
+                      <Table.Td>
+                        {key === 'mean' ? (
+                          <Badge color={outOfTolerance ? 'red' : 'green'} variant="light">
+                            {formatDelta(channelDelta)}
+                          </Badge>
+                        ) : (
+                          <Text size="sm">{formatDelta(channelDelta)}</Text>
+                        )}
+                      </Table.Td>
+                    </Table.Tr>
+                  );
+                })
+              )}
+            </Table.Tbody>
+          </Table>
+        </div>
+      )}
+
+      <Group justify="flex-end">
+        <Button variant="outline" onClick={onClose}>
+          Close
+        </Button>
+      </Group>
+    </Stack>
+  );
+};
@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import {
+  Paper,
+  Title,
+  Group,
+  Button,
+  Select,
+  Table,
+  Badge,
+  Modal,
+  Stack,
+  Text,
+  Loader,
+  Alert,
+  Code
+} from '@mantine/core';
+import { useDisclosure } from '@mantine/hooks';
+import { IconRefresh } from '@tabler/icons-react';
+import { useDeviceTestDataQuality } from './device_test.hook';
+import type { DeviceTest } from './device_test.type';
+import { DeviceTestDetail } from './DeviceTestDetail';
+
+const SEVERITY_OPTIONS = [
+  { value: 'error', label: 'Errors' },
+  { value: 'warning', label: 'Warnings' }
+];
+
+export const DeviceTestDataQuality: React.FC = () => {
+  const { entries, loading, error, refresh } = useDeviceTestDataQuality();
+  const [severity, setSeverity] = useState<string | null>(null);
+  const [selectedTest, setSelectedTest] = useState<DeviceTest | null>(null);
+  const [detailOpened, { open: openDetail, close: closeDetail }] = useDisclosure(false);
+
+  const visibleEntries = entries
+    .map(entry => ({
+      ...entry,
+      issues: severity ? entry.issues.filter(issue => issue.severity === severity) : entry.issues
+    }))
+    .filter(entry => entry.issues.length > 0);
+
+  const issueCount = entries.reduce((total, entry) => total + entry.issues.length, 0);
+
+  const handleView = (deviceTest: DeviceTest) => {
+    setSelectedTest(deviceTest);
+    openDetail();
+  };
+
+  return (
+    <Stack gap="md">
+      <Paper p="md">
+        <Stack gap="md">
+          <Group justify="space-between" style={{ flexWrap: 'wrap', gap: 'md' }}>
+            <div>
+              <Title order={2}>Data Quality</Title>
+              <Text size="sm" c="dimmed">
+                Device test rows with malformed statistics, metadata or image lists
+              </Text>
+            </div>
+            <Group gap="sm">
+              <Select
+                placeholder="All issues"
+                data={SEVERITY_OPTIONS}
+                value={severity}
+                onChange={setSeverity}
+                clearable
+                w={150}
+              />
+              <Button
+                leftSection={<IconRefresh size={16} />}
+                variant="subtle"
+                onClick={refresh}
+                loading={loading}
+              >
+                Refresh
+              </Button>
+            </Group>
+          </Group>
+
+          {error && <Alert color="red" title="Error">{error}</Alert>}
+
+          {!loading && (
+            <Text size="sm" c="dimmed">
+              {issueCount} issues across {entries.length} test batches
+            </Text>
+          )}
+
+          <div style={{ overflowX: 'auto' }}>
+            <Table striped highlightOnHover style={{ minWidth: '800px' }}>
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th>Folder</Table.Th>
+                  <Table.Th>Device</Table.Th>
+                  <Table.Th>Uploaded</Table.Th>
+                  <Table.Th>Issues</Table.Th>
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {loading ? (
+                  <Table.Tr>
+                    <Table.Td colSpan={4} style={{ textAlign: 'center', padding: '2rem' }}>
+                      <Loader size="md" />
+                    </Table.Td>
+                  </Table.Tr>
+                ) : visibleEntries.length === 0 ? (
+                  <Table.Tr>
+                    <Table.Td colSpan={4} style={{ textAlign: 'center', padding: '2rem', color: 'var(--mantine-color-dimmed)' }}>
+                      No data quality issues found
+                    </Table.Td>
+                  </Table.Tr>
+                ) : (
+                  visibleEntries.map(({ deviceTest, issues }) => (
+                    <Table.Tr
+                      key={deviceTest.id}
+                      style={{ cursor: 'pointer', verticalAlign: 'top' }}
+                      onClick={() => handleView(deviceTest)}
+                    >
+                      <Table.Td>
+                        <Text fw={500}>{deviceTest.folder_name || '(no folder name)'}</Text>
+                        <Text size="xs" c="dimmed">{deviceTest.id}</Text>
+                      </Table.Td>
+                      <Table.Td>{deviceTest.device?.device_name || deviceTest.device_id || '-'}</Table.Td>
+                      <Table.Td>
+                        {deviceTest.created_at ? new Date(deviceTest.created_at).toLocaleString() : '-'}
+                      </Table.Td>
+                      <Table.Td>
+                        <Stack gap={4}>
+                          {issues.map((issue, index) => (
+                            <Group key={index} gap="xs" wrap="nowrap">
+                              <Badge size="xs" variant="light" color={issue.severity === 'error' ? 'red' : 'yellow'}>
+                                {issue.severity}
+                              </Badge>
+                              <Code>{issue.field}</Code>
+                              <Text size="xs">{issue.message}</Text>
+                            </Group>
+                          ))}
+                        </Stack>
+                      </Table.Td>
+                    </Table.Tr>
+                  ))
+                )}
+              </Table.Tbody>
+            </Table>
+          </div>
+        </Stack>
+      </Paper>
+
+      <Modal
+        opened={detailOpened}
+        onClose={closeDetail}
+        title="Test Batch Details"
+        size="xl"
+      >
+        {selectedTest && (
+          <DeviceTestDetail
+            deviceTest={selectedTest}
+            onClose={closeDetail}
+          />
+        )}
+      </Modal>
+    </Stack>
+  );
+};
@@ -0,0 +1,268 @@
+import React from 'react';
+import {
+  Stack,
+  Group,
+  Text,
+  Badge,
+  Button,
+  Card,
+  Grid,
+  Divider,
+  ThemeIcon,
+  Code,
+  Tooltip
+} from '@mantine/core';
+import {
+  IconDevices,
+  IconFolder,
+  IconCalendar,
+  IconNotes,
+  IconChartLine,
+  IconPhoto,
+  IconClipboardCheck,
+  IconCertificate
+} from '@tabler/icons-react';
+import { useAuth } from '../auth/useAuth';
+import { useCan } from '../auth/useCan';
+import { useDeviceTestCertificate } from './device_test.hook';
+import type { DeviceTest } from './device_test.type';
+import { CERTIFIABLE_STATUSES } from './device_test.type';
+import { DeviceTestStatsChart } from './DeviceTestStatsChart';
+import { DeviceTestGallery } from './DeviceTestGallery';
+import { DeviceTestReviewForm } from './DeviceTestReviewForm';
+
+interface DeviceTestDetailProps {
+  deviceTest: DeviceTest;
+  onClose: () => void;
+  onReviewed?: (deviceTest: DeviceTest) => void;
+}
+
+export const DeviceTestDetail: React.FC<DeviceTestDetailProps> = ({
+  deviceTest,
+  onClose,
+  onReviewed
+}) => {
+  const metadata = deviceTest.metadata;
+  const { user } = useAuth();
+  const can = useCan();
+  const { certificate, loading: certificateLoading, downloadCertificate } = useDeviceTestCertificate(deviceTest.id);
+  const certifiable = !!deviceTest.test_status && CERTIFIABLE_STATUSES.includes(deviceTest.test_status);
+
+  const handleCertificate = async () => {
+    if (!user) return;
+    try {
+      await downloadCertificate(deviceTest, { id: user.id, name: user.name });
+    } catch {
+      // Error notification is shown by the hook
+    }
+  };
+
+  const getTestStatusColor = (status: string | null) => {
+    switch (status) {
+      case 'passed': return 'green';
+      case 'failed': return 'red';
+      case 'incomplete': return 'orange';
+      case 'pending': return 'yellow';
+      default: return 'gray';
+    }
+  };
+
+  return (
+    <Stack>
+      <Card shadow="sm" padding="lg">
+        <Stack>
+          {/* Header Information */}
+          <Group justify="space-between">
+            <div>
+              <Text size="xl" fw={700}>{deviceTest.folder_name}</Text>
+              <Text c="dimmed">{deviceTest.upload_batch || 'No batch'}</Text>
+            </div>
+            <Badge
+              color={getTestStatusColor(deviceTest.test_status)}
+              size="lg"
+              variant="light"
+            >
+              {(deviceTest.test_status || 'unknown').toUpperCase()}
+            </Badge>
+          </Group>
+
+          <Divider />
+
+          <Grid>
+            <Grid.Col span={6}>
+              <Stack gap="xs">
+                <Group>
+                  <ThemeIcon variant="light" size="sm">
+                    <IconDevices size={14} />
+                  </ThemeIcon>
+                  <Text size="sm" fw={500}>Device</Text>
+                </Group>
+                <Group pl="md" gap="xs">
+                  <Text>{deviceTest.device?.device_name || metadata?.device_name || 'N/A'}</Text>
+                  {!deviceTest.device && (
+                    <Tooltip label="No device record matches this batch's device_id">
+                      <Badge color="orange" variant="light" size="sm">Unlinked</Badge>
+                    </Tooltip>
+                  )}
+                </Group>
+                {deviceTest.device?.serial_number && (
+                  <Text pl="md" size="xs" c="dimmed">SN: {deviceTest.device.serial_number}</Text>
+                )}
+              </Stack>
+            </Grid.Col>
+            <Grid.Col span={6}>
+              <Stack gap="xs">
+                <Group>
+                  <ThemeIcon variant="light" size="sm">
+                    <IconCalendar size={14} />
+                  </ThemeIcon>
+                  <Text size="sm" fw={500}>Test Date</Text>
+                </Group>
+                <Text pl="md">
+                  {deviceTest.test_date ? new Date(deviceTest.test_date).toLocaleString() : 'N/A'}
+                </Text>
+              </Stack>
+            </Grid.Col>
+          </Grid>
+
+          <Grid>
+            <Grid.Col span={6}>
+              <Stack gap="xs">
+                <Text size="sm" fw={500}>Data Type</Text>
+                <Text>{deviceTest.data_type || 'N/A'}</Text>
+              </Stack>
+            </Grid.Col>
+            <Grid.Col span={6}>
+              <Stack gap="xs">
+                <Text size="sm" fw={500}>Device Type</Text>
+                <Text>{deviceTest.device_type || metadata?.device_type || 'N/A'}</Text>
+              </Stack>
+            </Grid.Col>
+          </Grid>
+
+          <Stack gap="xs">
+            <Group>
+              <ThemeIcon variant="light" size="sm">
+                <IconFolder size={14} />
+              </ThemeIcon>
+              <Text size="sm" fw={500}>Files Processed</Text>
+            </Group>
+            {metadata?.files_processed && metadata.files_processed.length > 0 ? (
+              <Group gap="xs" pl="md">
+                {metadata.files_processed.map(file => (
+                  <Badge key={file} variant="outline" color="gray" size="sm" tt="none">
+                    {file}
+                  </Badge>
+                ))}
+              </Group>
+            ) : (
+              <Text pl="md" c="dimmed" size="sm">No files recorded</Text>
+            )}
+            {metadata?.folder_hash && (
+              <Text pl="md" size="xs" c="dimmed">
+                Hash: <Code>{metadata.folder_hash}</Code>
+              </Text>
+            )}
+          </Stack>
+
+          <Stack gap="xs">
+            <Group>
+              <ThemeIcon variant="light" size="sm">
+                <IconPhoto size={14} />
+              </ThemeIcon>
+              <Text size="sm" fw={500}>Images</Text>
+            </Group>
+            <DeviceTestGallery deviceTest={deviceTest} />
+          </Stack>
+
+          {deviceTest.data_type === 'image_analysis' && (
+            <Stack gap="xs">
+              <Group>
+                <ThemeIcon variant="light" size="sm">
+                  <IconChartLine size={14} />
+                </ThemeIcon>
+                <Text size="sm" fw={500}>RGB Statistics</Text>
+              </Group>
+              <DeviceTestStatsChart deviceTest={deviceTest} />
+            </Stack>
+          )}
+
+          {deviceTest.notes && (
+            <Stack gap="xs">
+              <Group>
+                <ThemeIcon variant="light" size="sm">
+                  <IconNotes size={14} />
+                </ThemeIcon>
+                <Text size="sm" fw={500}>Notes</Text>
+              </Group>
+              <Text pl="md" size="sm">{deviceTest.notes}</Text>
+            </Stack>
+          )}
+
+          {onReviewed && (
+            <>
+              <Divider />
+              <Stack gap="xs">
+                <Group>
+                  <ThemeIcon variant="light" size="sm">
+                    <IconClipboardCheck size={14} />
+                  </ThemeIcon>
+                  <Text size="sm" fw={500}>Review</Text>
+                </Group>
+                <DeviceTestReviewForm
+                  key={deviceTest.updated_at}
+                  deviceTest={deviceTest}
+                  onReviewed={onReviewed}
+                />
+              </Stack>
+            </>
+          )}
+
+          <Divider />
+
+          {/* Timestamps */}
+          <Grid>
+            <Grid.Col span={6}>
+              <Stack gap="xs">
+                <Text size="sm" fw={500}>Uploaded</Text>
+                <Text size="sm">{new Date(deviceTest.created_at).toLocaleString()}</Text>
+              </Stack>
+            </Grid.Col>
+            <Grid.Col span={6}>
+              <Stack gap="xs">
+                <Text size="sm" fw={500}>Last Updated</Text>
+                <Text size="sm">{new Date(deviceTest.updated_at).toLocaleString()}</Text>
+              </Stack>
+            </Grid.Col>
+          </Grid>
+        </Stack>
+      </Card>
+
+      <Group justify="flex-end">
+        {certificate && (
+          <Text size="sm" c="dimmed">Certificate {certificate.certificate_no}</Text>
+        )}
+        {/* Anyone can download an issued certificate; issuing one is gated */}
+        {(certificate || can('device_test:certify')) && (
+          <Tooltip
+            label="Only passed or failed batches can be certified"
+            disabled={certifiable || !!certificate}
+          >
+            <Button
+              variant="light"
+              leftSection={<IconCertificate size={16} />}
+              onClick={handleCertificate}
+              loading={certificateLoading}
+              disabled={!user || (!certifiable && !certificate)}
+            >
+              {certificate ? 'Download Certificate' : 'Issue Certificate'}
+            </Button>
+          </Tooltip>
+        )}
+        <Button variant="outline" onClick={onClose}>
+          Close
+        </Button>
+      </Group>
+    </Stack>
+  );
+};
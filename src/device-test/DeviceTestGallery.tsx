@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import {
+  Stack,
+  Group,
+  Text,
+  Image,
+  Button,
+  Modal,
+  ColorSwatch,
+  SimpleGrid,
+  Paper,
+  Anchor,
+  UnstyledButton,
+  Box
+} from '@mantine/core';
+import { Carousel } from '@mantine/carousel';
+import { useDisclosure } from '@mantine/hooks';
+import { IconDownload, IconFileTypePdf, IconPhotoOff } from '@tabler/icons-react';
+import { deviceTestService } from './device_test.service';
+import { useDeviceTestDownload } from './device_test.hook';
+import type { DeviceTest, ImageChannelStats } from './device_test.type';
+import { formatTriple, toRgb } from './device_test.format';
+import { IMAGE_FALLBACK } from '../utils/image';
+
+interface DeviceTestGalleryProps {
+  deviceTest: DeviceTest;
+}
+
+const ImageStatsSummary: React.FC<{ stats?: ImageChannelStats }> = ({ stats }) => {
+  if (!stats) {
+    return <Text size="xs" c="dimmed">No statistics for this image</Text>;
+  }
+
+  return (
+    <Group gap="md" wrap="nowrap" align="flex-start">
+      <ColorSwatch color={toRgb(stats.mean)} size={36} />
+      <SimpleGrid cols={2} spacing={4} verticalSpacing={2}>
+        <Text size="xs" c="dimmed">Mean</Text>
+        <Text size="xs">{formatTriple(stats.mean)}</Text>
+        <Text size="xs" c="dimmed">Min / Max</Text>
+        <Text size="xs">{formatTriple(stats.min, 0)} – {formatTriple(stats.max, 0)}</Text>
+        <Text size="xs" c="dimmed">Std Dev</Text>
+        <Text size="xs">{formatTriple(stats.standardDeviation, 2)}</Text>
+      </SimpleGrid>
+    </Group>
+  );
+};
+
+export const DeviceTestGallery: React.FC<DeviceTestGalleryProps> = ({ deviceTest }) => {
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [lightboxOpened, { open: openLightbox, close: closeLightbox }] = useDisclosure(false);
+  const { loading: downloading, progress, downloadZip } = useDeviceTestDownload();
+
+  const images = deviceTest.images || [];
+  const imageStats = deviceTestService.getImageStats(deviceTest);
+  const documents = deviceTestService.getProcessedDocuments(deviceTest);
+
+  const getImageName = (url: string) => decodeURIComponent(url.split('/').pop() || url);
+
+  const handleOpen = (index: number) => {
+    setActiveIndex(index);
+    openLightbox();
+  };
+
+  return (
+    <Stack gap="sm">
+      {images.length === 0 ? (
+        <Group gap="xs" pl="md">
+          <IconPhotoOff size={16} color="var(--mantine-color-dimmed)" />
+          <Text c="dimmed" size="sm">No images in this batch</Text>
+        </Group>
+      ) : (
+        <Carousel
+          slideSize={{ base: '100%', sm: '50%' }}
+          slideGap="md"
+          withIndicators={images.length > 1}
+          withControls={images.length > 1}
+          emblaOptions={{ align: 'start' }}
+        >
+          {images.map((url, index) => (
+            <Carousel.Slide key={url}>
+              <Paper withBorder p="xs">
+                <Stack gap="xs">
+                  <UnstyledButton onClick={() => handleOpen(index)} aria-label={`Open ${getImageName(url)}`}>
+                    <Image
+                      src={url}
+                      alt={getImageName(url)}
+                      h={200}
+                      fit="contain"
+                      radius="sm"
+                      bg="gray.1"
+                      fallbackSrc={IMAGE_FALLBACK}
+                    />
+                  </UnstyledButton>
+                  <Text size="xs" fw={500} lineClamp={1} title={getImageName(url)}>
+                    {index + 1}. {getImageName(url)}
+                  </Text>
+                  <ImageStatsSummary stats={imageStats[index]} />
+                </Stack>
+              </Paper>
+            </Carousel.Slide>
+          ))}
+        </Carousel>
+      )}
+
+      <Group justify="space-between" style={{ flexWrap: 'wrap', gap: 'sm' }}>
+        <Group gap="sm">
+          {documents.map(document => (
+            <Anchor key={document.name} href={document.url} target="_blank" rel="noopener noreferrer" size="sm">
+              <Group gap={4}>
+                <IconFileTypePdf size={16} />
+                {document.name}
+              </Group>
+            </Anchor>
+          ))}
+        </Group>
+        {(images.length > 0 || documents.length > 0) && (
+          <Button
+            size="xs"
+            variant="light"
+            leftSection={<IconDownload size={14} />}
+            onClick={() => downloadZip(deviceTest)}
+            loading={downloading}
+          >
+            {downloading ? `Preparing ${progress}%` : 'Download all (.zip)'}
+          </Button>
+        )}
+      </Group>
+
+      {/* Lightbox */}
+      <Modal
+        opened={lightboxOpened}
+        onClose={closeLightbox}
+        title={`${deviceTest.folder_name} — image ${activeIndex + 1} of ${images.length}`}
+        fullScreen
+      >
+        <Carousel
+          initialSlide={activeIndex}
+          onSlideChange={setActiveIndex}
+          withIndicators={images.length > 1}
+          withControls={images.length > 1}
+          withKeyboardEvents
+          emblaOptions={{ loop: images.length > 1 }}
+        >
+          {images.map((url, index) => (
+            <Carousel.Slide key={url}>
+              <Stack gap="md" align="center">
+                <Box w="100%">
+                  <Image
+                    src={url}
+                    alt={getImageName(url)}
+                    h="70vh"
+                    fit="contain"
+                    fallbackSrc={IMAGE_FALLBACK}
+                  />
+                </Box>
+                <Text size="sm" fw={500}>{getImageName(url)}</Text>
+                <ImageStatsSummary stats={imageStats[index]} />
+              </Stack>
+            </Carousel.Slide>
+          ))}
+        </Carousel>
+      </Modal>
+    </Stack>
+  );
+};
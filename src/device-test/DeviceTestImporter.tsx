@@ -0,0 +1,252 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Stack,
+  Group,
+  Text,
+  Select,
+  TextInput,
+  Textarea,
+  Button,
+  Alert,
+  Badge,
+  Checkbox,
+  Progress,
+  Loader,
+  ThemeIcon,
+  Code
+} from '@mantine/core';
+import { Dropzone } from '@mantine/dropzone';
+import {
+  IconCloudUpload,
+  IconUpload,
+  IconX,
+  IconFolder,
+  IconAlertTriangle,
+  IconCheck
+} from '@tabler/icons-react';
+import { useCompanyDevices } from '../device/device.hook';
+import { useDeviceTestImport } from './device_test.hook';
+import { deviceTestService } from './device_test.service';
+import type { DeviceTest, ImportTestFolderPreview } from './device_test.type';
+
+interface DeviceTestImporterProps {
+  companyId?: string;
+  deviceId?: string;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const ACCEPTED_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/bmp',
+  'image/gif',
+  'image/webp',
+  'image/tiff',
+  'application/pdf',
+  'application/json',
+  'application/zip',
+  'application/x-zip-compressed'
+];
+
+export const DeviceTestImporter: React.FC<DeviceTestImporterProps> = ({
+  companyId,
+  deviceId,
+  onClose,
+  onSuccess
+}) => {
+  const { loading, progress, importFolder } = useDeviceTestImport();
+  const { devices } = useCompanyDevices(deviceId ? undefined : companyId, {}, { page: 1, pageSize: 1000 });
+
+  const [selectedDeviceId, setSelectedDeviceId] = useState<string | null>(deviceId || null);
+  const [folderName, setFolderName] = useState('');
+  const [notes, setNotes] = useState('');
+  const [preview, setPreview] = useState<ImportTestFolderPreview | null>(null);
+  const [reading, setReading] = useState(false);
+  const [readError, setReadError] = useState<string | null>(null);
+  const [existing, setExisting] = useState<DeviceTest | null>(null);
+  const [reimport, setReimport] = useState(false);
+
+  // Look for an earlier import of the same folder (unique_folder_device)
+  useEffect(() => {
+    setExisting(null);
+    setReimport(false);
+    const trimmed = folderName.trim();
+    if (!selectedDeviceId || !trimmed) return;
+
+    let cancelled = false;
+    deviceTestService.getByFolder(selectedDeviceId, trimmed)
+      .then(result => {
+        if (!cancelled) setExisting(result);
+      })
+      .catch(err => console.error('Failed to check existing import:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedDeviceId, folderName]);
+
+  const handleDrop = async (files: File[]) => {
+    setReading(true);
+    setReadError(null);
+    try {
+      const expanded = await deviceTestService.expandImportFiles(files);
+      if (expanded.files.length === 0) {
+        throw new Error('No files found in the dropped folder');
+      }
+      const name = folderName || expanded.folderName;
+      setPreview(await deviceTestService.prepareImport(expanded.files, name));
+      setFolderName(name);
+    } catch (err) {
+      setPreview(null);
+      setReadError(err instanceof Error ? err.message : 'Failed to read dropped files');
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!selectedDeviceId || !preview) return;
+    try {
+      await importFolder({
+        device_id: selectedDeviceId,
+        folder_name: folderName,
+        files: preview.files,
+        notes: notes || undefined
+      }, reimport);
+      onSuccess();
+    } catch (error) {
+      console.error('Import error:', error);
+      // Error notification is handled in the hook
+    }
+  };
+
+  const canImport = !!selectedDeviceId && !!preview && !!folderName.trim() && (!existing || reimport);
+
+  return (
+    <Stack gap="md">
+      {!deviceId && (
+        <Select
+          label="Device"
+          placeholder="Select device"
+          data={devices.map(device => ({ value: device.id, label: device.device_name }))}
+          value={selectedDeviceId}
+          onChange={setSelectedDeviceId}
+          searchable
+          required
+        />
+      )}
+
+      <Dropzone
+        onDrop={handleDrop}
+        accept={ACCEPTED_TYPES}
+        loading={reading}
+        disabled={loading}
+        p="xl"
+      >
+        <Group justify="center" gap="xl" style={{ minHeight: 120, pointerEvents: 'none' }}>
+          <Dropzone.Accept>
+            <IconUpload size={48} stroke={1.5} />
+          </Dropzone.Accept>
+          <Dropzone.Reject>
+            <IconX size={48} stroke={1.5} />
+          </Dropzone.Reject>
+          <Dropzone.Idle>
+            <IconCloudUpload size={48} stroke={1.5} />
+          </Dropzone.Idle>
+          <div>
+            <Text size="lg" inline>
+              Drop a test folder or zip here
+            </Text>
+            <Text size="sm" c="dimmed" inline mt={7}>
+              Images, processed PDF and stats.json from a single test batch
+            </Text>
+          </div>
+        </Group>
+      </Dropzone>
+
+      {readError && (
+        <Alert color="red" icon={<IconAlertTriangle size={16} />}>{readError}</Alert>
+      )}
+
+      {preview && (
+        <Stack gap="xs">
+          <Group gap="xs">
+            <ThemeIcon variant="light" size="sm">
+              <IconFolder size={14} />
+            </ThemeIcon>
+            <Text size="sm" fw={500}>{preview.files.length} files</Text>
+            <Badge variant="light">{preview.images.length} images</Badge>
+            <Badge variant="light" color="gray">{preview.documents.length} PDF</Badge>
+            {preview.stats ? (
+              <Badge variant="light" color="green" leftSection={<IconCheck size={12} />}>
+                stats.json
+              </Badge>
+            ) : (
+              <Badge variant="light" color="orange">No statistics</Badge>
+            )}
+          </Group>
+          {preview.statsError && (
+            <Text size="xs" c="orange">
+              {preview.statsError}. The batch will be imported as incomplete.
+            </Text>
+          )}
+          <Text size="xs" c="dimmed">
+            Hash: <Code>{preview.folder_hash}</Code>
+          </Text>
+        </Stack>
+      )}
+
+      <TextInput
+        label="Folder name"
+        placeholder="e.g. Batch71"
+        value={folderName}
+        onChange={(event) => setFolderName(event.currentTarget.value)}
+        required
+      />
+
+      {existing && (
+        <Alert color="yellow" icon={<IconAlertTriangle size={16} />} title="Already imported">
+          <Stack gap="xs">
+            <Text size="sm">
+              Folder "{existing.folder_name}" was already imported for this device on{' '}
+              {new Date(existing.created_at).toLocaleString()}.
+            </Text>
+            <Checkbox
+              label="Re-import and replace the existing images and results"
+              checked={reimport}
+              onChange={(event) => setReimport(event.currentTarget.checked)}
+            />
+          </Stack>
+        </Alert>
+      )}
+
+      <Textarea
+        label="Notes"
+        placeholder="Optional notes for this batch"
+        value={notes}
+        onChange={(event) => setNotes(event.currentTarget.value)}
+        minRows={2}
+      />
+
+      {loading && (
+        <Stack gap={4}>
+          <Group justify="space-between">
+            <Text size="sm">Uploading files...</Text>
+            {progress === 0 && <Loader size="xs" />}
+          </Group>
+          <Progress value={progress} animated />
+        </Stack>
+      )}
+
+      <Group justify="flex-end">
+        <Button variant="outline" onClick={onClose} disabled={loading}>
+          Cancel
+        </Button>
+        <Button onClick={handleImport} loading={loading} disabled={!canImport}>
+          {existing ? 'Re-import' : 'Import'}
+        </Button>
+      </Group>
+    </Stack>
+  );
+};
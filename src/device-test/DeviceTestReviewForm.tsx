@@ -0,0 +1,87 @@
+import React from 'react';
+import { useForm } from '@mantine/form';
+import {
+  Stack,
+  Group,
+  Select,
+  Textarea,
+  Button,
+  Text
+} from '@mantine/core';
+import { useAuth } from '../auth/useAuth';
+import { useDeviceTestReview } from './device_test.hook';
+import type { DeviceTest, DeviceTestStatus } from './device_test.type';
+import { TEST_STATUSES } from './device_test.type';
+
+interface DeviceTestReviewFormProps {
+  deviceTest: DeviceTest;
+  onReviewed: (deviceTest: DeviceTest) => void;
+}
+
+export const DeviceTestReviewForm: React.FC<DeviceTestReviewFormProps> = ({
+  deviceTest,
+  onReviewed
+}) => {
+  const { user } = useAuth();
+  const { loading, reviewDeviceTest } = useDeviceTestReview();
+
+  const form = useForm({
+    initialValues: {
+      test_status: deviceTest.test_status || 'pending',
+      notes: deviceTest.notes || ''
+    },
+    validate: {
+      // A failed or incomplete verdict needs a reason for the customer and QC history
+      notes: (value, values) =>
+        (values.test_status === 'failed' || values.test_status === 'incomplete') && !value.trim()
+          ? 'Notes are required when failing or marking a batch incomplete'
+          : null
+    }
+  });
+
+  const handleSubmit = async (values: typeof form.values) => {
+    if (!user) return;
+    try {
+      const updated = await reviewDeviceTest({
+        id: deviceTest.id,
+        test_status: values.test_status as DeviceTestStatus,
+        notes: values.notes.trim() || null,
+        reviewer: { id: user.id, name: user.name }
+      });
+      onReviewed(updated);
+    } catch (error) {
+      console.error('Review submission error:', error);
+      // Error notification is handled in the hook
+    }
+  };
+
+  return (
+    <form onSubmit={form.onSubmit(handleSubmit)}>
+      <Stack gap="sm">
+        <Select
+          label="Status"
+          data={TEST_STATUSES}
+          allowDeselect={false}
+          {...form.getInputProps('test_status')}
+        />
+        <Textarea
+          label="Review notes"
+          placeholder="What did you check and why this status?"
+          minRows={3}
+          autosize
+          {...form.getInputProps('notes')}
+        />
+        <Group justify="space-between">
+          <Text size="xs" c="dimmed">
+            {deviceTest.reviewed_at
+              ? `Last reviewed by ${deviceTest.reviewed_by_name || 'unknown'} on ${new Date(deviceTest.reviewed_at).toLocaleString()}`
+              : 'Not reviewed yet'}
+          </Text>
+          <Button type="submit" loading={loading} disabled={!user}>
+            Save Review
+          </Button>
+        </Group>
+      </Stack>
+    </form>
+  );
+};
@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import {
+  Paper,
+  Title,
+  Group,
+  Button,
+  Select,
+  Table,
+  Badge,
+  Modal,
+  Stack,
+  Text,
+  Pagination,
+  Loader,
+  Alert
+} from '@mantine/core';
+import { useDisclosure } from '@mantine/hooks';
+import { IconRefresh } from '@tabler/icons-react';
+import { OrganizationSelect } from '../organization/OrganizationSelect';
+import { useDeviceTests } from './device_test.hook';
+import type { DeviceTest, DeviceTestStatus } from './device_test.type';
+import { REVIEW_QUEUE_STATUSES, TEST_STATUSES } from './device_test.type';
+import { DeviceTestDetail } from './DeviceTestDetail';
+
+const PAGE_SIZE = 20;
+
+export const DeviceTestReviewQueue: React.FC = () => {
+  const [status, setStatus] = useState<string | null>(null);
+  const [companyId, setCompanyId] = useState<string | null>(null);
+  const [page, setPage] = useState(1);
+  const [selectedTest, setSelectedTest] = useState<DeviceTest | null>(null);
+  const [detailOpened, { open: openDetail, close: closeDetail }] = useDisclosure(false);
+
+  // Oldest first so batches don't sit in the inbox indefinitely
+  const { deviceTests, loading, error, refresh } = useDeviceTests(
+    {
+      test_statuses: status ? [status as DeviceTestStatus] : REVIEW_QUEUE_STATUSES,
+      company_id: companyId || undefined,
+      sort: 'oldest'
+    },
+    { page, pageSize: PAGE_SIZE }
+  );
+
+  const handleView = (deviceTest: DeviceTest) => {
+    setSelectedTest(deviceTest);
+    openDetail();
+  };
+
+  const getWaitingDays = (deviceTest: DeviceTest) => {
+    const since = new Date(deviceTest.test_date || deviceTest.created_at).getTime();
+    return Math.max(0, Math.floor((Date.now() - since) / (1000 * 60 * 60 * 24)));
+  };
+
+  return (
+    <Stack gap="md">
+      <Paper p="md">
+        <Stack gap="md">
+          <Group justify="space-between" style={{ flexWrap: 'wrap', gap: 'md' }}>
+            <div>
+              <Title order={2}>Test Review Queue</Title>
+              <Text size="sm" c="dimmed">
+                Pending and incomplete test batches across all organizations
+              </Text>
+            </div>
+            <Button
+              leftSection={<IconRefresh size={16} />}
+              variant="subtle"
+              onClick={refresh}
+              loading={loading}
+            >
+              Refresh
+            </Button>
+          </Group>
+
+          <Group gap="md" style={{ flexWrap: 'wrap' }}>
+            <Select
+              placeholder="Pending & incomplete"
+              data={TEST_STATUSES.filter(option => REVIEW_QUEUE_STATUSES.includes(option.value))}
+              value={status}
+              onChange={(value) => {
+                setStatus(value);
+                setPage(1);
+              }}
+              clearable
+              w={200}
+            />
+            <div style={{ minWidth: 260 }}>
+              <OrganizationSelect
+                placeholder="All organizations"
+                value={companyId || undefined}
+                onChange={(value) => {
+                  setCompanyId(value);
+                  setPage(1);
+                }}
+                clearable
+              />
+            </div>
+          </Group>
+
+          {error && <Alert color="red" title="Error">{error}</Alert>}
+
+          <div style={{ overflowX: 'auto' }}>
+            <Table striped highlightOnHover style={{ minWidth: '800px' }}>
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th>Folder</Table.Th>
+                  <Table.Th>Organization</Table.Th>
+                  <Table.Th>Device</Table.Th>
+                  <Table.Th>Test Date</Table.Th>
+                  <Table.Th>Waiting</Table.Th>
+                  <Table.Th>Status</Table.Th>
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {loading ? (
+                  <Table.Tr>
+                    <Table.Td colSpan={6} style={{ textAlign: 'center', padding: '2rem' }}>
+                      <Loader size="md" />
+                    </Table.Td>
+                  </Table.Tr>
+                ) : deviceTests.data.length === 0 ? (
+                  <Table.Tr>
+                    <Table.Td colSpan={6} style={{ textAlign: 'center', padding: '2rem', color: 'var(--mantine-color-dimmed)' }}>
+                      Nothing waiting for review
+                    </Table.Td>
+                  </Table.Tr>
+                ) : (
+                  deviceTests.data.map((deviceTest) => {
+                    const waitingDays = getWaitingDays(deviceTest);
+                    return (
+                      <Table.Tr key={deviceTest.id} style={{ cursor: 'pointer' }} onClick={() => handleView(deviceTest)}>
+                        <Table.Td>
+                          <Text fw={500}>{deviceTest.folder_name}</Text>
+                          {deviceTest.upload_batch && (
+                            <Text size="xs" c="dimmed">{deviceTest.upload_batch}</Text>
+                          )}
+                        </Table.Td>
+                        <Table.Td>{deviceTest.device?.organization?.name || '-'}</Table.Td>
+                        <Table.Td>
+                          {deviceTest.device ? deviceTest.device.device_name : <Badge color="orange" variant="light" size="sm">Unlinked</Badge>}
+                        </Table.Td>
+                        <Table.Td>
+                          {deviceTest.test_date ? new Date(deviceTest.test_date).toLocaleString() : '-'}
+                        </Table.Td>
+                        <Table.Td>
+                          <Badge color={waitingDays > 7 ? 'red' : waitingDays > 2 ? 'orange' : 'gray'} variant="light">
+                            {waitingDays === 0 ? 'Today' : `${waitingDays} days`}
+                          </Badge>
+                        </Table.Td>
+                        <Table.Td>
+                          <Badge color={deviceTest.test_status === 'incomplete' ? 'orange' : 'yellow'} variant="light">
+                            {deviceTest.test_status}
+                          </Badge>
+                        </Table.Td>
+                      </Table.Tr>
+                    );
+                  })
+                )}
+              </Table.Tbody>
+            </Table>
+          </div>
+
+          <Group justify="space-between">
+            <Text size="sm" c="dimmed">{deviceTests.totalCount} batches waiting</Text>
+            {deviceTests.totalPages > 1 && (
+              <Pagination
+                total={deviceTests.totalPages}
+                value={page}
+                onChange={setPage}
+                size="sm"
+              />
+            )}
+          </Group>
+        </Stack>
+      </Paper>
+
+      <Modal
+        opened={detailOpened}
+        onClose={closeDetail}
+        title="Review Test Batch"
+        size="xl"
+      >
+        {selectedTest && (
+          <DeviceTestDetail
+            deviceTest={selectedTest}
+            onClose={closeDetail}
+            onReviewed={() => {
+              closeDetail();
+              refresh();
+            }}
+          />
+        )}
+      </Modal>
+    </Stack>
+  );
+};
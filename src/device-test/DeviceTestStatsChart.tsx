@@ -0,0 +1,139 @@
+import React from 'react';
+import {
+  Stack,
+  Group,
+  Text,
+  Table,
+  ColorSwatch,
+  SimpleGrid,
+  Paper,
+  Tooltip as MantineTooltip
+} from '@mantine/core';
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer
+} from 'recharts';
+import { deviceTestService } from './device_test.service';
+import type { DeviceTest } from './device_test.type';
+import { RGB_CHANNELS } from './device_test.type';
+import { formatTriple, toRgb } from './device_test.format';
+
+interface DeviceTestStatsChartProps {
+  deviceTest: DeviceTest;
+}
+
+export const DeviceTestStatsChart: React.FC<DeviceTestStatsChartProps> = ({ deviceTest }) => {
+  const imageStats = deviceTestService.getImageStats(deviceTest);
+
+  if (imageStats.length === 0) {
+    return (
+      <Text c="dimmed" size="sm" ta="center" py="md">
+        No image statistics recorded for this batch
+      </Text>
+    );
+  }
+
+  return (
+    <Stack gap="md">
+      <SimpleGrid cols={{ base: 1, md: 3 }}>
+        {RGB_CHANNELS.map(channel => {
+          // Area with a [min, max] tuple renders the spread as a band around the mean line
+          const chartData = imageStats.map(stats => ({
+            label: `#${stats.index + 1}`,
+            name: stats.label,
+            mean: Number(stats.mean[channel.index].toFixed(2)),
+            band: [stats.min[channel.index], stats.max[channel.index]]
+          }));
+
+          return (
+            <Paper key={channel.label} withBorder p="sm">
+              <Text size="sm" fw={500} mb="xs" style={{ color: channel.color }}>
+                {channel.label} channel
+              </Text>
+              <ResponsiveContainer width="100%" height={200}>
+                <ComposedChart data={chartData} margin={{ top: 5, right: 10, left: -20, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="label" fontSize={11} />
+                  <YAxis domain={[0, 255]} fontSize={11} />
+                  <Tooltip
+                    labelFormatter={(_, payload) => payload?.[0]?.payload?.name || ''}
+                    formatter={(value, name) => [
+                      Array.isArray(value) ? value.join(' – ') : value,
+                      name === 'band' ? 'Min – Max' : 'Mean'
+                    ]}
+                  />
+                  <Area
+                    type="monotone"
+                    dataKey="band"
+                    stroke="none"
+                    fill={channel.color}
+                    fillOpacity={0.2}
+                    isAnimationActive={false}
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="mean"
+                    stroke={channel.color}
+                    strokeWidth={2}
+                    dot={{ r: 3 }}
+                    isAnimationActive={false}
+                  />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </Paper>
+          );
+        })}
+      </SimpleGrid>
+
+      <div style={{ overflowX: 'auto' }}>
+        <Table striped style={{ minWidth: '760px' }}>
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>Image</Table.Th>
+              <Table.Th>Colour</Table.Th>
+              <Table.Th>Mean (R / G / B)</Table.Th>
+              <Table.Th>Min</Table.Th>
+              <Table.Th>Max</Table.Th>
+              <Table.Th>Range</Table.Th>
+              <Table.Th>Variance</Table.Th>
+              <Table.Th>Std Dev</Table.Th>
+            </Table.Tr>
+          </Table.Thead>
+          <Table.Tbody>
+            {imageStats.map(stats => (
+              <Table.Tr key={stats.index}>
+                <Table.Td>
+                  <Text size="sm" fw={500} lineClamp={1} title={stats.label}>{stats.label}</Text>
+                </Table.Td>
+                <Table.Td>
+                  <Group gap={4} wrap="nowrap">
+                    <MantineTooltip label={`Mean ${toRgb(stats.mean)}`}>
+                      <ColorSwatch color={toRgb(stats.mean)} size={24} />
+                    </MantineTooltip>
+                    {stats.samples.map((sample, sampleIndex) => (
+                      <MantineTooltip key={sampleIndex} label={`Sample ${sampleIndex + 1}: ${toRgb(sample)}`}>
+                        <ColorSwatch color={toRgb(sample)} size={14} />
+                      </MantineTooltip>
+                    ))}
+                  </Group>
+                </Table.Td>
+                <Table.Td><Text size="xs">{formatTriple(stats.mean)}</Text></Table.Td>
+                <Table.Td><Text size="xs">{formatTriple(stats.min, 0)}</Text></Table.Td>
+                <Table.Td><Text size="xs">{formatTriple(stats.max, 0)}</Text></Table.Td>
+                <Table.Td><Text size="xs">{formatTriple(stats.range, 0)}</Text></Table.Td>
+                <Table.Td><Text size="xs">{formatTriple(stats.variance)}</Text></Table.Td>
+                <Table.Td><Text size="xs">{formatTriple(stats.standardDeviation, 2)}</Text></Table.Td>
+              </Table.Tr>
+            ))}
+          </Table.Tbody>
+        </Table>
+      </div>
+    </Stack>
+  );
+};
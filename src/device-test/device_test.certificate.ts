@@ -0,0 +1,156 @@
+import type { DeviceTestCertificate } from './device_test.type';
+import { formatTriple, toRgb } from './device_test.format';
+
+// Certificates are rendered from the stored snapshot only, never from live data,
+// so every download of the same certificate number prints the same document.
+
+const MAX_CERTIFICATE_IMAGES = 12;
+
+const escapeHtml = (value: unknown) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatDate = (value: string | null | undefined) =>
+  value
+    ? new Date(value).toLocaleString('en-IN', { day: '2-digit', month: 'long', year: 'numeric', hour: '2-digit', minute: '2-digit' })
+    : 'N/A';
+
+const field = (label: string, value: unknown) =>
+  `<div class="field"><span class="label">${escapeHtml(label)}</span><span>${escapeHtml(value || 'N/A')}</span></div>`;
+
+export const renderCertificateHtml = (certificate: DeviceTestCertificate) => {
+  const { organization, device, test, summary, images } = certificate.snapshot;
+  const status = (test.test_status || 'unknown').toUpperCase();
+
+  const statsRows = images
+    .filter(image => image.stats)
+    .map(({ stats }) => stats && `
+      <tr>
+        <td>${escapeHtml(stats.label)}</td>
+        <td><span class="swatch" style="background:${toRgb(stats.mean)}"></span>${formatTriple(stats.mean)}</td>
+        <td>${formatTriple(stats.min, 0)}</td>
+        <td>${formatTriple(stats.max, 0)}</td>
+        <td>${formatTriple(stats.variance)}</td>
+        <td>${formatTriple(stats.standardDeviation, 2)}</td>
+      </tr>`)
+    .join('');
+
+  const thumbnails = images
+    .slice(0, MAX_CERTIFICATE_IMAGES)
+    .map(image => `<img src="${escapeHtml(image.url)}" alt="" />`)
+    .join('');
+
+  return `
+    <html>
+      <head>
+        <title>Test Certificate - ${escapeHtml(certificate.certificate_no)}</title>
+        <style>
+          body { font-family: Arial, sans-serif; margin: 32px; color: #222; }
+          .certificate { border: 3px double #444; padding: 32px; }
+          .header { text-align: center; margin-bottom: 24px; }
+          .header h1 { margin: 0; letter-spacing: 2px; }
+          .number { font-size: 14px; color: #555; margin-top: 6px; }
+          .status { display: inline-block; margin-top: 12px; padding: 6px 16px; border-radius: 4px; font-weight: bold; }
+          .status-PASSED { background-color: #d3f9d8; color: #2b8a3e; }
+          .status-FAILED { background-color: #ffe0e6; color: #c92a2a; }
+          .columns { display: flex; gap: 32px; margin-bottom: 20px; }
+          .columns > div { flex: 1; }
+          h3 { border-bottom: 1px solid #ccc; padding-bottom: 4px; font-size: 15px; }
+          .field { margin-bottom: 6px; font-size: 13px; }
+          .label { font-weight: bold; display: inline-block; min-width: 120px; }
+          table { width: 100%; border-collapse: collapse; font-size: 12px; margin-bottom: 20px; }
+          th, td { border: 1px solid #ccc; padding: 4px 6px; text-align: left; }
+          th { background: #f4f4f4; }
+          .swatch { display: inline-block; width: 12px; height: 12px; border: 1px solid #999; margin-right: 6px; vertical-align: middle; }
+          .thumbnails { display: grid; grid-template-columns: repeat(6, 1fr); gap: 6px; margin-bottom: 20px; }
+          .thumbnails img { width: 100%; height: 80px; object-fit: cover; border: 1px solid #ccc; }
+          .signatures { display: flex; justify-content: space-between; margin-top: 48px; font-size: 13px; }
+          .signature { width: 40%; border-top: 1px solid #444; padding-top: 6px; text-align: center; }
+          .footer { margin-top: 24px; font-size: 11px; color: #777; text-align: center; }
+        </style>
+      </head>
+      <body>
+        <div class="certificate">
+          <div class="header">
+            <h1>TEST CERTIFICATE</h1>
+            <div class="number">Certificate No. ${escapeHtml(certificate.certificate_no)} &middot; Issued ${escapeHtml(formatDate(certificate.issued_at))}</div>
+            <div class="status status-${escapeHtml(status)}">${escapeHtml(status)}</div>
+          </div>
+
+          <div class="columns">
+            <div>
+              <h3>Organization</h3>
+              ${field('Name', organization?.legal_name || organization?.name)}
+              ${field('GST Number', organization?.gst_number)}
+              ${field('Address', organization?.address)}
+              ${field('Contact', [organization?.email, organization?.phone].filter(Boolean).join(' · '))}
+            </div>
+            <div>
+              <h3>Device</h3>
+              ${field('Device', device?.device_name)}
+              ${field('Make / Model', [device?.make, device?.model].filter(Boolean).join(' '))}
+              ${field('Serial Number', device?.serial_number)}
+              ${field('MAC Address', device?.mac_address)}
+            </div>
+          </div>
+
+          <h3>Test Batch</h3>
+          <div class="columns">
+            <div>
+              ${field('Folder', test.folder_name)}
+              ${field('Upload Batch', test.upload_batch)}
+              ${field('Test Date', formatDate(test.test_date))}
+            </div>
+            <div>
+              ${field('Images', images.length)}
+              ${field('Batch Mean (R/G/B)', summary ? formatTriple(summary.mean) : null)}
+              ${field('Folder Hash', test.folder_hash)}
+            </div>
+          </div>
+          ${test.notes ? field('Notes', test.notes) : ''}
+
+          ${statsRows ? `
+          <h3>Statistics</h3>
+          <table>
+            <thead>
+              <tr><th>Image</th><th>Mean</th><th>Min</th><th>Max</th><th>Variance</th><th>Std Dev</th></tr>
+            </thead>
+            <tbody>${statsRows}</tbody>
+          </table>` : ''}
+
+          ${thumbnails ? `<h3>Images</h3><div class="thumbnails">${thumbnails}</div>` : ''}
+
+          <div class="signatures">
+            <div class="signature">
+              Reviewed by ${escapeHtml(test.reviewed_by_name || 'N/A')}<br />
+              ${escapeHtml(formatDate(test.reviewed_at))}
+            </div>
+            <div class="signature">
+              Issued by ${escapeHtml(certificate.issued_by_name || 'N/A')}<br />
+              ${escapeHtml(formatDate(certificate.issued_at))}
+            </div>
+          </div>
+
+          <div class="footer">Test ID ${escapeHtml(test.id)} &middot; This certificate was generated electronically.</div>
+        </div>
+      </body>
+    </html>
+  `;
+};
+
+// Open the certificate in a print window; the browser's "Save as PDF" produces the PDF
+export const printCertificate = (certificate: DeviceTestCertificate) => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error('Pop-up blocked. Allow pop-ups to download the certificate.');
+  }
+
+  printWindow.document.write(renderCertificateHtml(certificate));
+  printWindow.document.close();
+  // Wait for the thumbnails so they appear in the printed copy
+  printWindow.addEventListener('load', () => printWindow.print());
+};
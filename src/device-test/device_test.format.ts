@@ -0,0 +1,8 @@
+import type { RGBTriple } from './device_test.type';
+
+// CSS colour for a channel triple, clamped to 0-255
+export const toRgb = (triple: RGBTriple) =>
+  `rgb(${triple.map(value => Math.round(Math.min(255, Math.max(0, value)))).join(', ')})`;
+
+export const formatTriple = (triple: RGBTriple, digits = 1) =>
+  triple.map(value => value.toFixed(digits)).join(' / ');
@@ -0,0 +1,304 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { notifications } from '@mantine/notifications';
+import { deviceTestService } from './device_test.service';
+import { printCertificate } from './device_test.certificate';
+import type { DeviceColourDrift, DeviceTest, DeviceTestCertificate, DeviceTestFilters, DeviceTestQualityEntry, ImportTestFolderData, PaginationParams, PaginatedResponse, ReviewDeviceTestData } from './device_test.type';
+
+export const useDeviceTests = (
+  filters: DeviceTestFilters = {},
+  pagination: PaginationParams = { page: 1, pageSize: 10 }
+) => {
+  const [deviceTests, setDeviceTests] = useState<PaginatedResponse<DeviceTest>>({
+    data: [],
+    totalCount: 0,
+    page: 1,
+    pageSize: 10,
+    totalPages: 0
+  });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Serialize filters/pagination so callers can pass inline objects
+  const filtersKey = JSON.stringify(filters);
+  const paginationKey = JSON.stringify(pagination);
+
+  const fetchDeviceTests = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await deviceTestService.getPaginated(JSON.parse(filtersKey), JSON.parse(paginationKey));
+      setDeviceTests(result);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch device tests';
+      setError(errorMessage);
+      console.error('Failed to fetch device tests:', errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, [filtersKey, paginationKey]);
+
+  useEffect(() => {
+    fetchDeviceTests();
+  }, [fetchDeviceTests]);
+
+  return {
+    deviceTests,
+    loading,
+    error,
+    refresh: fetchDeviceTests
+  };
+};
+
+export const useDeviceTest = (id?: string) => {
+  const [deviceTest, setDeviceTest] = useState<DeviceTest | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDeviceTest = useCallback(async (deviceTestId: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await deviceTestService.getById(deviceTestId);
+      setDeviceTest(result);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch device test';
+      setError(errorMessage);
+      console.error('Failed to fetch device test:', errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (id) {
+      fetchDeviceTest(id);
+    }
+  }, [id, fetchDeviceTest]);
+
+  return {
+    deviceTest,
+    loading,
+    error,
+    refresh: () => id && fetchDeviceTest(id)
+  };
+};
+
+// Drift is fetched once; changing the threshold only re-filters
+export const useColourDrift = (threshold: number) => {
+  const [allDrifts, setAllDrifts] = useState<DeviceColourDrift[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDrift = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await deviceTestService.getColourDrift();
+      setAllDrifts(result);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to compute colour drift';
+      setError(errorMessage);
+      console.error('Failed to compute colour drift:', errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchDrift();
+  }, [fetchDrift]);
+
+  const drifts = useMemo(
+    () => allDrifts.filter(drift => drift.deviation > threshold),
+    [allDrifts, threshold]
+  );
+
+  return {
+    drifts,
+    loading,
+    error,
+    refresh: fetchDrift
+  };
+};
+
+export const useDeviceTestImport = () => {
+  const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState(0);
+
+  const importFolder = useCallback(async (data: ImportTestFolderData, reimport = false): Promise<DeviceTest> => {
+    setLoading(true);
+    setProgress(0);
+    try {
+      const result = await deviceTestService.importFolder(data, {
+        reimport,
+        onProgress: (uploaded, total) => setProgress(Math.round((uploaded / total) * 100))
+      });
+      notifications.show({
+        title: 'Success',
+        message: `Test folder "${result.folder_name}" ${reimport ? 're-imported' : 'imported'} successfully`,
+        color: 'green'
+      });
+      return result;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to import test folder';
+      notifications.show({
+        title: 'Error',
+        message: errorMessage,
+        color: 'red'
+      });
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return {
+    loading,
+    progress,
+    importFolder
+  };
+};
+
+export const useDeviceTestDataQuality = () => {
+  const [entries, setEntries] = useState<DeviceTestQualityEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEntries = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await deviceTestService.getDataQualityIssues();
+      setEntries(result);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to check device test data';
+      setError(errorMessage);
+      console.error('Failed to check device test data:', errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  return {
+    entries,
+    loading,
+    error,
+    refresh: fetchEntries
+  };
+};
+
+export const useDeviceTestDownload = () => {
+  const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState(0);
+
+  const downloadZip = useCallback(async (deviceTest: DeviceTest) => {
+    setLoading(true);
+    setProgress(0);
+    try {
+      const blob = await deviceTestService.buildImagesZip(deviceTest, (done, total) =>
+        setProgress(Math.round((done / total) * 100))
+      );
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${deviceTest.folder_name}.zip`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to download images';
+      notifications.show({
+        title: 'Error',
+        message: errorMessage,
+        color: 'red'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return {
+    loading,
+    progress,
+    downloadZip
+  };
+};
+
+export const useDeviceTestReview = () => {
+  const [loading, setLoading] = useState(false);
+
+  const reviewDeviceTest = useCallback(async (data: ReviewDeviceTestData): Promise<DeviceTest> => {
+    setLoading(true);
+    try {
+      const result = await deviceTestService.reviewDeviceTest(data);
+      notifications.show({
+        title: 'Success',
+        message: `Test batch marked as ${result.test_status}`,
+        color: 'green'
+      });
+      return result;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to save review';
+      notifications.show({
+        title: 'Error',
+        message: errorMessage,
+        color: 'red'
+      });
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return {
+    loading,
+    reviewDeviceTest
+  };
+};
+
+export const useDeviceTestCertificate = (deviceTestId: string) => {
+  const [certificate, setCertificate] = useState<DeviceTestCertificate | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setCertificate(null);
+    deviceTestService.getCertificate(deviceTestId)
+      .then(result => { if (!cancelled) setCertificate(result); })
+      .catch(() => { /* Not issued yet or not readable; the button still works */ });
+    return () => { cancelled = true; };
+  }, [deviceTestId]);
+
+  // Issues the certificate on first download; later downloads reprint the stored snapshot
+  const downloadCertificate = useCallback(async (deviceTest: DeviceTest, issuer: { id: string; name: string }) => {
+    setLoading(true);
+    try {
+      const result = await deviceTestService.issueCertificate(deviceTest, issuer);
+      setCertificate(result);
+      printCertificate(result);
+      return result;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to generate certificate';
+      notifications.show({
+        title: 'Error',
+        message: errorMessage,
+        color: 'red'
+      });
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return {
+    certificate,
+    loading,
+    downloadCertificate
+  };
+};
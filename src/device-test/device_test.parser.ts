@@ -0,0 +1,203 @@
+import supabase from '../supabase';
+import type {
+  DeviceTest,
+  DeviceTestDataIssue,
+  DeviceTestMetadata,
+  DeviceTestResults,
+  DeviceTestStatus,
+  RGBTriple
+} from './device_test.type';
+
+export const IMAGES_BUCKET = 'images';
+
+const VALID_STATUSES: DeviceTestStatus[] = ['pending', 'passed', 'failed', 'incomplete'];
+
+const TRIPLE_FIELDS = ['max', 'min', 'mean', 'range', 'variance', 'standard deviation'] as const;
+
+type IssueReporter = (field: string, message: string, severity?: DeviceTestDataIssue['severity']) => void;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isTriple = (value: unknown): value is RGBTriple =>
+  Array.isArray(value) && value.length === 3 && value.every(n => typeof n === 'number' && Number.isFinite(n));
+
+// jsonb columns are sometimes written as JSON-encoded strings by the uploader
+const parseJsonColumn = (value: unknown, field: string, report: IssueReporter): Record<string, unknown> | null => {
+  if (value === null || value === undefined || value === '') return null;
+
+  let parsed = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      report(field, 'Value is a string that is not valid JSON', 'error');
+      return null;
+    }
+  }
+
+  if (!isRecord(parsed)) {
+    report(field, `Expected an object but got ${Array.isArray(parsed) ? 'an array' : typeof parsed}`, 'error');
+    return null;
+  }
+  return parsed;
+};
+
+const parseTripleList = (value: unknown, field: string, report: IssueReporter): RGBTriple[] | undefined => {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) {
+    report(field, 'Expected a list of [R, G, B] values', 'error');
+    return undefined;
+  }
+
+  const triples = value.filter(isTriple);
+  if (triples.length !== value.length) {
+    report(field, `${value.length - triples.length} entries are not numeric [R, G, B] triples`, 'error');
+    return undefined;
+  }
+  return triples;
+};
+
+export const parseTestResults = (value: unknown, report: IssueReporter = () => {}): DeviceTestResults | null => {
+  const raw = parseJsonColumn(value, 'test_results', report);
+  if (!raw) return null;
+
+  const results: DeviceTestResults = {};
+  for (const key of TRIPLE_FIELDS) {
+    const triples = parseTripleList(raw[key], `test_results.${key}`, report);
+    if (triples) results[key] = triples;
+  }
+
+  if (raw.result !== undefined) {
+    if (Array.isArray(raw.result) && raw.result.every(samples => Array.isArray(samples) && samples.every(isTriple))) {
+      results.result = raw.result as RGBTriple[][];
+    } else {
+      report('test_results.result', 'Expected a list of sample [R, G, B] lists per image', 'error');
+    }
+  }
+
+  if (!results.mean) {
+    report('test_results', 'No per-image mean values', 'error');
+  } else {
+    const expected = results.mean.length;
+    for (const key of TRIPLE_FIELDS) {
+      const length = results[key]?.length;
+      if (length !== undefined && length !== expected) {
+        report(`test_results.${key}`, `Has ${length} entries but mean has ${expected}`, 'warning');
+      }
+    }
+  }
+
+  return results;
+};
+
+const optionalString = (raw: Record<string, unknown>, key: string, report: IssueReporter) => {
+  const value = raw[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'string') return value;
+  report(`metadata.${key}`, `Expected a string but got ${typeof value}`, 'warning');
+  return undefined;
+};
+
+const optionalStringList = (raw: Record<string, unknown>, key: string, report: IssueReporter) => {
+  const value = raw[key];
+  if (value === undefined || value === null) return undefined;
+  if (Array.isArray(value) && value.every(item => typeof item === 'string')) return value as string[];
+  report(`metadata.${key}`, 'Expected a list of strings', 'warning');
+  return undefined;
+};
+
+// Storage layout is <device_id>/<folder_name>/<file>; older rows only store the file name
+export const resolveImageUrl = (image: string, deviceId: string | null, folderName: string) => {
+  if (/^https?:\/\//i.test(image)) return image;
+  const path = deviceId ? `${deviceId}/${folderName}/${image}` : `${folderName}/${image}`;
+  return supabase.storage.from(IMAGES_BUCKET).getPublicUrl(path).data.publicUrl;
+};
+
+const parseMetadata = (
+  value: unknown,
+  deviceId: string | null,
+  folderName: string,
+  report: IssueReporter
+): DeviceTestMetadata | null => {
+  const raw = parseJsonColumn(value, 'metadata', report);
+  if (!raw) return null;
+
+  const totalImages = raw.total_images;
+  if (totalImages !== undefined && typeof totalImages !== 'number') {
+    report('metadata.total_images', `Expected a number but got ${typeof totalImages}`, 'warning');
+  }
+
+  return {
+    device_id: optionalString(raw, 'device_id', report),
+    image_urls: optionalStringList(raw, 'image_urls', report)?.map(image => resolveImageUrl(image, deviceId, folderName)),
+    device_name: optionalString(raw, 'device_name', report),
+    device_type: optionalString(raw, 'device_type', report),
+    folder_hash: optionalString(raw, 'folder_hash', report),
+    total_images: typeof totalImages === 'number' ? totalImages : undefined,
+    files_processed: optionalStringList(raw, 'files_processed', report),
+    upload_timestamp: optionalString(raw, 'upload_timestamp', report)
+  };
+};
+
+const parseImages = (value: unknown, deviceId: string | null, folderName: string, report: IssueReporter) => {
+  if (value === null || value === undefined) return [];
+  if (!Array.isArray(value)) {
+    report('images', 'Expected a list of image names or URLs', 'error');
+    return [];
+  }
+
+  const images = value.filter((image): image is string => typeof image === 'string' && image.trim() !== '');
+  if (images.length !== value.length) {
+    report('images', `${value.length - images.length} entries are empty or not strings`, 'warning');
+  }
+  return images.map(image => resolveImageUrl(image.trim(), deviceId, folderName));
+};
+
+// Turn a raw device_test row into a consistent DeviceTest, collecting anything
+// that had to be dropped or corrected along the way
+export const normalizeDeviceTest = (row: Record<string, unknown>): { deviceTest: DeviceTest; issues: DeviceTestDataIssue[] } => {
+  const issues: DeviceTestDataIssue[] = [];
+  const id = typeof row.id === 'string' ? row.id : '';
+  const folderName = typeof row.folder_name === 'string' ? row.folder_name : '';
+  const deviceId = typeof row.device_id === 'string' ? row.device_id : null;
+
+  const report: IssueReporter = (field, message, severity = 'error') => {
+    issues.push({ test_id: id, folder_name: folderName, device_id: deviceId, field, message, severity });
+  };
+
+  if (!folderName) report('folder_name', 'Missing folder name');
+  if (!deviceId) report('device_id', 'Not linked to a device', 'warning');
+
+  let status: DeviceTestStatus | null = null;
+  if (row.test_status !== null && row.test_status !== undefined) {
+    if (VALID_STATUSES.includes(row.test_status as DeviceTestStatus)) {
+      status = row.test_status as DeviceTestStatus;
+    } else {
+      report('test_status', `Unknown status "${String(row.test_status)}"`, 'warning');
+    }
+  }
+
+  const testResults = parseTestResults(row.test_results, report);
+  const images = parseImages(row.images, deviceId, folderName, report);
+  const metadata = parseMetadata(row.metadata, deviceId, folderName, report);
+
+  if (testResults?.mean && images.length > 0 && images.length !== testResults.mean.length) {
+    report('images', `${images.length} images but statistics for ${testResults.mean.length}`, 'warning');
+  }
+
+  const deviceTest: DeviceTest = {
+    ...(row as unknown as DeviceTest),
+    folder_name: folderName,
+    device_id: deviceId,
+    images,
+    test_results: testResults,
+    test_status: status,
+    metadata
+  };
+
+  return { deviceTest, issues };
+};
+
+export const normalizeDeviceTests = (rows: Record<string, unknown>[] | null) =>
+  (rows || []).map(row => normalizeDeviceTest(row).deviceTest);
@@ -0,0 +1,706 @@
+import supabase from '../supabase';
+import { IMAGES_BUCKET, normalizeDeviceTest, normalizeDeviceTests, parseTestResults, resolveImageUrl } from './device_test.parser';
+import type { BatchSummary, CertificateSnapshot, DeviceColourDrift, DeviceTest, DeviceTestCertificate, DeviceTestComparisonResult, DeviceTestFilters, DeviceTestQualityEntry, DeviceTestResults, DriftSnapshot, ImageChannelStats, ImportTestFolderData, ImportTestFolderPreview, ReviewDeviceTestData, PaginationParams, PaginatedResponse, RGBTriple } from './device_test.type';
+import { CERTIFIABLE_STATUSES } from './device_test.type';
+
+const TABLE_NAME = 'device_test';
+const CERTIFICATES_TABLE = 'device_test_certificates';
+
+// Left embed: batches whose device link is missing or broken still load, with a
+// null device, so they can be shown as unlinked instead of disappearing
+const SELECT_WITH_DEVICE = `
+  *,
+  device:devices(id, device_name, serial_number, company_id, organization:company_details(id, name))
+`;
+
+// Filtering on device columns needs the inner join; unlinked batches belong to no organization
+const SELECT_WITH_LINKED_DEVICE = `
+  *,
+  device:devices!inner(id, device_name, serial_number, company_id, organization:company_details(id, name))
+`;
+
+const STATS_FILE_NAME = 'stats.json';
+const IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'bmp', 'gif', 'webp', 'tif', 'tiff'];
+
+const MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  bmp: 'image/bmp',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  pdf: 'application/pdf',
+  json: 'application/json'
+};
+
+const EMPTY_TRIPLE: RGBTriple = [0, 0, 0];
+
+const getExtension = (name: string) => name.split('.').pop()?.toLowerCase() || '';
+
+const isImageFile = (name: string) => IMAGE_EXTENSIONS.includes(getExtension(name));
+
+const STORAGE_LIST_PAGE_SIZE = 100;
+
+// Names of every object directly under prefix; list() returns one page at a time
+const listStoredFiles = async (prefix: string): Promise<string[]> => {
+  const names: string[] = [];
+  for (let offset = 0; ; offset += STORAGE_LIST_PAGE_SIZE) {
+    const { data, error } = await supabase.storage
+      .from(IMAGES_BUCKET)
+      .list(prefix, { limit: STORAGE_LIST_PAGE_SIZE, offset });
+    if (error) throw error;
+    names.push(...(data || []).map(stored => stored.name));
+    if (!data || data.length < STORAGE_LIST_PAGE_SIZE) return names;
+  }
+};
+
+// Folder drops carry the relative path on `path` (react-dropzone) or `webkitRelativePath`
+const getRelativePath = (file: File) => {
+  const path = (file as File & { path?: string }).path || file.webkitRelativePath || file.name;
+  return path.replace(/^\.?\/+/, '');
+};
+
+// Skip OS metadata such as __MACOSX/ entries and .DS_Store
+const isJunkPath = (path: string) =>
+  path.split('/').some(segment => segment.startsWith('.') || segment === '__MACOSX');
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+interface DriftDeviceRow {
+  id: string;
+  device_name: string;
+  serial_number?: string;
+  company_id: string;
+  organization?: { name: string } | null;
+}
+
+const averageTriples = (triples: RGBTriple[]): RGBTriple => {
+  const sum = triples.reduce<RGBTriple>(
+    (acc, triple) => [acc[0] + triple[0], acc[1] + triple[1], acc[2] + triple[2]],
+    [0, 0, 0]
+  );
+  return [sum[0] / triples.length, sum[1] / triples.length, sum[2] / triples.length];
+};
+
+export const deviceTestService = {
+  // Flatten the per-statistic arrays of test_results into one entry per image
+  getImageStats(deviceTest: DeviceTest): ImageChannelStats[] {
+    const results = deviceTest.test_results;
+    if (!results?.mean) return [];
+
+    return results.mean.map((mean, index) => {
+      const image = deviceTest.images?.[index];
+      const fileName = image ? decodeURIComponent(image.split('/').pop() || image) : null;
+
+      return {
+        index,
+        label: fileName || `Image ${index + 1}`,
+        mean,
+        min: results.min?.[index] || EMPTY_TRIPLE,
+        max: results.max?.[index] || EMPTY_TRIPLE,
+        range: results.range?.[index] || EMPTY_TRIPLE,
+        variance: results.variance?.[index] || EMPTY_TRIPLE,
+        standardDeviation: results['standard deviation']?.[index] || EMPTY_TRIPLE,
+        samples: results.result?.[index] || []
+      };
+    });
+  },
+
+  // Average the per-image statistics into one reading for the whole batch
+  getBatchSummary(deviceTest: DeviceTest): BatchSummary | null {
+    const imageStats = this.getImageStats(deviceTest);
+    if (imageStats.length === 0) return null;
+
+    return {
+      mean: averageTriples(imageStats.map(stats => stats.mean)),
+      variance: averageTriples(imageStats.map(stats => stats.variance)),
+      standardDeviation: averageTriples(imageStats.map(stats => stats.standardDeviation)),
+      imageCount: imageStats.length
+    };
+  },
+
+  compareDeviceTests(before: DeviceTest, after: DeviceTest, tolerance: number): DeviceTestComparisonResult {
+    const beforeSummary = this.getBatchSummary(before);
+    const afterSummary = this.getBatchSummary(after);
+
+    if (!beforeSummary || !afterSummary) {
+      return { before: beforeSummary, after: afterSummary, delta: null, distance: null, withinTolerance: null };
+    }
+
+    const subtract = (a: RGBTriple, b: RGBTriple): RGBTriple => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+    const delta = {
+      mean: subtract(afterSummary.mean, beforeSummary.mean),
+      variance: subtract(afterSummary.variance, beforeSummary.variance),
+      standardDeviation: subtract(afterSummary.standardDeviation, beforeSummary.standardDeviation)
+    };
+
+    return {
+      before: beforeSummary,
+      after: afterSummary,
+      delta,
+      distance: Math.sqrt(delta.mean[0] ** 2 + delta.mean[1] ** 2 + delta.mean[2] ** 2),
+      withinTolerance: delta.mean.every(value => Math.abs(value) <= tolerance)
+    };
+  },
+
+  // Processed reports (PDFs) are stored next to the images of the batch
+  getProcessedDocuments(deviceTest: DeviceTest): { name: string; url: string }[] {
+    return (deviceTest.metadata?.files_processed || [])
+      .filter(file => getExtension(file) === 'pdf')
+      .map(file => ({ name: file, url: resolveImageUrl(file, deviceTest.device_id, deviceTest.folder_name) }));
+  },
+
+  async buildImagesZip(deviceTest: DeviceTest, onProgress?: (done: number, total: number) => void): Promise<Blob> {
+    const { default: JSZip } = await import('jszip');
+    const zip = new JSZip();
+    const folder = zip.folder(deviceTest.folder_name) || zip;
+    const files = [
+      ...deviceTest.images,
+      ...this.getProcessedDocuments(deviceTest).map(document => document.url)
+    ];
+
+    for (let i = 0; i < files.length; i++) {
+      const response = await fetch(files[i]);
+      if (!response.ok) {
+        throw new Error(`Failed to download ${files[i]} (${response.status})`);
+      }
+      const name = decodeURIComponent(files[i].split('/').pop() || `file-${i + 1}`);
+      folder.file(name, await response.blob());
+      onProgress?.(i + 1, files.length);
+    }
+
+    return zip.generateAsync({ type: 'blob' });
+  },
+
+  // Flatten dropped files and zip archives into the files of a single test folder
+  async expandImportFiles(files: File[]): Promise<{ folderName: string; files: File[] }> {
+    const expanded: File[] = [];
+    let folderName = '';
+
+    for (const file of files) {
+      const relativePath = getRelativePath(file);
+      if (isJunkPath(relativePath)) continue;
+
+      if (getExtension(file.name) === 'zip') {
+        const { default: JSZip } = await import('jszip');
+        const zip = await JSZip.loadAsync(file);
+        const entries = Object.values(zip.files).filter(entry => !entry.dir && !isJunkPath(entry.name));
+
+        for (const entry of entries) {
+          const name = entry.name.split('/').pop() || entry.name;
+          const blob = await entry.async('blob');
+          expanded.push(new File([blob], name, { type: MIME_TYPES[getExtension(name)] || blob.type }));
+          if (!folderName && entry.name.includes('/')) folderName = entry.name.split('/')[0];
+        }
+        if (!folderName) folderName = file.name.replace(/\.zip$/i, '');
+        continue;
+      }
+
+      if (!folderName && relativePath.includes('/')) folderName = relativePath.split('/')[0];
+      expanded.push(file);
+    }
+
+    return { folderName, files: expanded };
+  },
+
+  // Hash of every file name and its contents, independent of drop order
+  async computeFolderHash(files: File[]): Promise<string> {
+    const sorted = [...files].sort((a, b) => a.name.localeCompare(b.name));
+    const lines: string[] = [];
+    for (const file of sorted) {
+      const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+      lines.push(`${file.name}:${toHex(digest)}`);
+    }
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(lines.join('\n')));
+    return toHex(digest);
+  },
+
+  async parseStatsFile(file: File): Promise<DeviceTestResults> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch {
+      throw new Error(`${STATS_FILE_NAME} is not valid JSON`);
+    }
+
+    const results = parsed as DeviceTestResults;
+    if (!results || typeof results !== 'object' || !Array.isArray(results.mean)) {
+      throw new Error(`${STATS_FILE_NAME} does not contain per-image mean values`);
+    }
+    return results;
+  },
+
+  async prepareImport(files: File[], folderName: string): Promise<ImportTestFolderPreview> {
+    const statsFile = files.find(file => file.name.toLowerCase() === STATS_FILE_NAME);
+    let stats: DeviceTestResults | null = null;
+    let statsError: string | null = null;
+
+    if (statsFile) {
+      try {
+        stats = await this.parseStatsFile(statsFile);
+      } catch (err) {
+        statsError = err instanceof Error ? err.message : `Failed to read ${STATS_FILE_NAME}`;
+      }
+    } else {
+      statsError = `${STATS_FILE_NAME} not found in folder`;
+    }
+
+    return {
+      folder_name: folderName,
+      files,
+      images: files.filter(file => isImageFile(file.name)),
+      documents: files.filter(file => getExtension(file.name) === 'pdf'),
+      stats,
+      statsError,
+      folder_hash: await this.computeFolderHash(files)
+    };
+  },
+
+  async getByFolder(deviceId: string, folderName: string): Promise<DeviceTest | null> {
+    const { data, error } = await supabase
+      .from(TABLE_NAME)
+      .select(SELECT_WITH_DEVICE)
+      .eq('device_id', deviceId)
+      .eq('folder_name', folderName)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? normalizeDeviceTest(data).deviceTest : null;
+  },
+
+  // Upload a test folder to storage and record it in device_test. Re-importing
+  // replaces the stored files and overwrites the existing row for that folder.
+  // A fresh import claims the folder's row before uploading, so of two racing
+  // imports only the one holding the row writes to storage; objects left by an
+  // earlier failed import are overwritten or pruned once the row is saved.
+  async importFolder(
+    data: ImportTestFolderData,
+    options: { reimport?: boolean; onProgress?: (uploaded: number, total: number) => void } = {}
+  ): Promise<DeviceTest> {
+    const folderName = data.folder_name.trim();
+    if (!folderName) throw new Error('Folder name is required');
+
+    const existing = await this.getByFolder(data.device_id, folderName);
+    if (existing && !options.reimport) {
+      throw new Error(`Folder "${folderName}" has already been imported for this device`);
+    }
+
+    const preview = await this.prepareImport(data.files, folderName);
+    const uploads = [...preview.images, ...preview.documents];
+    const storagePrefix = `${data.device_id}/${folderName}`;
+
+    const { data: device, error: deviceError } = await supabase
+      .from('devices')
+      .select('device_name')
+      .eq('id', data.device_id)
+      .single();
+    if (deviceError) throw deviceError;
+
+    const now = new Date().toISOString();
+    const uploadBatch = data.upload_batch || `batch_${Math.floor(Date.now() / 1000)}`;
+
+    let testId = existing?.id;
+    if (!testId) {
+      // unique_folder_device: the insert fails if another import already holds the folder
+      const { data: claimed, error: claimError } = await supabase
+        .from(TABLE_NAME)
+        .insert([{
+          folder_name: folderName,
+          device_id: data.device_id,
+          images: [],
+          test_date: now,
+          test_status: 'incomplete',
+          upload_batch: uploadBatch,
+          notes: 'Import in progress',
+          data_type: 'image_analysis'
+        }])
+        .select('id')
+        .single();
+
+      if (claimError) {
+        if (claimError.code === '23505') {
+          throw new Error(`Folder "${folderName}" has already been imported for this device`);
+        }
+        throw claimError;
+      }
+      testId = claimed.id as string;
+    }
+
+    // A fresh import that fails gives up its claim and leaves nothing behind in storage
+    const uploadedPaths: string[] = [];
+    const abandonImport = async () => {
+      if (existing) return;
+      if (uploadedPaths.length > 0) {
+        const { error: removeError } = await supabase.storage.from(IMAGES_BUCKET).remove(uploadedPaths);
+        if (removeError) console.error('Failed to remove files of a failed import:', removeError);
+      }
+      const { error: releaseError } = await supabase.from(TABLE_NAME).delete().eq('id', testId);
+      if (releaseError) console.error('Failed to release the row of a failed import:', releaseError);
+    };
+
+    const imageUrls: string[] = [];
+    for (let i = 0; i < uploads.length; i++) {
+      const file = uploads[i];
+      const filePath = `${storagePrefix}/${file.name}`;
+      // This import holds the folder's row, so objects already at the path are
+      // either being replaced or leftovers of a failed import
+      const { error: uploadError } = await supabase.storage
+        .from(IMAGES_BUCKET)
+        .upload(filePath, file, {
+          cacheControl: '3600',
+          contentType: file.type || MIME_TYPES[getExtension(file.name)],
+          upsert: true
+        });
+      if (uploadError) {
+        await abandonImport();
+        throw uploadError;
+      }
+      uploadedPaths.push(filePath);
+
+      if (isImageFile(file.name)) {
+        const { data: { publicUrl } } = supabase.storage.from(IMAGES_BUCKET).getPublicUrl(filePath);
+        imageUrls.push(publicUrl);
+      }
+      options.onProgress?.(i + 1, uploads.length);
+    }
+
+    const record = {
+      folder_name: folderName,
+      images: imageUrls,
+      device_id: data.device_id,
+      test_results: preview.stats,
+      test_date: now,
+      test_status: preview.stats ? 'pending' : 'incomplete',
+      upload_batch: uploadBatch,
+      notes: data.notes || (preview.statsError ? `Imported without statistics: ${preview.statsError}` : null),
+      data_type: 'image_analysis',
+      metadata: {
+        device_id: data.device_id,
+        image_urls: imageUrls,
+        device_name: device?.device_name,
+        folder_hash: preview.folder_hash,
+        total_images: imageUrls.length,
+        files_processed: preview.files.map(file => file.name),
+        upload_timestamp: now
+      }
+    };
+
+    const { data: saved, error } = await supabase
+      .from(TABLE_NAME)
+      .update(record)
+      .eq('id', testId)
+      .select(SELECT_WITH_DEVICE)
+      .single();
+
+    if (error) {
+      await abandonImport();
+      throw error;
+    }
+
+    // Only once the row points at the new files: remove objects from a previous
+    // (or failed) import that are no longer part of the folder
+    const uploadedNames = new Set(uploads.map(file => file.name));
+    const stale = (await listStoredFiles(storagePrefix))
+      .filter(name => !uploadedNames.has(name))
+      .map(name => `${storagePrefix}/${name}`);
+    if (stale.length > 0) {
+      const { error: pruneError } = await supabase.storage.from(IMAGES_BUCKET).remove(stale);
+      if (pruneError) {
+        throw new Error(`Folder "${folderName}" was imported, but ${stale.length} old file(s) could not be removed: ${pruneError.message}`);
+      }
+    }
+
+    return normalizeDeviceTest(saved).deviceTest;
+  },
+
+  async getPaginated(filters?: DeviceTestFilters, pagination?: PaginationParams): Promise<PaginatedResponse<DeviceTest>> {
+    const page = pagination?.page || 1;
+    const pageSize = pagination?.pageSize || 20;
+    const from = (page - 1) * pageSize;
+    const to = from + pageSize - 1;
+
+    let query = supabase
+      .from(TABLE_NAME)
+      .select(filters?.company_id ? SELECT_WITH_LINKED_DEVICE : SELECT_WITH_DEVICE, { count: 'exact' });
+
+    // Apply filters
+    if (filters?.search) {
+      query = query.or(`folder_name.ilike.%${filters.search}%,upload_batch.ilike.%${filters.search}%,notes.ilike.%${filters.search}%`);
+    }
+    if (filters?.device_id) {
+      query = query.eq('device_id', filters.device_id);
+    }
+    if (filters?.company_id) {
+      query = query.eq('device.company_id', filters.company_id);
+    }
+    if (filters?.test_status) {
+      query = query.eq('test_status', filters.test_status);
+    }
+    if (filters?.test_statuses && filters.test_statuses.length > 0) {
+      query = query.in('test_status', filters.test_statuses);
+    }
+    if (filters?.data_type) {
+      query = query.eq('data_type', filters.data_type);
+    }
+    if (filters?.upload_batch) {
+      query = query.ilike('upload_batch', `%${filters.upload_batch}%`);
+    }
+    if (filters?.date_from) {
+      query = query.gte('test_date', filters.date_from);
+    }
+    if (filters?.date_to) {
+      query = query.lte('test_date', `${filters.date_to}T23:59:59.999Z`);
+    }
+
+    const { data, error, count } = await query
+      .order('test_date', { ascending: filters?.sort === 'oldest', nullsFirst: false })
+      .range(from, to);
+
+    if (error) throw error;
+
+    const totalCount = count || 0;
+    const totalPages = Math.ceil(totalCount / pageSize);
+
+    return {
+      data: normalizeDeviceTests(data),
+      totalCount,
+      page,
+      pageSize,
+      totalPages
+    };
+  },
+
+  async reviewDeviceTest(data: ReviewDeviceTestData): Promise<DeviceTest> {
+    const { data: updated, error } = await supabase
+      .from(TABLE_NAME)
+      .update({
+        test_status: data.test_status,
+        notes: data.notes,
+        reviewed_by: data.reviewer.id,
+        reviewed_by_name: data.reviewer.name,
+        reviewed_at: new Date().toISOString()
+      })
+      .eq('id', data.id)
+      .select(SELECT_WITH_DEVICE)
+      .single();
+
+    if (error) throw error;
+    return normalizeDeviceTest(updated).deviceTest;
+  },
+
+  async getCertificate(deviceTestId: string): Promise<DeviceTestCertificate | null> {
+    const { data, error } = await supabase
+      .from(CERTIFICATES_TABLE)
+      .select('*')
+      .eq('device_test_id', deviceTestId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Issue the certificate once; later calls return the stored one unchanged
+  async issueCertificate(deviceTest: DeviceTest, issuer: { id: string; name: string }): Promise<DeviceTestCertificate> {
+    const existing = await this.getCertificate(deviceTest.id);
+    if (existing) return existing;
+
+    if (!deviceTest.test_status || !CERTIFIABLE_STATUSES.includes(deviceTest.test_status)) {
+      throw new Error('Only passed or failed batches can be certified. Review the batch first.');
+    }
+
+    let device = null;
+    if (deviceTest.device_id) {
+      const { data, error } = await supabase
+        .from('devices')
+        .select('device_name, make, model, serial_number, mac_address, organization:company_details(*)')
+        .eq('id', deviceTest.device_id)
+        .single();
+      if (error) throw error;
+      device = data;
+    }
+
+    const organization = device?.organization as Record<string, string | null> | null | undefined;
+    const imageStats = this.getImageStats(deviceTest);
+
+    const snapshot: CertificateSnapshot = {
+      organization: organization ? {
+        name: organization.name || '',
+        legal_name: organization.legal_name,
+        gst_number: organization.gst_number,
+        email: organization.email,
+        phone: organization.phone,
+        address: [
+          organization.address_line1,
+          organization.address_line2,
+          organization.city,
+          organization.state,
+          organization.postal_code,
+          organization.country
+        ].filter(Boolean).join(', ')
+      } : null,
+      device: device ? {
+        device_name: device.device_name,
+        make: device.make,
+        model: device.model,
+        serial_number: device.serial_number,
+        mac_address: device.mac_address
+      } : null,
+      test: {
+        id: deviceTest.id,
+        folder_name: deviceTest.folder_name,
+        upload_batch: deviceTest.upload_batch,
+        test_date: deviceTest.test_date,
+        test_status: deviceTest.test_status,
+        notes: deviceTest.notes,
+        folder_hash: deviceTest.metadata?.folder_hash,
+        reviewed_by_name: deviceTest.reviewed_by_name,
+        reviewed_at: deviceTest.reviewed_at
+      },
+      summary: this.getBatchSummary(deviceTest),
+      images: deviceTest.images.map((url, index) => ({ url, stats: imageStats[index] || null }))
+    };
+
+    const { data, error } = await supabase
+      .from(CERTIFICATES_TABLE)
+      .insert([{
+        device_test_id: deviceTest.id,
+        issued_by: issuer.id,
+        issued_by_name: issuer.name,
+        snapshot
+      }])
+      .select('*')
+      .single();
+
+    if (error) {
+      // Someone else issued it at the same time; use theirs
+      if (error.code === '23505') {
+        const issued = await this.getCertificate(deviceTest.id);
+        if (issued) return issued;
+      }
+      throw error;
+    }
+    return data;
+  },
+
+  async getById(id: string): Promise<DeviceTest | null> {
+    const { data, error } = await supabase
+      .from(TABLE_NAME)
+      .select(SELECT_WITH_DEVICE)
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return null;
+      throw error;
+    }
+    return normalizeDeviceTest(data).deviceTest;
+  },
+
+  // Baseline-to-latest drift of every device with at least two analysed batches,
+  // largest first; callers apply their own threshold
+  async getColourDrift(): Promise<DeviceColourDrift[]> {
+    const batchSize = 1000;
+    const snapshotsByDevice = new Map<string, { device: DriftDeviceRow; snapshots: DriftSnapshot[] }>();
+
+    // Paged so PostgREST's row limit cannot drop a device's later batches
+    for (let from = 0; ; from += batchSize) {
+      const { data, error } = await supabase
+        .from(TABLE_NAME)
+        .select(`
+          id, folder_name, test_date, created_at, test_results,
+          device:devices!inner(id, device_name, serial_number, company_id, archived, organization:company_details(name))
+        `)
+        .eq('device.archived', false)
+        .order('test_date', { ascending: true, nullsFirst: false })
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + batchSize - 1);
+
+      if (error) throw error;
+
+      for (const row of data || []) {
+        const means = parseTestResults(row.test_results)?.mean;
+        if (!means || means.length === 0) continue;
+
+        const device = row.device as unknown as DriftDeviceRow;
+        const entry = snapshotsByDevice.get(device.id) || { device, snapshots: [] };
+        entry.snapshots.push({
+          test_id: row.id,
+          folder_name: row.folder_name,
+          test_date: row.test_date || row.created_at,
+          mean: averageTriples(means)
+        });
+        snapshotsByDevice.set(device.id, entry);
+      }
+
+      if (!data || data.length < batchSize) break;
+    }
+
+    const drifts: DeviceColourDrift[] = [];
+    snapshotsByDevice.forEach(({ device, snapshots }) => {
+      if (snapshots.length < 2) return;
+
+      const baseline = snapshots[0];
+      const latest = snapshots[snapshots.length - 1];
+      const delta: RGBTriple = [
+        latest.mean[0] - baseline.mean[0],
+        latest.mean[1] - baseline.mean[1],
+        latest.mean[2] - baseline.mean[2]
+      ];
+      drifts.push({
+        device_id: device.id,
+        device_name: device.device_name,
+        serial_number: device.serial_number,
+        company_id: device.company_id,
+        organization_name: device.organization?.name || 'Unknown',
+        baseline,
+        latest,
+        delta,
+        deviation: Math.sqrt(delta[0] ** 2 + delta[1] ** 2 + delta[2] ** 2),
+        batch_count: snapshots.length
+      });
+    });
+
+    return drifts.sort((a, b) => b.deviation - a.deviation);
+  },
+
+  async getByDeviceId(deviceId: string): Promise<DeviceTest[]> {
+    const { data, error } = await supabase
+      .from(TABLE_NAME)
+      .select(SELECT_WITH_DEVICE)
+      .eq('device_id', deviceId)
+      .order('test_date', { ascending: true, nullsFirst: false });
+
+    if (error) throw error;
+    return normalizeDeviceTests(data);
+  },
+
+  // Scan every row (including ones without a device) and return those the
+  // parser had to correct or could not read
+  async getDataQualityIssues(): Promise<DeviceTestQualityEntry[]> {
+    const batchSize = 1000;
+    const entries: DeviceTestQualityEntry[] = [];
+
+    for (let from = 0; ; from += batchSize) {
+      const { data, error } = await supabase
+        .from(TABLE_NAME)
+        .select('*, device:devices(id, device_name, serial_number, company_id)')
+        .order('created_at', { ascending: false })
+        .range(from, from + batchSize - 1);
+
+      if (error) throw error;
+
+      for (const row of data || []) {
+        const entry = normalizeDeviceTest(row);
+        if (entry.issues.length > 0) entries.push(entry);
+      }
+
+      if (!data || data.length < batchSize) break;
+    }
+
+    return entries;
+  }
+};
@@ -0,0 +1,238 @@
+export type DeviceTestStatus = "pending" | "passed" | "failed" | "incomplete";
+
+export type RGBTriple = [number, number, number];
+
+export interface DeviceTestResults {
+  max?: RGBTriple[];
+  min?: RGBTriple[];
+  mean?: RGBTriple[];
+  range?: RGBTriple[];
+  result?: RGBTriple[][];
+  variance?: RGBTriple[];
+  "standard deviation"?: RGBTriple[];
+}
+
+export interface ImageChannelStats {
+  index: number;
+  label: string;
+  mean: RGBTriple;
+  min: RGBTriple;
+  max: RGBTriple;
+  range: RGBTriple;
+  variance: RGBTriple;
+  standardDeviation: RGBTriple;
+  samples: RGBTriple[];
+}
+
+export interface DriftSnapshot {
+  test_id: string;
+  folder_name: string;
+  test_date: string | null;
+  mean: RGBTriple; // Mean RGB averaged across all images in the batch
+}
+
+export interface DeviceColourDrift {
+  device_id: string;
+  device_name: string;
+  serial_number?: string;
+  company_id: string;
+  organization_name: string;
+  baseline: DriftSnapshot;
+  latest: DriftSnapshot;
+  delta: RGBTriple; // latest - baseline, per channel
+  deviation: number; // Euclidean distance between latest and baseline means
+  batch_count: number;
+}
+
+export interface BatchSummary {
+  mean: RGBTriple;
+  variance: RGBTriple;
+  standardDeviation: RGBTriple;
+  imageCount: number;
+}
+
+export interface DeviceTestComparisonResult {
+  before: BatchSummary | null;
+  after: BatchSummary | null;
+  delta: { mean: RGBTriple; variance: RGBTriple; standardDeviation: RGBTriple } | null;
+  distance: number | null; // Euclidean distance between the batch means
+  withinTolerance: boolean | null; // null when either batch has no statistics
+}
+
+export interface DeviceTestMetadata {
+  device_id?: string;
+  image_urls?: string[];
+  device_name?: string;
+  device_type?: string;
+  folder_hash?: string;
+  total_images?: number;
+  files_processed?: string[];
+  upload_timestamp?: string;
+}
+
+export interface DeviceTest {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  folder_name: string;
+  images: string[];
+  device_id: string | null;
+  device_name: string | null;
+  device_type: string | null;
+  test_results: DeviceTestResults | null;
+  test_date: string | null;
+  test_status: DeviceTestStatus | null;
+  upload_batch: string | null;
+  notes: string | null;
+  metadata: DeviceTestMetadata | null;
+  data: unknown;
+  data_type: string | null;
+  reviewed_by?: string | null;
+  reviewed_by_name?: string | null;
+  reviewed_at?: string | null;
+  // Related data; null when device_id is missing or points at no device
+  device?: {
+    id: string;
+    device_name: string;
+    serial_number?: string;
+    company_id: string;
+    organization?: { id: string; name: string } | null;
+  } | null;
+}
+
+export interface ReviewDeviceTestData {
+  id: string;
+  test_status: DeviceTestStatus;
+  notes: string | null;
+  reviewer: { id: string; name: string };
+}
+
+export interface CertificateSnapshot {
+  organization: {
+    name: string;
+    legal_name?: string | null;
+    gst_number?: string | null;
+    email?: string | null;
+    phone?: string | null;
+    address: string;
+  } | null;
+  device: {
+    device_name: string;
+    make?: string | null;
+    model?: string | null;
+    serial_number?: string | null;
+    mac_address?: string | null;
+  } | null;
+  test: {
+    id: string;
+    folder_name: string;
+    upload_batch: string | null;
+    test_date: string | null;
+    test_status: DeviceTestStatus | null;
+    notes: string | null;
+    folder_hash?: string;
+    reviewed_by_name?: string | null;
+    reviewed_at?: string | null;
+  };
+  summary: BatchSummary | null;
+  images: { url: string; stats: ImageChannelStats | null }[];
+}
+
+export interface DeviceTestCertificate {
+  id: string;
+  device_test_id: string;
+  sequence_no: number;
+  certificate_no: string;
+  issued_at: string;
+  issued_by: string | null;
+  issued_by_name: string | null;
+  snapshot: CertificateSnapshot;
+  created_at: string;
+}
+
+export interface DeviceTestDataIssue {
+  test_id: string;
+  folder_name: string;
+  device_id: string | null;
+  field: string;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+export interface DeviceTestQualityEntry {
+  deviceTest: DeviceTest;
+  issues: DeviceTestDataIssue[];
+}
+
+export interface DeviceTestFilters {
+  search?: string;
+  device_id?: string;
+  company_id?: string;
+  test_status?: string;
+  test_statuses?: DeviceTestStatus[];
+  data_type?: string;
+  upload_batch?: string;
+  date_from?: string;
+  date_to?: string;
+  sort?: 'newest' | 'oldest';
+}
+
+export interface ImportTestFolderData {
+  device_id: string;
+  folder_name: string;
+  files: File[];
+  upload_batch?: string;
+  notes?: string;
+}
+
+export interface ImportTestFolderPreview {
+  folder_name: string;
+  files: File[];
+  images: File[];
+  documents: File[];
+  stats: DeviceTestResults | null;
+  statsError: string | null;
+  folder_hash: string;
+}
+
+export interface PaginationParams {
+  page: number;
+  pageSize: number;
+}
+
+export interface PaginatedResponse<T> {
+  data: T[];
+  totalCount: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+export const TEST_STATUSES = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'passed', label: 'Passed' },
+  { value: 'failed', label: 'Failed' },
+  { value: 'incomplete', label: 'Incomplete' }
+] as const;
+
+// Statuses that still need a reviewer's decision
+export const REVIEW_QUEUE_STATUSES: DeviceTestStatus[] = ['pending', 'incomplete'];
+
+// Only batches with a review outcome can be certified
+export const CERTIFIABLE_STATUSES: DeviceTestStatus[] = ['passed', 'failed'];
+
+export const RGB_CHANNELS = [
+  { index: 0, label: 'Red', color: 'var(--mantine-color-red-6)' },
+  { index: 1, label: 'Green', color: 'var(--mantine-color-green-6)' },
+  { index: 2, label: 'Blue', color: 'var(--mantine-color-blue-6)' }
+] as const;
+
+// Default maximum allowed deviation (in 0-255 RGB units) before a device is flagged
+export const DEFAULT_DRIFT_THRESHOLD = 10;
+
+// Default maximum per-channel mean difference for two batches to be considered equivalent
+export const DEFAULT_COMPARISON_TOLERANCE = 5;
+
+export const TEST_DATA_TYPES = [
+  { value: 'image_analysis', label: 'Image Analysis' }
+] as const;
@@ -0,0 +1,351 @@
+import React, { useState } from 'react';
+import {
+  Paper,
+  Title,
+  Group,
+  Button,
+  TextInput,
+  Select,
+  Table,
+  Badge,
+  Modal,
+  Stack,
+  Text,
+  Pagination,
+  Loader,
+  Alert,
+  Checkbox
+} from '@mantine/core';
+import { useDisclosure } from '@mantine/hooks';
+import { DatePickerInput } from '@mantine/dates';
+import { IconSearch, IconRefresh, IconFilterOff, IconUpload, IconArrowsLeftRight } from '@tabler/icons-react';
+import { useDeviceTests } from './device_test.hook';
+import { useCompanyDevices } from '../device/device.hook';
+import { useCan } from '../auth/useCan';
+import type { DeviceTest, DeviceTestFilters } from './device_test.type';
+import { TEST_STATUSES, TEST_DATA_TYPES } from './device_test.type';
+import { DeviceTestDetail } from './DeviceTestDetail';
+import { DeviceTestImporter } from './DeviceTestImporter';
+import { DeviceTestComparison } from './DeviceTestComparison';
+
+interface DeviceTestManagementProps {
+  companyId?: string;
+  deviceId?: string;
+}
+
+export const DeviceTestManagement: React.FC<DeviceTestManagementProps> = ({ companyId, deviceId }) => {
+  const [filters, setFilters] = useState<DeviceTestFilters>({});
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(10);
+  const [selectedTest, setSelectedTest] = useState<DeviceTest | null>(null);
+  const [detailOpened, { open: openDetail, close: closeDetail }] = useDisclosure(false);
+  const [importOpened, { open: openImport, close: closeImport }] = useDisclosure(false);
+  const [compareOpened, { open: openCompare, close: closeCompare }] = useDisclosure(false);
+  // Kept across pages and filters so batches from different devices can be compared
+  const [compareSelection, setCompareSelection] = useState<DeviceTest[]>([]);
+  const can = useCan();
+
+  const { deviceTests, loading, error, refresh } = useDeviceTests(
+    { ...filters, company_id: companyId, device_id: deviceId || filters.device_id },
+    { page, pageSize }
+  );
+
+  // Device filter is only offered when browsing a whole organization
+  const { devices } = useCompanyDevices(deviceId ? undefined : companyId, { include_archived: true }, { page: 1, pageSize: 1000 });
+
+  const updateFilters = (newFilters: Partial<DeviceTestFilters>) => {
+    setFilters(prev => ({ ...prev, ...newFilters }));
+    setPage(1); // Reset to first page when filters change
+  };
+
+  const handleClearFilters = () => {
+    setFilters({});
+    setPage(1);
+  };
+
+  const handleView = (deviceTest: DeviceTest) => {
+    setSelectedTest(deviceTest);
+    openDetail();
+  };
+
+  const toggleCompare = (deviceTest: DeviceTest) => {
+    setCompareSelection(prev => {
+      if (prev.some(test => test.id === deviceTest.id)) {
+        return prev.filter(test => test.id !== deviceTest.id);
+      }
+      // Selecting a third batch replaces the oldest selection
+      return [...prev, deviceTest].slice(-2);
+    });
+  };
+
+  const getStatusColor = (status: string | null) => {
+    switch (status) {
+      case 'passed': return 'green';
+      case 'failed': return 'red';
+      case 'incomplete': return 'orange';
+      case 'pending': return 'yellow';
+      default: return 'gray';
+    }
+  };
+
+  const formatDateForFilter = (date: Date | string | null): string | undefined => {
+    if (!date) return undefined;
+    if (typeof date === 'string') return date;
+    return date.toISOString().split('T')[0];
+  };
+
+  const hasActiveFilters = Object.values(filters).some(value => value !== undefined && value !== '');
+
+  return (
+    <Stack gap="md">
+      <Paper p="md">
+        <Stack gap="md">
+          <Group justify="space-between" style={{ flexWrap: 'wrap', gap: 'md' }}>
+            <Title order={3}>Tests</Title>
+            <Group gap="sm">
+              <Button
+                leftSection={<IconRefresh size={16} />}
+                variant="subtle"
+                onClick={refresh}
+                loading={loading}
+              >
+                Refresh
+              </Button>
+              <Button
+                leftSection={<IconArrowsLeftRight size={16} />}
+                variant="outline"
+                onClick={openCompare}
+                disabled={compareSelection.length !== 2}
+              >
+                Compare ({compareSelection.length}/2)
+              </Button>
+              {can('device_test:import') && (
+                <Button
+                  leftSection={<IconUpload size={16} />}
+                  onClick={openImport}
+                >
+                  Import Folder
+                </Button>
+              )}
+            </Group>
+          </Group>
+
+          <Group gap="md" style={{ flexWrap: 'wrap' }}>
+            <TextInput
+              placeholder="Search by folder, batch or notes..."
+              leftSection={<IconSearch size={16} />}
+              value={filters.search || ''}
+              onChange={(event) => updateFilters({ search: event.currentTarget.value || undefined })}
+              style={{ flex: 1, minWidth: 220 }}
+            />
+            {!deviceId && (
+              <Select
+                placeholder="All devices"
+                data={devices.map(device => ({ value: device.id, label: device.device_name }))}
+                value={filters.device_id || null}
+                onChange={(value) => updateFilters({ device_id: value || undefined })}
+                searchable
+                clearable
+                w={180}
+              />
+            )}
+            <Select
+              placeholder="Any status"
+              data={TEST_STATUSES}
+              value={filters.test_status || null}
+              onChange={(value) => updateFilters({ test_status: value || undefined })}
+              clearable
+              w={140}
+            />
+            <Select
+              placeholder="Any data type"
+              data={TEST_DATA_TYPES}
+              value={filters.data_type || null}
+              onChange={(value) => updateFilters({ data_type: value || undefined })}
+              clearable
+              w={160}
+            />
+            <TextInput
+              placeholder="Upload batch"
+              value={filters.upload_batch || ''}
+              onChange={(event) => updateFilters({ upload_batch: event.currentTarget.value || undefined })}
+              w={160}
+            />
+            <DatePickerInput
+              type="range"
+              placeholder="Test date range"
+              value={[filters.date_from || null, filters.date_to || null]}
+              onChange={([from, to]) => updateFilters({
+                date_from: formatDateForFilter(from),
+                date_to: formatDateForFilter(to)
+              })}
+              clearable
+              w={240}
+            />
+            {hasActiveFilters && (
+              <Button
+                leftSection={<IconFilterOff size={16} />}
+                variant="outline"
+                onClick={handleClearFilters}
+              >
+                Clear
+              </Button>
+            )}
+          </Group>
+
+          {error && <Alert color="red" title="Error">{error}</Alert>}
+
+          <div style={{ overflowX: 'auto' }}>
+            <Table striped highlightOnHover style={{ minWidth: '800px' }}>
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th w={40} />
+                  <Table.Th>Folder</Table.Th>
+                  {!deviceId && <Table.Th>Device</Table.Th>}
+                  <Table.Th>Test Date</Table.Th>
+                  <Table.Th>Data Type</Table.Th>
+                  <Table.Th>Images</Table.Th>
+                  <Table.Th>Status</Table.Th>
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {loading ? (
+                  <Table.Tr>
+                    <Table.Td colSpan={7} style={{ textAlign: 'center', padding: '2rem' }}>
+                      <Loader size="md" />
+                    </Table.Td>
+                  </Table.Tr>
+                ) : deviceTests.data.length === 0 ? (
+                  <Table.Tr>
+                    <Table.Td colSpan={7} style={{ textAlign: 'center', padding: '2rem', color: 'var(--mantine-color-dimmed)' }}>
+                      No test batches found
+                    </Table.Td>
+                  </Table.Tr>
+                ) : (
+                  deviceTests.data.map((deviceTest) => (
+                    <Table.Tr key={deviceTest.id} style={{ cursor: 'pointer' }} onClick={() => handleView(deviceTest)}>
+                      <Table.Td onClick={(event) => event.stopPropagation()}>
+                        <Checkbox
+                          aria-label="Select for comparison"
+                          checked={compareSelection.some(test => test.id === deviceTest.id)}
+                          onChange={() => toggleCompare(deviceTest)}
+                        />
+                      </Table.Td>
+                      <Table.Td>
+                        <div>
+                          <Text fw={500}>{deviceTest.folder_name}</Text>
+                          {deviceTest.upload_batch && (
+                            <Text size="xs" c="dimmed">{deviceTest.upload_batch}</Text>
+                          )}
+                        </div>
+                      </Table.Td>
+                      {!deviceId && (
+                        <Table.Td>
+                          {deviceTest.device ? deviceTest.device.device_name : <Badge color="orange" variant="light" size="sm">Unlinked</Badge>}
+                        </Table.Td>
+                      )}
+                      <Table.Td>
+                        {deviceTest.test_date ? new Date(deviceTest.test_date).toLocaleString() : '-'}
+                      </Table.Td>
+                      <Table.Td>{deviceTest.data_type || '-'}</Table.Td>
+                      <Table.Td>{deviceTest.images?.length || 0}</Table.Td>
+                      <Table.Td>
+                        <Badge color={getStatusColor(deviceTest.test_status)} variant="light">
+                          {deviceTest.test_status || 'unknown'}
+                        </Badge>
+                      </Table.Td>
+                    </Table.Tr>
+                  ))
+                )}
+              </Table.Tbody>
+            </Table>
+          </div>
+
+          <Group justify="space-between" style={{ flexWrap: 'wrap', gap: 'md' }}>
+            <Group style={{ flexWrap: 'wrap', gap: 'md' }}>
+              {deviceTests.totalCount > 0 && (
+                <Text size="sm" c="dimmed">
+                  Showing {((page - 1) * pageSize) + 1} to {Math.min(page * pageSize, deviceTests.totalCount)} of {deviceTests.totalCount} batches
+                </Text>
+              )}
+              <Select
+                data={[
+                  { value: '10', label: '10 per page' },
+                  { value: '20', label: '20 per page' },
+                  { value: '50', label: '50 per page' }
+                ]}
+                value={pageSize.toString()}
+                onChange={(value) => {
+                  setPageSize(parseInt(value || '10'));
+                  setPage(1);
+                }}
+                w={130}
+              />
+            </Group>
+            {deviceTests.totalPages > 1 && (
+              <Pagination
+                total={deviceTests.totalPages}
+                value={page}
+                onChange={setPage}
+                size="sm"
+              />
+            )}
+          </Group>
+        </Stack>
+      </Paper>
+
+      {/* Device Test Detail Modal */}
+      <Modal
+        opened={detailOpened}
+        onClose={closeDetail}
+        title="Test Batch Details"
+        size="xl"
+      >
+        {selectedTest && (
+          <DeviceTestDetail
+            deviceTest={selectedTest}
+            onClose={closeDetail}
+            onReviewed={can('device_test:review') ? (updated) => {
+              setSelectedTest(updated);
+              refresh();
+            } : undefined}
+          />
+        )}
+      </Modal>
+
+      {/* Compare Test Batches Modal */}
+      <Modal
+        opened={compareOpened}
+        onClose={closeCompare}
+        title="Compare Test Batches"
+        size="xl"
+      >
+        {compareSelection.length === 2 && (
+          <DeviceTestComparison
+            key={compareSelection.map(test => test.id).join('-')}
+            deviceTests={[compareSelection[0], compareSelection[1]]}
+            onClose={closeCompare}
+          />
+        )}
+      </Modal>
+
+      {/* Import Test Folder Modal */}
+      <Modal
+        opened={importOpened}
+        onClose={closeImport}
+        title="Import Test Folder"
+        size="lg"
+      >
+        <DeviceTestImporter
+          companyId={companyId}
+          deviceId={deviceId}
+          onClose={closeImport}
+          onSuccess={() => {
+            closeImport();
+            refresh();
+          }}
+        />
+      </Modal>
+    </Stack>
+  );
+};
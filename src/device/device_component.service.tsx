@@ -33,6 +33,7 @@ import {
 import { DateInput } from '@mantine/dates';
 import { useForm } from '@mantine/form';
 import { notifications } from '@mantine/notifications';
+import { useCan } from '../auth/useCan';
 import { useCompanyDevices, useDeviceMutations } from './device.hook';
 import type { Device, CreateDeviceData, UpdateDeviceData } from './device.type';
 
@@ -55,6 +56,7 @@ export function DeviceManagement({ companyId }: DeviceManagementProps) {
     { page, pageSize }
   );
   const { createDevice, updateDevice, archiveDevice, unarchiveDevice, loading: mutationLoading } = useDeviceMutations();
+  const can = useCan();
 
   const form = useForm<CreateDeviceData | UpdateDeviceData>({
     initialValues: {
@@ -238,9 +240,11 @@ export function DeviceManagement({ companyId }: DeviceManagementProps) {
         <Stack gap="md">
           <Group justify="space-between" style={{ flexWrap: 'wrap', gap: 'md' }}>
             <Title order={3}>Devices</Title>
-            <Button leftSection={<IconPlus size={16} />} onClick={openCreateModal}>
-              Add Device
-            </Button>
+            {can('device:create') && (
+              <Button leftSection={<IconPlus size={16} />} onClick={openCreateModal}>
+                Add Device
+              </Button>
+            )}
           </Group>
 
           <Group gap="md" style={{ flexWrap: 'wrap' }}>
@@ -381,6 +385,7 @@ export function DeviceManagement({ companyId }: DeviceManagementProps) {
                           <Menu.Item
                             leftSection={<IconEdit size={14} />}
                             onClick={() => openEditModal(device)}
+                            disabled={!can('device:edit')}
                           >
                             Edit
                           </Menu.Item>
@@ -389,6 +394,7 @@ export function DeviceManagement({ companyId }: DeviceManagementProps) {
                               leftSection={<IconRestore size={14} />}
                               color="green"
                               onClick={() => handleUnarchive(device)}
+                              disabled={!can('device:archive')}
                             >
                               Unarchive
                             </Menu.Item>
@@ -397,6 +403,7 @@ export function DeviceManagement({ companyId }: DeviceManagementProps) {
                               leftSection={<IconArchive size={14} />}
                               color="yellow"
                               onClick={() => handleArchive(device)}
+                              disabled={!can('device:archive')}
                             >
                               Archive
                             </Menu.Item>
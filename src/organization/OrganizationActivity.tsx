@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import {
+  Stack,
+  Group,
+  Button,
+  Text,
+  Timeline,
+  Chip,
+  Loader,
+  Alert,
+  ThemeIcon
+} from '@mantine/core';
+import {
+  IconArchive,
+  IconCalendarEvent,
+  IconCircleCheck,
+  IconDeviceDesktopPlus,
+  IconRefresh,
+  IconRestore,
+  IconTestPipe,
+  IconTool,
+  IconUserMinus,
+  IconUserPlus
+} from '@tabler/icons-react';
+import { useOrganizationActivity } from './organization.hook';
+import { ORGANIZATION_ACTIVITY_GROUPS } from './organization.type';
+import type { OrganizationActivityKind } from './organization.type';
+
+interface OrganizationActivityProps {
+  organizationId: string;
+}
+
+const ACTIVITY_STYLES: Record<OrganizationActivityKind, { color: string; icon: React.ReactNode }> = {
+  device_added: { color: 'blue', icon: <IconDeviceDesktopPlus size={14} /> },
+  device_archived: { color: 'yellow', icon: <IconArchive size={14} /> },
+  device_restored: { color: 'teal', icon: <IconRestore size={14} /> },
+  amc_changed: { color: 'violet', icon: <IconCalendarEvent size={14} /> },
+  user_invited: { color: 'cyan', icon: <IconUserPlus size={14} /> },
+  user_removed: { color: 'red', icon: <IconUserMinus size={14} /> },
+  service_requested: { color: 'orange', icon: <IconTool size={14} /> },
+  service_closed: { color: 'green', icon: <IconCircleCheck size={14} /> },
+  test_uploaded: { color: 'grape', icon: <IconTestPipe size={14} /> }
+};
+
+const ALL_GROUPS = ORGANIZATION_ACTIVITY_GROUPS.map(group => group.value);
+
+export const OrganizationActivity: React.FC<OrganizationActivityProps> = ({ organizationId }) => {
+  const [groups, setGroups] = useState<string[]>(ALL_GROUPS);
+  const { activity, loading, error, refetch } = useOrganizationActivity(organizationId);
+
+  const visibleKinds = new Set(
+    ORGANIZATION_ACTIVITY_GROUPS
+      .filter(group => groups.includes(group.value))
+      .flatMap(group => group.kinds)
+  );
+  const visibleActivity = activity.filter(item => visibleKinds.has(item.kind));
+
+  return (
+    <Stack gap="md">
+      <Group justify="space-between" style={{ flexWrap: 'wrap', gap: 'md' }}>
+        <Chip.Group multiple value={groups} onChange={setGroups}>
+          <Group gap="xs">
+            {ORGANIZATION_ACTIVITY_GROUPS.map(group => (
+              <Chip key={group.value} value={group.value} size="sm">
+                {group.label}
+              </Chip>
+            ))}
+          </Group>
+        </Chip.Group>
+        <Button
+          leftSection={<IconRefresh size={16} />}
+          variant="subtle"
+          onClick={refetch}
+          loading={loading}
+        >
+          Refresh
+        </Button>
+      </Group>
+
+      {error && <Alert color="red" title="Error">{error}</Alert>}
+
+      {loading && activity.length === 0 ? (
+        <Loader size="sm" style={{ display: 'block', margin: '2rem auto' }} />
+      ) : visibleActivity.length === 0 ? (
+        <Text c="dimmed" ta="center" py="xl">No activity recorded</Text>
+      ) : (
+        <Timeline bulletSize={26} lineWidth={2}>
+          {visibleActivity.map(item => (
+            <Timeline.Item
+              key={item.id}
+              title={item.title}
+              bullet={
+                <ThemeIcon size={26} radius="xl" color={ACTIVITY_STYLES[item.kind].color}>
+                  {ACTIVITY_STYLES[item.kind].icon}
+                </ThemeIcon>
+              }
+            >
+              {item.description && (
+                <Text size="sm" c="dimmed">{item.description}</Text>
+              )}
+              <Text size="xs" c="dimmed" mt={4}>
+                {new Date(item.occurred_at).toLocaleString()}
+                {item.actor_email && ` · by ${item.actor_email}`}
+              </Text>
+            </Timeline.Item>
+          ))}
+        </Timeline>
+      )}
+    </Stack>
+  );
+};
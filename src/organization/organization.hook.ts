@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { notifications } from '@mantine/notifications';
-import type { Organization, CreateOrganizationData, UpdateOrganizationData, OrganizationFilters, PaginationParams, PaginatedResponse } from './organization.type';
+import type { Organization, CreateOrganizationData, UpdateOrganizationData, OrganizationFilters, OrganizationActivityItem, PaginationParams, PaginatedResponse } from './organization.type';
 import { organizationService } from './organization.service';
 
 // Hook for debounced search
@@ -311,3 +311,34 @@ export const useOrganizationExport = () => {
     exportToExcel
   };
 };
+
+export const useOrganizationActivity = (organizationId?: string) => {
+  const [activity, setActivity] = useState<OrganizationActivityItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchActivity = useCallback(async () => {
+    if (!organizationId) return;
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await organizationService.getActivity(organizationId);
+      setActivity(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch activity');
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId]);
+
+  useEffect(() => {
+    fetchActivity();
+  }, [fetchActivity]);
+
+  return {
+    activity,
+    loading,
+    error,
+    refetch: fetchActivity
+  };
+};
@@ -1,7 +1,27 @@
 import supabase from '../supabase';
-import type { Organization, CreateOrganizationData, UpdateOrganizationData, OrganizationFilters, PaginationParams, PaginatedResponse } from './organization.type';
+import type { Organization, CreateOrganizationData, UpdateOrganizationData, OrganizationFilters, OrganizationActivityItem, PaginationParams, PaginatedResponse } from './organization.type';
+import { CLOSED_SERVICE_STATUSES, type ServiceRequestStatus } from '../service-request/service_request.type';
 
 const TABLE_NAME = 'company_details';
+// Upper bound per source; the merged timeline is cut to the same length
+const ACTIVITY_SOURCE_LIMIT = 200;
+const AMC_FIELDS = ['amc_id', 'amc_start_date', 'amc_end_date'];
+
+// PostgREST filter for the audit entries the timeline renders, so routine updates
+// do not use up ACTIVITY_SOURCE_LIMIT: device archives/restores and AMC edits,
+// user removals and service requests moving to a closed status
+const ACTIVITY_AUDIT_FILTER = [
+  'and(entity_type.eq.devices,action.in.(archive,restore))',
+  ...AMC_FIELDS.map(field => `and(entity_type.eq.devices,changes->${field}.not.is.null)`),
+  'and(entity_type.eq.user_tracking,action.eq.delete)',
+  `and(entity_type.eq.service_requests,changes->status->>to.in.(${CLOSED_SERVICE_STATUSES.join(',')}))`
+].join(',');
+
+// Short codes appear in ticket numbers; store them upper-case, empty as null
+const normalizeShortCode = (shortCode?: string) => shortCode?.trim().toUpperCase() || null;
+
+const formatActivityValue = (value: unknown) =>
+  value === null || value === undefined || value === '' ? 'none' : String(value);
 
 export const organizationService = {
   async getAll(filters?: OrganizationFilters): Promise<Organization[]> {
@@ -142,6 +162,7 @@ export const organizationService = {
       .from(TABLE_NAME)
       .insert([{
         ...organizationData,
+        short_code: normalizeShortCode(organizationData.short_code),
         country: organizationData.country || 'India'
       }])
       .select()
@@ -155,7 +176,7 @@ export const organizationService = {
     const { id, ...data } = updateData;
     const { data: updatedData, error } = await supabase
       .from(TABLE_NAME)
-      .update(data)
+      .update(data.short_code === undefined ? data : { ...data, short_code: normalizeShortCode(data.short_code) })
       .eq('id', id)
       .select()
       .single();
@@ -225,5 +246,131 @@ export const organizationService = {
     
     if (error) throw error;
     return data || [];
+  },
+
+  // Chronological account history. Creations come from the source tables so records
+  // older than the audit log still show; archives, removals, AMC edits and closures
+  // come from audit_log (see sql/audit_log.sql).
+  async getActivity(organizationId: string): Promise<OrganizationActivityItem[]> {
+    const [devicesResult, usersResult, requestsResult, testsResult, auditResult] = await Promise.all([
+      supabase
+        .from('devices')
+        .select('id, device_name, serial_number, created_at')
+        .eq('company_id', organizationId)
+        .order('created_at', { ascending: false })
+        .limit(ACTIVITY_SOURCE_LIMIT),
+      supabase
+        .from('user_tracking')
+        .select('id, email, user_type, created_at')
+        .eq('organization_id', organizationId)
+        .order('created_at', { ascending: false })
+        .limit(ACTIVITY_SOURCE_LIMIT),
+      supabase
+        .from('service_requests')
+        .select('id, ticket_no, service_type, product, date_of_request')
+        .eq('organization_id', organizationId)
+        .order('date_of_request', { ascending: false })
+        .limit(ACTIVITY_SOURCE_LIMIT),
+      supabase
+        .from('device_test')
+        .select('id, folder_name, upload_batch, created_at, device:devices!inner(device_name, company_id)')
+        .eq('device.company_id', organizationId)
+        .order('created_at', { ascending: false })
+        .limit(ACTIVITY_SOURCE_LIMIT),
+      supabase
+        .from('audit_log')
+        .select('id, occurred_at, actor_email, action, entity_type, entity_label, before, changes')
+        .eq('organization_id', organizationId)
+        .or(ACTIVITY_AUDIT_FILTER)
+        .order('occurred_at', { ascending: false })
+        .limit(ACTIVITY_SOURCE_LIMIT)
+    ]);
+
+    const firstError = [devicesResult, usersResult, requestsResult, testsResult, auditResult]
+      .find(result => result.error)?.error;
+    if (firstError) throw firstError;
+
+    const items: OrganizationActivityItem[] = [];
+
+    (devicesResult.data || []).forEach(device => items.push({
+      id: `device-${device.id}`,
+      kind: 'device_added',
+      occurred_at: device.created_at,
+      title: `Device added: ${device.device_name}`,
+      description: device.serial_number ? `Serial ${device.serial_number}` : undefined
+    }));
+
+    (usersResult.data || []).forEach(user => items.push({
+      id: `user-${user.id}`,
+      kind: 'user_invited',
+      occurred_at: user.created_at,
+      title: `User invited: ${user.email}`,
+      description: `Role: ${user.user_type}`
+    }));
+
+    (requestsResult.data || []).forEach(request => items.push({
+      id: `request-${request.id}`,
+      kind: 'service_requested',
+      occurred_at: request.date_of_request,
+      title: `Service request raised: ${request.ticket_no}`,
+      description: `${request.service_type} for ${request.product}`
+    }));
+
+    (testsResult.data || []).forEach(test => {
+      const device = Array.isArray(test.device) ? test.device[0] : test.device;
+      items.push({
+        id: `test-${test.id}`,
+        kind: 'test_uploaded',
+        occurred_at: test.created_at,
+        title: `Test uploaded: ${test.folder_name}`,
+        description: [device?.device_name, test.upload_batch && `batch ${test.upload_batch}`].filter(Boolean).join(', ') || undefined
+      });
+    });
+
+    (auditResult.data || []).forEach(entry => {
+      const base = { id: `audit-${entry.id}`, occurred_at: entry.occurred_at, actor_email: entry.actor_email };
+      const changes: Record<string, { from: unknown; to: unknown }> = entry.changes || {};
+
+      if (entry.entity_type === 'devices') {
+        if (entry.action === 'archive' || entry.action === 'restore') {
+          items.push({
+            ...base,
+            kind: entry.action === 'archive' ? 'device_archived' : 'device_restored',
+            title: `Device ${entry.action === 'archive' ? 'archived' : 'restored'}: ${entry.entity_label}`
+          });
+        }
+        const amcChanges = AMC_FIELDS.filter(field => field in changes);
+        if (amcChanges.length > 0) {
+          items.push({
+            ...base,
+            id: `${base.id}-amc`,
+            kind: 'amc_changed',
+            title: `AMC updated: ${entry.entity_label}`,
+            description: amcChanges
+              .map(field => `${field.replace(/_/g, ' ')}: ${formatActivityValue(changes[field].from)} → ${formatActivityValue(changes[field].to)}`)
+              .join('; ')
+          });
+        }
+      } else if (entry.entity_type === 'user_tracking' && entry.action === 'delete') {
+        items.push({
+          ...base,
+          kind: 'user_removed',
+          title: `User removed: ${entry.entity_label}`
+        });
+      } else if (entry.entity_type === 'service_requests' && 'status' in changes) {
+        const status = String(changes.status.to);
+        if (CLOSED_SERVICE_STATUSES.includes(status as ServiceRequestStatus)) {
+          items.push({
+            ...base,
+            kind: 'service_closed',
+            title: `Service request ${status}: ${entry.entity_label}`
+          });
+        }
+      }
+    });
+
+    return items
+      .sort((a, b) => new Date(b.occurred_at).getTime() - new Date(a.occurred_at).getTime())
+      .slice(0, ACTIVITY_SOURCE_LIMIT);
   }
 };
@@ -1,6 +1,7 @@
 export interface Organization {
   id: string;
   name: string;
+  short_code?: string;
   legal_name?: string;
   gst_number?: string;
   pan_number?: string;
@@ -20,6 +21,7 @@ export interface Organization {
 
 export interface CreateOrganizationData {
   name: string;
+  short_code?: string;
   legal_name?: string;
   gst_number?: string;
   pan_number?: string;
@@ -61,3 +63,31 @@ export interface PaginatedResponse<T> {
   pageSize: number;
   totalPages: number;
 }
+
+export type OrganizationActivityKind =
+  | 'device_added'
+  | 'device_archived'
+  | 'device_restored'
+  | 'amc_changed'
+  | 'user_invited'
+  | 'user_removed'
+  | 'service_requested'
+  | 'service_closed'
+  | 'test_uploaded';
+
+export interface OrganizationActivityItem {
+  id: string;
+  kind: OrganizationActivityKind;
+  occurred_at: string;
+  title: string;
+  description?: string;
+  actor_email?: string | null;
+}
+
+export const ORGANIZATION_ACTIVITY_GROUPS: { value: string; label: string; kinds: OrganizationActivityKind[] }[] = [
+  { value: 'devices', label: 'Devices', kinds: ['device_added', 'device_archived', 'device_restored'] },
+  { value: 'amc', label: 'AMC', kinds: ['amc_changed'] },
+  { value: 'users', label: 'Users', kinds: ['user_invited', 'user_removed'] },
+  { value: 'service', label: 'Service', kinds: ['service_requested', 'service_closed'] },
+  { value: 'tests', label: 'Tests', kinds: ['test_uploaded'] }
+];
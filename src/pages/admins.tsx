@@ -0,0 +1,5 @@
+import { AdminUserManagement } from '../admin-user/admin_user_component.service';
+
+export default function AdminsPage() {
+  return <AdminUserManagement />;
+}
@@ -0,0 +1,5 @@
+import { AuditLogViewer } from '../audit-log/audit_log_component.service';
+
+export default function AuditLogPage() {
+  return <AuditLogViewer />;
+}
@@ -1,6 +1,8 @@
 
 import { Container, Title, Stack, Alert, Space, Tabs, Card } from '@mantine/core';
-import { IconInfoCircle, IconAlertTriangle, IconCalendarX } from '@tabler/icons-react';
+import { IconInfoCircle, IconAlertTriangle, IconCalendarX, IconColorFilter } from '@tabler/icons-react';
+import { useLocalStorage } from '@mantine/hooks';
+import { DEFAULT_INACTIVE_DEVICE_DAYS } from '../dashboard/dashboard.type';
 import { 
   useDashboardStats,
   usePaginatedExpiredDevices,
@@ -10,14 +12,28 @@ import {
   DashboardStatsGrid,
   PaginatedDeviceTable
 } from '../dashboard/dashboard_component.service';
+import { useColourDrift } from '../device-test/device_test.hook';
+import { ColourDriftTable } from '../device-test/ColourDriftTable';
+import { DEFAULT_DRIFT_THRESHOLD } from '../device-test/device_test.type';
 
 export default function Dashboard() {
-  const { stats, loading: statsLoading, error: statsError, refetch: refetchStats } = useDashboardStats();
+  const [inactiveDeviceDays, setInactiveDeviceDays] = useLocalStorage({
+    key: 'dashboard-inactive-device-days',
+    defaultValue: DEFAULT_INACTIVE_DEVICE_DAYS
+  });
+  const { stats, loading: statsLoading, error: statsError, refetch: refetchStats } = useDashboardStats(inactiveDeviceDays);
   
   // Paginated hooks for device lists
   const expiredDevicesHook = usePaginatedExpiredDevices(1, 20);
   const expiringSoonDevicesHook = usePaginatedExpiringSoonDevices(1, 20);
 
+  // Colour drift threshold is remembered per browser
+  const [driftThreshold, setDriftThreshold] = useLocalStorage({
+    key: 'dashboard-drift-threshold',
+    defaultValue: DEFAULT_DRIFT_THRESHOLD
+  });
+  const colourDriftHook = useColourDrift(driftThreshold);
+
   if (statsError) {
     return (
       <Container size="xl" py="xl">
@@ -52,6 +68,20 @@ export default function Dashboard() {
             pendingServiceRequests: 0,
             completedServiceRequests: 0,
             cancelledServiceRequests: 0,
+            onHoldServiceRequests: 0,
+            openServiceRequests: 0,
+            slaBreachedServiceRequests: 0,
+            slaAtRiskServiceRequests: 0,
+            serviceRequestsByStatus: {
+              pending: 0,
+              assigned: 0,
+              scheduled: 0,
+              in_progress: 0,
+              on_hold: 0,
+              completed: 0,
+              cancelled: 0,
+              reopened: 0
+            },
             serviceRequestsByType: {
               demo_installation: 0,
               repair: 0,
@@ -59,10 +89,17 @@ export default function Dashboard() {
               calibration: 0
             },
             averageServiceRequestsPerMonth: 0,
-            recentServiceRequests: 0
+            recentServiceRequests: 0,
+            recentTestBatches: 0,
+            failedTestBatches: 0,
+            incompleteTestBatches: 0,
+            testPassRateTrend: [],
+            inactiveDevices: 0,
+            inactiveDeviceDays
           }}
           loading={statsLoading}
           onRefresh={refetchStats}
+          onInactiveDeviceDaysChange={setInactiveDeviceDays}
         />
 
         <Space h="md" />
@@ -85,6 +122,13 @@ export default function Dashboard() {
             >
               AMC Expired Devices ({stats?.devicesExpired || 0})
             </Tabs.Tab>
+            <Tabs.Tab 
+              value="drift" 
+              leftSection={<IconColorFilter size={16} />}
+              color="orange"
+            >
+              Colour Drift ({colourDriftHook.drifts.length})
+            </Tabs.Tab>
           </Tabs.List>
 
           <Tabs.Panel value="expiring" pt="md">
@@ -111,6 +155,17 @@ export default function Dashboard() {
             />
           </Tabs.Panel>
 
+          <Tabs.Panel value="drift" pt="md">
+            <ColourDriftTable
+              drifts={colourDriftHook.drifts}
+              loading={colourDriftHook.loading}
+              error={colourDriftHook.error}
+              threshold={driftThreshold}
+              onThresholdChange={setDriftThreshold}
+              onRefresh={colourDriftHook.refresh}
+            />
+          </Tabs.Panel>
+
         </Tabs>
         </Card>
       </Stack>
@@ -0,0 +1,5 @@
+import { DeviceTestDataQuality } from '../device-test/DeviceTestDataQuality';
+
+export default function DataQualityPage() {
+  return <DeviceTestDataQuality />;
+}
@@ -16,14 +16,17 @@ import {
   Button,
   ActionIcon,
   Switch,
-  Menu
+  Menu,
+  Tabs
 } from '@mantine/core';
-import { IconSearch, IconArchive, IconRestore, IconDots, IconEye, IconRefresh, IconDownload, IconPrinter } from '@tabler/icons-react';
+import { IconSearch, IconArchive, IconRestore, IconDots, IconEye, IconRefresh, IconDownload, IconPrinter, IconInfoCircle, IconTestPipe } from '@tabler/icons-react';
 import { modals } from '@mantine/modals';
 import { notifications } from '@mantine/notifications';
 import { useDevices, useDeviceMutations } from '../device/device.hook';
 import { useOrganizations } from '../organization/organization.hook';
+import { DeviceTestManagement } from '../device-test/device_test_component.service';
 import type { Device } from '../device/device.type';
+import { useCan } from '../auth/useCan';
 
 export default function Devices() {
   const [search, setSearch] = useState('');
@@ -38,6 +41,7 @@ export default function Devices() {
 
   // Device mutations
   const { archiveDevice, unarchiveDevice, loading: mutationLoading } = useDeviceMutations();
+  const can = useCan();
 
   // Device filters
   const filters = useMemo(() => ({
@@ -162,13 +166,15 @@ export default function Devices() {
           >
             Refresh
           </Button>
-          <Button
-            leftSection={<IconDownload size={16} />}
-            variant="outline"
-            onClick={handleExport}
-          >
-            Export Excel
-          </Button>
+          {can('device:export') && (
+            <Button
+              leftSection={<IconDownload size={16} />}
+              variant="outline"
+              onClick={handleExport}
+            >
+              Export Excel
+            </Button>
+          )}
           <Button
             leftSection={<IconPrinter size={16} />}
             variant="outline"
@@ -312,6 +318,7 @@ export default function Devices() {
                             e.stopPropagation();
                             handleArchiveDevice(device);
                           }}
+                          disabled={!can('device:archive')}
                         >
                           {device.archived ? 'Unarchive' : 'Archive'}
                         </Menu.Item>
@@ -365,33 +372,52 @@ export default function Devices() {
               Close
             </Text>
           </Group>
-          <Stack gap="xs" mt="sm">
-            <Text><b>Name:</b> {selectedDevice.device_name}</Text>
-            <Text><b>Organization:</b> {organizations.find(o => o.id === selectedDevice.company_id)?.name || '-'}</Text>
-            <Text><b>MAC:</b> {selectedDevice.mac_address || '-'}</Text>
-            <Text><b>Model:</b> {selectedDevice.model || '-'}</Text>
-            <Text><b>Serial:</b> {selectedDevice.serial_number || '-'}</Text>
-            <Text><b>Warranty Expiry:</b> {selectedDevice.warranty_expiry_date ? new Date(selectedDevice.warranty_expiry_date).toLocaleDateString() : '-'}</Text>
-            <Text><b>AMC End:</b> {selectedDevice.amc_end_date ? new Date(selectedDevice.amc_end_date).toLocaleDateString() : '-'}</Text>
-            <Text><b>Status:</b> 
-              <Badge color={selectedDevice.archived ? 'gray' : 'green'} variant="light" ml="xs">
-                {selectedDevice.archived ? 'Archived' : 'Active'}
-              </Badge>
-            </Text>
-            <Text><b>Created:</b> {new Date(selectedDevice.created_at).toLocaleDateString()}</Text>
-            <Text><b>Updated:</b> {new Date(selectedDevice.updated_at).toLocaleDateString()}</Text>
-            <Group mt="md">
-              <Button
-                variant="outline"
-                color={selectedDevice.archived ? 'blue' : 'orange'}
-                leftSection={selectedDevice.archived ? <IconRestore size={16} /> : <IconArchive size={16} />}
-                onClick={() => handleArchiveDevice(selectedDevice)}
-                loading={mutationLoading}
-              >
-                {selectedDevice.archived ? 'Unarchive' : 'Archive'}
-              </Button>
-            </Group>
-          </Stack>
+          <Tabs defaultValue="details" mt="sm">
+            <Tabs.List>
+              <Tabs.Tab value="details" leftSection={<IconInfoCircle size="0.8rem" />}>
+                Details
+              </Tabs.Tab>
+              <Tabs.Tab value="tests" leftSection={<IconTestPipe size="0.8rem" />}>
+                Tests
+              </Tabs.Tab>
+            </Tabs.List>
+
+            <Tabs.Panel value="details" pt="md">
+              <Stack gap="xs">
+                <Text><b>Name:</b> {selectedDevice.device_name}</Text>
+                <Text><b>Organization:</b> {organizations.find(o => o.id === selectedDevice.company_id)?.name || '-'}</Text>
+                <Text><b>MAC:</b> {selectedDevice.mac_address || '-'}</Text>
+                <Text><b>Model:</b> {selectedDevice.model || '-'}</Text>
+                <Text><b>Serial:</b> {selectedDevice.serial_number || '-'}</Text>
+                <Text><b>Warranty Expiry:</b> {selectedDevice.warranty_expiry_date ? new Date(selectedDevice.warranty_expiry_date).toLocaleDateString() : '-'}</Text>
+                <Text><b>AMC End:</b> {selectedDevice.amc_end_date ? new Date(selectedDevice.amc_end_date).toLocaleDateString() : '-'}</Text>
+                <Text><b>Status:</b> 
+                  <Badge color={selectedDevice.archived ? 'gray' : 'green'} variant="light" ml="xs">
+                    {selectedDevice.archived ? 'Archived' : 'Active'}
+                  </Badge>
+                </Text>
+                <Text><b>Created:</b> {new Date(selectedDevice.created_at).toLocaleDateString()}</Text>
+                <Text><b>Updated:</b> {new Date(selectedDevice.updated_at).toLocaleDateString()}</Text>
+                {can('device:archive') && (
+                <Group mt="md">
+                  <Button
+                    variant="outline"
+                    color={selectedDevice.archived ? 'blue' : 'orange'}
+                    leftSection={selectedDevice.archived ? <IconRestore size={16} /> : <IconArchive size={16} />}
+                    onClick={() => handleArchiveDevice(selectedDevice)}
+                    loading={mutationLoading}
+                  >
+                    {selectedDevice.archived ? 'Unarchive' : 'Archive'}
+                  </Button>
+                </Group>
+                )}
+              </Stack>
+            </Tabs.Panel>
+
+            <Tabs.Panel value="tests" pt="md">
+              <DeviceTestManagement deviceId={selectedDevice.id} />
+            </Tabs.Panel>
+          </Tabs>
         </Card>
       )}
     </Stack>
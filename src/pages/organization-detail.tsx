@@ -13,10 +13,12 @@ import {
   Tabs,
   Card
 } from '@mantine/core';
-import { IconArrowLeft, IconDevices, IconUsers } from '@tabler/icons-react';
+import { IconArrowLeft, IconDevices, IconUsers, IconTestPipe, IconHistory } from '@tabler/icons-react';
 import { useOrganization } from '../organization/organization.hook';
 import { DeviceManagement } from '../device/device_component.service';
 import { UserManagement } from '../user/user_component.service';
+import { DeviceTestManagement } from '../device-test/device_test_component.service';
+import { OrganizationActivity } from '../organization/OrganizationActivity';
 
 export default function OrganizationDetailPage() {
   const { id } = useParams<{ id: string }>();
@@ -150,6 +152,12 @@ export default function OrganizationDetailPage() {
           <Tabs.Tab value="users" leftSection={<IconUsers size="0.8rem" />}>
             Users
           </Tabs.Tab>
+          <Tabs.Tab value="tests" leftSection={<IconTestPipe size="0.8rem" />}>
+            Tests
+          </Tabs.Tab>
+          <Tabs.Tab value="activity" leftSection={<IconHistory size="0.8rem" />}>
+            Activity
+          </Tabs.Tab>
         </Tabs.List>
 
         <Tabs.Panel value="devices" pt="md">
@@ -159,6 +167,14 @@ export default function OrganizationDetailPage() {
         <Tabs.Panel value="users" pt="md">
           <UserManagement companyId={organization.id} />
         </Tabs.Panel>
+
+        <Tabs.Panel value="tests" pt="md">
+          <DeviceTestManagement companyId={organization.id} />
+        </Tabs.Panel>
+
+        <Tabs.Panel value="activity" pt="md">
+          <OrganizationActivity organizationId={organization.id} />
+        </Tabs.Panel>
       </Tabs>
       </Card>
     </Stack>
@@ -25,6 +25,7 @@ import { IconEdit, IconArchive, IconPlus, IconRestore, IconDots, IconEye, IconSe
 import { notifications } from '@mantine/notifications';
 import { usePaginatedOrganizations, useOrganizationMutations, useOrganizationExport, useEmailValidation } from '../organization/organization.hook';
 import type { Organization, CreateOrganizationData } from '../organization/organization.type';
+import { useCan } from '../auth/useCan';
 
 export default function OrganizationPage() {
   const navigate = useNavigate();
@@ -71,6 +72,7 @@ export default function OrganizationPage() {
   const { createOrganization, updateOrganization, archiveOrganization, unarchiveOrganization, loading: mutationLoading } = useOrganizationMutations();
   const { loading: exportLoading, exportToExcel } = useOrganizationExport();
   const { checkEmailExists } = useEmailValidation();
+  const can = useCan();
   
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingOrg, setEditingOrg] = useState<Organization | null>(null);
@@ -81,6 +83,7 @@ export default function OrganizationPage() {
   const form = useForm<CreateOrganizationData>({
     initialValues: {
       name: '',
+      short_code: '',
       legal_name: '',
       gst_number: '',
       pan_number: '',
@@ -96,6 +99,7 @@ export default function OrganizationPage() {
     },
     validate: {
       name: (value) => (value.length < 2 ? 'Name must be at least 2 characters' : null),
+      short_code: (value) => (value && !/^[A-Za-z0-9]{2,8}$/.test(value) ? 'Use 2-8 letters or digits' : null),
       email: (value) => {
         if (!value) return 'Email is required';
         if (!/^\S+@\S+\.\S+$/.test(value)) return 'Invalid email format';
@@ -158,6 +162,7 @@ export default function OrganizationPage() {
     setEditingOrg(org);
     form.setValues({
       name: org.name,
+      short_code: org.short_code || '',
       legal_name: org.legal_name || '',
       gst_number: org.gst_number || '',
       pan_number: org.pan_number || '',
@@ -272,15 +277,17 @@ export default function OrganizationPage() {
           >
             Refresh
           </Button>
-          <Button
-            leftSection={<IconDownload size={16} />}
-            variant="outline"
-            onClick={handleExport}
-            loading={exportLoading}
-            title={hasActiveFilters ? "Export filtered results (max 500 records)" : "Export all organizations (max 500 records)"}
-          >
-            {hasActiveFilters ? "Export Filtered" : "Export Excel"}
-          </Button>
+          {can('organization:export') && (
+            <Button
+              leftSection={<IconDownload size={16} />}
+              variant="outline"
+              onClick={handleExport}
+              loading={exportLoading}
+              title={hasActiveFilters ? "Export filtered results (max 500 records)" : "Export all organizations (max 500 records)"}
+            >
+              {hasActiveFilters ? "Export Filtered" : "Export Excel"}
+            </Button>
+          )}
           <Button
             leftSection={<IconPrinter size={16} />}
             variant="outline"
@@ -288,12 +295,14 @@ export default function OrganizationPage() {
           >
             Print
           </Button>
-          <Button
-            leftSection={<IconPlus size={16} />}
-            onClick={() => setIsModalOpen(true)}
-          >
-            Add Organization
-          </Button>
+          {can('organization:create') && (
+            <Button
+              leftSection={<IconPlus size={16} />}
+              onClick={() => setIsModalOpen(true)}
+            >
+              Add Organization
+            </Button>
+          )}
         </Group>
       </Group>
 
@@ -382,6 +391,7 @@ export default function OrganizationPage() {
                                 e.stopPropagation();
                                 handleEdit(org);
                               }}
+                              disabled={!can('organization:edit')}
                             >
                               Edit
                             </Menu.Item>
@@ -392,6 +402,7 @@ export default function OrganizationPage() {
                                 e.stopPropagation();
                                 handleArchive(org);
                               }}
+                              disabled={!can('organization:archive')}
                             >
                               Archive
                             </Menu.Item>
@@ -503,6 +514,7 @@ export default function OrganizationPage() {
                                 e.stopPropagation();
                                 handleUnarchive(org);
                               }}
+                              disabled={!can('organization:archive')}
                             >
                               Unarchive
                             </Menu.Item>
@@ -579,6 +591,15 @@ export default function OrganizationPage() {
                 {...form.getInputProps('legal_name')}
               />
             </Grid.Col>
+            <Grid.Col span={{ base: 12, sm: 6 }}>
+              <TextInput
+                label="Short Code"
+                placeholder="e.g. ACME"
+                description="Used in service request ticket numbers"
+                maxLength={8}
+                {...form.getInputProps('short_code')}
+              />
+            </Grid.Col>
             <Grid.Col span={{ base: 12, sm: 6 }}>
               <TextInput
                 label="GST Number"
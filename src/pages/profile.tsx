@@ -0,0 +1,5 @@
+import AdminProfile from '../auth/AdminProfile';
+
+export default function ProfilePage() {
+  return <AdminProfile />;
+}
@@ -0,0 +1,5 @@
+import { ServiceScheduleCalendar } from '../service-request/ServiceScheduleCalendar';
+
+export default function SchedulePage() {
+  return <ServiceScheduleCalendar />;
+}
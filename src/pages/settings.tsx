@@ -1 +1,16 @@
-export default function Settings() { return <div>Settings Page</div>; }
+import { Stack, Title, Text } from '@mantine/core';
+import { TicketNumberSettingsForm } from '../settings/settings_component.service';
+import { SlaPolicyManager } from '../sla/sla_component.service';
+
+export default function Settings() {
+  return (
+    <Stack gap="md" p={{ base: 'sm', md: 'md' }}>
+      <div>
+        <Title order={2}>Settings</Title>
+        <Text size="sm" c="dimmed">Console-wide configuration</Text>
+      </div>
+      <TicketNumberSettingsForm />
+      <SlaPolicyManager />
+    </Stack>
+  );
+}
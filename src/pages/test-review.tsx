@@ -0,0 +1,5 @@
+import { DeviceTestReviewQueue } from '../device-test/DeviceTestReviewQueue';
+
+export default function TestReviewPage() {
+  return <DeviceTestReviewQueue />;
+}
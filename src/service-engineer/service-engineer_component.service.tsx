@@ -31,6 +31,7 @@ import { useForm } from '@mantine/form';
 import { notifications } from '@mantine/notifications';
 import { modals } from '@mantine/modals';
 import { useServiceEngineers, useServiceEngineerActions } from './service-engineer.hook';
+import { useCan } from '../auth/useCan';
 import type { CreateServiceEngineerRequest, ServiceEngineer, ServiceEngineerFilters } from './service-engineer.type';
 
 const EXPERTISE_OPTIONS = [
@@ -52,6 +53,7 @@ export function ServiceEngineerManagement() {
   );
   const { engineers, loading, error, refetch } = useServiceEngineers(filters);
   const { createEngineer, updateEngineer, deleteEngineer, loading: actionLoading } = useServiceEngineerActions();
+  const can = useCan();
 
   const form = useForm<CreateServiceEngineerRequest>({
     initialValues: {
@@ -202,12 +204,14 @@ export function ServiceEngineerManagement() {
       <Paper p="md">
         <Group justify="space-between" mb="md">
           <Title order={2}>Service Engineers</Title>
-          <Button 
-            leftSection={<IconPlus size={16} />}
-            onClick={() => openModal()}
-          >
-            Add Service Engineer
-          </Button>
+          {can('engineer:create') && (
+            <Button 
+              leftSection={<IconPlus size={16} />}
+              onClick={() => openModal()}
+            >
+              Add Service Engineer
+            </Button>
+          )}
         </Group>
 
         <TextInput
@@ -261,6 +265,7 @@ export function ServiceEngineerManagement() {
                       <Menu.Item
                         leftSection={<IconEdit size={14} />}
                         onClick={() => openModal(engineer)}
+                        disabled={!can('engineer:edit')}
                       >
                         Edit
                       </Menu.Item>
@@ -268,6 +273,7 @@ export function ServiceEngineerManagement() {
                         leftSection={<IconTrash size={14} />}
                         color="red"
                         onClick={() => handleDelete(engineer)}
+                        disabled={!can('engineer:delete')}
                       >
                         Delete
                       </Menu.Item>
@@ -1,18 +1,29 @@
 import React, { useState } from 'react';
 import {
   Stack,
-  Select,
   Button,
   Group,
   Text,
   Card,
   Badge,
   Avatar,
-  Grid
+  Grid,
+  Alert,
+  Loader,
+  ScrollArea,
+  UnstyledButton
 } from '@mantine/core';
-import type { ServiceRequest } from './service_request.type';
+import { IconBolt } from '@tabler/icons-react';
+import { useEngineerSuggestions } from './service_request.hook';
+import type { EngineerSuggestionReason, ServiceRequest } from './service_request.type';
 import type { ServiceEngineer } from '../service-engineer/service-engineer.type';
 
+const REASON_COLORS: Record<EngineerSuggestionReason['tone'], string> = {
+  positive: 'green',
+  negative: 'red',
+  neutral: 'gray'
+};
+
 interface AssignEngineerModalProps {
   serviceRequest: ServiceRequest;
   serviceEngineers: ServiceEngineer[];
@@ -28,20 +39,18 @@ export const AssignEngineerModal: React.FC<AssignEngineerModalProps> = ({
 }) => {
   const [selectedEngineerId, setSelectedEngineerId] = useState<string>('');
   const [loading, setLoading] = useState(false);
+  const { suggestions, hasWorkload, loading: ranking, error } = useEngineerSuggestions(serviceRequest, serviceEngineers);
 
-  // Filter engineers based on service type expertise
-  const compatibleEngineers = serviceEngineers.filter(engineer =>
-    engineer.expertise.includes(serviceRequest.service_type)
-  );
+  const compatibleCount = suggestions.filter(suggestion => suggestion.hasExpertise).length;
+  // Auto-assign needs the full ranking and an engineer with the right expertise
+  const bestMatch = hasWorkload && suggestions[0]?.hasExpertise ? suggestions[0] : null;
 
   const selectedEngineer = serviceEngineers.find(e => e.id === selectedEngineerId);
 
-  const handleAssign = async () => {
-    if (!selectedEngineerId) return;
-    
+  const assign = async (engineerId: string) => {
     setLoading(true);
     try {
-      await onSuccess(selectedEngineerId);
+      await onSuccess(engineerId);
     } catch {
       // Error handling is done in parent component
     } finally {
@@ -49,6 +58,17 @@ export const AssignEngineerModal: React.FC<AssignEngineerModalProps> = ({
     }
   };
 
+  const handleAssign = async () => {
+    if (!selectedEngineerId) return;
+    await assign(selectedEngineerId);
+  };
+
+  const handleAutoAssign = async () => {
+    if (!bestMatch?.engineer.id) return;
+    setSelectedEngineerId(bestMatch.engineer.id);
+    await assign(bestMatch.engineer.id);
+  };
+
   return (
     <Stack>
       <Card withBorder p="md">
@@ -72,23 +92,78 @@ export const AssignEngineerModal: React.FC<AssignEngineerModalProps> = ({
       </Card>
 
       <Stack>
-        <Text fw={500}>
-          Available Engineers 
-          <Text span c="dimmed" size="sm">
-            ({compatibleEngineers.length} with required expertise)
+        <Group justify="space-between">
+          <Text fw={500}>
+            Suggested Engineers{' '}
+            <Text span c="dimmed" size="sm">
+              ({compatibleCount} with required expertise)
+            </Text>
           </Text>
-        </Text>
-        
-        <Select
-          placeholder="Select a service engineer"
-          value={selectedEngineerId}
-          onChange={(value) => setSelectedEngineerId(value || '')}
-          data={compatibleEngineers.map(engineer => ({
-            value: engineer.id!,
-            label: `${engineer.name} - ${engineer.email}`
-          }))}
-          searchable
-        />
+          {ranking && <Loader size="xs" />}
+        </Group>
+
+        {error && (
+          <Alert color="yellow" title="Workload unavailable">
+            Ranking on expertise only and auto-assign is off: {error}
+          </Alert>
+        )}
+
+        <ScrollArea.Autosize mah={360}>
+          <Stack gap="xs">
+            {suggestions.map((suggestion, index) => {
+              const { engineer } = suggestion;
+              const isSelected = engineer.id === selectedEngineerId;
+              return (
+                <UnstyledButton
+                  key={engineer.id}
+                  onClick={() => setSelectedEngineerId(engineer.id || '')}
+                >
+                  <Card
+                    withBorder
+                    p="sm"
+                    style={{
+                      borderColor: isSelected ? 'var(--mantine-color-blue-6)' : undefined,
+                      opacity: suggestion.hasExpertise ? 1 : 0.7
+                    }}
+                  >
+                    <Group justify="space-between" wrap="nowrap">
+                      <Group gap="sm" wrap="nowrap" style={{ minWidth: 0 }}>
+                        <Avatar size="sm" radius="xl">
+                          {engineer.name.charAt(0).toUpperCase()}
+                        </Avatar>
+                        <div style={{ minWidth: 0 }}>
+                          <Text size="sm" fw={500} truncate>{engineer.name}</Text>
+                          <Text size="xs" c="dimmed" truncate>{engineer.email}</Text>
+                        </div>
+                      </Group>
+                      <Group gap={4} wrap="nowrap">
+                        {index === 0 && bestMatch && (
+                          <Badge color="blue" size="sm">Best match</Badge>
+                        )}
+                        <Badge variant="outline" color="gray" size="sm">
+                          {suggestion.score} pts
+                        </Badge>
+                      </Group>
+                    </Group>
+                    <Group gap={4} mt="xs">
+                      {suggestion.reasons.map(reason => (
+                        <Badge
+                          key={reason.label}
+                          variant="light"
+                          size="sm"
+                          color={REASON_COLORS[reason.tone]}
+                          style={{ textTransform: 'none' }}
+                        >
+                          {reason.label}
+                        </Badge>
+                      ))}
+                    </Group>
+                  </Card>
+                </UnstyledButton>
+              );
+            })}
+          </Stack>
+        </ScrollArea.Autosize>
 
         {selectedEngineer && (
           <Card withBorder p="md">
@@ -126,7 +201,7 @@ export const AssignEngineerModal: React.FC<AssignEngineerModalProps> = ({
           </Card>
         )}
 
-        {compatibleEngineers.length === 0 && (
+        {compatibleCount === 0 && (
           <Card withBorder p="md">
             <Text c="dimmed" ta="center">
               No engineers available with the required expertise for "{serviceRequest.service_type}"
@@ -139,10 +214,19 @@ export const AssignEngineerModal: React.FC<AssignEngineerModalProps> = ({
         <Button variant="outline" onClick={onClose}>
           Cancel
         </Button>
+        <Button
+          variant="light"
+          leftSection={<IconBolt size={16} />}
+          onClick={handleAutoAssign}
+          disabled={!bestMatch}
+          loading={loading && selectedEngineerId === bestMatch?.engineer.id}
+        >
+          Auto-assign{bestMatch ? ` ${bestMatch.engineer.name}` : ''}
+        </Button>
         <Button
           onClick={handleAssign}
-          disabled={!selectedEngineerId || compatibleEngineers.length === 0}
-          loading={loading}
+          disabled={!selectedEngineerId}
+          loading={loading && selectedEngineerId !== bestMatch?.engineer.id}
         >
           Assign Engineer
         </Button>
@@ -0,0 +1,338 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Stack,
+  Group,
+  Text,
+  Card,
+  Image,
+  AspectRatio,
+  Progress,
+  ActionIcon,
+  Tooltip,
+  SimpleGrid,
+  Loader,
+  Center,
+  Alert
+} from '@mantine/core';
+import { Dropzone, type FileRejection } from '@mantine/dropzone';
+import { modals } from '@mantine/modals';
+import { notifications } from '@mantine/notifications';
+import {
+  IconExternalLink,
+  IconFile,
+  IconFileTypePdf,
+  IconPhoto,
+  IconTrash,
+  IconUpload,
+  IconVideo,
+  IconX
+} from '@tabler/icons-react';
+import { serviceRequestService, getAttachmentKind } from './service_request.service';
+import { ATTACHMENT_ACCEPT, MAX_ATTACHMENT_SIZE } from './service_request.type';
+import type {
+  ServiceRequestAttachment,
+  ServiceRequestAttachmentKind,
+  UploadedServiceRequestFile
+} from './service_request.type';
+import { IMAGE_FALLBACK } from '../utils/image';
+
+const formatFileSize = (bytes: number | null) => {
+  if (bytes === null) return '';
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+};
+
+const KindIcon: React.FC<{ kind: ServiceRequestAttachmentKind; size?: number }> = ({ kind, size = 20 }) => {
+  switch (kind) {
+    case 'image': return <IconPhoto size={size} color="green" />;
+    case 'video': return <IconVideo size={size} color="blue" />;
+    case 'pdf': return <IconFileTypePdf size={size} color="red" />;
+    default: return <IconFile size={size} color="gray" />;
+  }
+};
+
+const AttachmentPreview: React.FC<{ kind: ServiceRequestAttachmentKind; url: string; name: string }> = ({ kind, url, name }) => {
+  if (kind === 'image') {
+    return (
+      <AspectRatio ratio={16 / 9}>
+        <Image src={url} alt={name} fit="contain" fallbackSrc={IMAGE_FALLBACK} />
+      </AspectRatio>
+    );
+  }
+  if (kind === 'video') {
+    return (
+      <AspectRatio ratio={16 / 9}>
+        <video controls preload="metadata" style={{ width: '100%', height: '100%' }}>
+          <source src={url} />
+          Your browser does not support the video tag.
+        </video>
+      </AspectRatio>
+    );
+  }
+  return (
+    <AspectRatio ratio={16 / 9}>
+      <Center bg="var(--mantine-color-gray-1)">
+        <KindIcon kind={kind} size={48} />
+      </Center>
+    </AspectRatio>
+  );
+};
+
+interface PendingUpload {
+  key: string;
+  file: File;
+  previewUrl: string | null;
+  progress: number;
+  error: string | null;
+  uploaded: UploadedServiceRequestFile | null;
+}
+
+interface ServiceRequestAttachmentUploaderProps {
+  uploaderId: string;
+  // Called for every file that finishes uploading and every finished file the user removes
+  onUploaded: (file: UploadedServiceRequestFile) => void;
+  onRemoved: (file: UploadedServiceRequestFile) => void;
+  onUploadingChange?: (uploading: boolean) => void;
+  disabled?: boolean;
+}
+
+export const ServiceRequestAttachmentUploader: React.FC<ServiceRequestAttachmentUploaderProps> = ({
+  uploaderId,
+  onUploaded,
+  onRemoved,
+  onUploadingChange,
+  disabled
+}) => {
+  const [uploads, setUploads] = useState<PendingUpload[]>([]);
+  const uploadsRef = useRef<PendingUpload[]>([]);
+  uploadsRef.current = uploads;
+  const mountedRef = useRef(true);
+
+  const isUploading = uploads.some(upload => !upload.uploaded && !upload.error);
+
+  useEffect(() => {
+    onUploadingChange?.(isUploading);
+  }, [isUploading, onUploadingChange]);
+
+  // Release local previews when the form closes
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+      uploadsRef.current.forEach(upload => upload.previewUrl && URL.revokeObjectURL(upload.previewUrl));
+    };
+  }, []);
+
+  const updateUpload = (key: string, changes: Partial<PendingUpload>) => {
+    setUploads(prev => prev.map(upload => upload.key === key ? { ...upload, ...changes } : upload));
+  };
+
+  const handleDrop = (files: File[]) => {
+    const added = files.map((file, index) => ({
+      key: `${Date.now()}-${index}-${file.name}`,
+      file,
+      previewUrl: file.type.startsWith('image/') ? URL.createObjectURL(file) : null,
+      progress: 0,
+      error: null,
+      uploaded: null
+    }));
+    setUploads(prev => [...prev, ...added]);
+
+    added.forEach(async ({ key, file }) => {
+      try {
+        const uploaded = await serviceRequestService.uploadServiceRequestFile(
+          file,
+          uploaderId,
+          (progress) => updateUpload(key, { progress })
+        );
+        // Nothing can link a file that finishes after the form closed
+        if (!mountedRef.current) {
+          if (uploaded.storage_path) {
+            await serviceRequestService.removeUploadedServiceRequestFile(uploaded.storage_path);
+          }
+          return;
+        }
+        updateUpload(key, { uploaded, progress: 100 });
+        onUploaded(uploaded);
+      } catch (err) {
+        updateUpload(key, { error: err instanceof Error ? err.message : 'Upload failed' });
+      }
+    });
+  };
+
+  const handleReject = (rejections: FileRejection[]) => {
+    rejections.forEach(({ file, errors }) => {
+      notifications.show({
+        title: `Cannot attach ${file.name}`,
+        message: errors.map(error => error.message).join(', '),
+        color: 'red'
+      });
+    });
+  };
+
+  const handleRemove = async (upload: PendingUpload) => {
+    setUploads(prev => prev.filter(item => item.key !== upload.key));
+    if (upload.previewUrl) URL.revokeObjectURL(upload.previewUrl);
+    if (!upload.uploaded) return;
+
+    onRemoved(upload.uploaded);
+    if (upload.uploaded.storage_path) {
+      try {
+        await serviceRequestService.removeUploadedServiceRequestFile(upload.uploaded.storage_path);
+      } catch (err) {
+        console.error('Failed to delete uploaded file:', err);
+      }
+    }
+  };
+
+  return (
+    <Stack gap="sm">
+      <Dropzone
+        onDrop={handleDrop}
+        onReject={handleReject}
+        maxSize={MAX_ATTACHMENT_SIZE}
+        accept={ATTACHMENT_ACCEPT}
+        multiple
+        disabled={disabled}
+      >
+        <Group justify="center" gap="xl" mih={100} style={{ pointerEvents: 'none' }}>
+          <Dropzone.Accept>
+            <IconUpload size={44} color="var(--mantine-color-blue-6)" stroke={1.5} />
+          </Dropzone.Accept>
+          <Dropzone.Reject>
+            <IconX size={44} color="var(--mantine-color-red-6)" stroke={1.5} />
+          </Dropzone.Reject>
+          <Dropzone.Idle>
+            <IconFile size={44} color="var(--mantine-color-dimmed)" stroke={1.5} />
+          </Dropzone.Idle>
+
+          <div>
+            <Text size="lg" inline>
+              Drag files here or click to select
+            </Text>
+            <Text size="sm" c="dimmed" inline mt={7}>
+              Attach any number of images, videos, or documents (max 50MB each)
+            </Text>
+          </div>
+        </Group>
+      </Dropzone>
+
+      {uploads.map(upload => {
+        const kind = upload.uploaded?.file_kind || getAttachmentKind(upload.file.type);
+        return (
+          <Card key={upload.key} withBorder p="sm">
+            <Group justify="space-between" wrap="nowrap">
+              <Group gap="sm" wrap="nowrap" style={{ minWidth: 0 }}>
+                {upload.previewUrl ? (
+                  <Image src={upload.previewUrl} alt={upload.file.name} w={48} h={48} fit="cover" radius="sm" />
+                ) : (
+                  <KindIcon kind={kind} />
+                )}
+                <div style={{ minWidth: 0 }}>
+                  <Text size="sm" fw={500} truncate>{upload.file.name}</Text>
+                  <Text size="xs" c={upload.error ? 'red' : 'dimmed'}>
+                    {upload.error || `${kind} • ${formatFileSize(upload.file.size)}`}
+                  </Text>
+                </div>
+              </Group>
+              <Tooltip label={upload.uploaded || upload.error ? 'Remove' : 'Uploading…'}>
+                <ActionIcon
+                  variant="subtle"
+                  color="red"
+                  onClick={() => handleRemove(upload)}
+                  disabled={!upload.uploaded && !upload.error}
+                >
+                  <IconX size={16} />
+                </ActionIcon>
+              </Tooltip>
+            </Group>
+            {!upload.error && (
+              <Progress
+                value={upload.progress}
+                size="sm"
+                mt="xs"
+                color={upload.uploaded ? 'green' : 'blue'}
+                animated={!upload.uploaded}
+              />
+            )}
+          </Card>
+        );
+      })}
+    </Stack>
+  );
+};
+
+interface ServiceRequestAttachmentListProps {
+  attachments: ServiceRequestAttachment[];
+  loading?: boolean;
+  error?: string | null;
+  onDelete?: (attachment: ServiceRequestAttachment) => Promise<void>;
+}
+
+export const ServiceRequestAttachmentList: React.FC<ServiceRequestAttachmentListProps> = ({
+  attachments,
+  loading,
+  error,
+  onDelete
+}) => {
+  const handleDelete = (attachment: ServiceRequestAttachment) => {
+    if (!onDelete) return;
+    modals.openConfirmModal({
+      title: 'Delete Attachment',
+      children: (
+        <Text size="sm">
+          Delete <strong>{attachment.file_name}</strong>? The file is removed from storage and cannot be recovered.
+        </Text>
+      ),
+      labels: { confirm: 'Delete', cancel: 'Cancel' },
+      confirmProps: { color: 'red' },
+      onConfirm: async () => {
+        try {
+          await onDelete(attachment);
+        } catch {
+          // Error notification is shown by the hook
+        }
+      }
+    });
+  };
+
+  if (error) return <Alert color="red" title="Error">{error}</Alert>;
+  if (loading && attachments.length === 0) return <Loader size="sm" />;
+  if (attachments.length === 0) return <Text size="sm" c="dimmed">No attachments</Text>;
+
+  return (
+    <SimpleGrid cols={{ base: 1, sm: 2, md: 3 }} spacing="sm">
+      {attachments.map(attachment => (
+        <Card key={attachment.id} withBorder p="xs">
+          <Card.Section>
+            <AttachmentPreview kind={attachment.file_kind} url={attachment.file_url} name={attachment.file_name} />
+          </Card.Section>
+          <Group justify="space-between" wrap="nowrap" mt="xs">
+            <div style={{ minWidth: 0 }}>
+              <Text size="sm" fw={500} truncate>{attachment.file_name}</Text>
+              <Text size="xs" c="dimmed">
+                {[formatFileSize(attachment.file_size), new Date(attachment.created_at).toLocaleDateString()]
+                  .filter(Boolean)
+                  .join(' • ')}
+              </Text>
+            </div>
+            <Group gap={4} wrap="nowrap" className="no-print">
+              <Tooltip label="Open">
+                <ActionIcon variant="subtle" component="a" href={attachment.file_url} target="_blank" rel="noopener noreferrer">
+                  <IconExternalLink size={16} />
+                </ActionIcon>
+              </Tooltip>
+              {onDelete && (
+                <Tooltip label="Delete">
+                  <ActionIcon variant="subtle" color="red" onClick={() => handleDelete(attachment)}>
+                    <IconTrash size={16} />
+                  </ActionIcon>
+                </Tooltip>
+              )}
+            </Group>
+          </Group>
+        </Card>
+      ))}
+    </SimpleGrid>
+  );
+};
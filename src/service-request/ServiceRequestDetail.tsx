@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   Stack,
   Group,
@@ -12,7 +12,10 @@ import {
   ThemeIcon,
   Timeline,
   ActionIcon,
-  Tooltip
+  Tooltip,
+  Alert,
+  Loader,
+  Textarea
 } from '@mantine/core';
 import {
   IconUser,
@@ -21,10 +24,53 @@ import {
   IconFileText,
   IconPrinter,
   IconDownload,
-  IconEdit
+  IconEdit,
+  IconMessagePlus,
+  IconPaperclip
 } from '@tabler/icons-react';
-import type { ServiceRequest } from './service_request.type';
-import { SERVICE_TYPES } from './service_request.type';
+import type { ServiceRequest, ServiceRequestEvent, ServiceRequestStatus } from './service_request.type';
+import { SERVICE_STATUS_COLORS, SERVICE_TYPES } from './service_request.type';
+import { useServiceRequestAttachments, useServiceRequestEvents } from './service_request.hook';
+import { formatDuration, getServiceStatusLabel } from './service_request.service';
+import { ServiceRequestAttachmentList } from './ServiceRequestAttachments';
+import { SlaBadge } from '../sla/SlaBadge';
+import { useCan } from '../auth/useCan';
+import { useAuth } from '../auth/useAuth';
+
+const describeEvent = (event: ServiceRequestEvent): { title: string; color: string } => {
+  switch (event.event_type) {
+    case 'created': return { title: 'Request Created', color: 'blue' };
+    case 'status_changed':
+      return {
+        title: `Status: ${getServiceStatusLabel(event.from_value)} → ${getServiceStatusLabel(event.to_value)}`,
+        color: SERVICE_STATUS_COLORS[event.to_value as ServiceRequestStatus] || 'gray'
+      };
+    case 'engineer_assigned': return { title: 'Engineer Assigned', color: 'teal' };
+    case 'engineer_reassigned': return { title: 'Engineer Reassigned', color: 'orange' };
+    case 'engineer_unassigned': return { title: 'Engineer Unassigned', color: 'gray' };
+    case 'service_date_changed': return { title: 'Service Date Changed', color: 'violet' };
+    case 'comment': return { title: 'Comment', color: 'gray' };
+    default: return { title: event.event_type, color: 'gray' };
+  }
+};
+
+const getEventDetail = (event: ServiceRequestEvent) => {
+  const formatDate = (value: string | null) => value ? new Date(value).toLocaleString() : 'not set';
+  switch (event.event_type) {
+    case 'engineer_assigned':
+      return event.to_engineer?.name || event.to_value;
+    case 'engineer_reassigned':
+      return `${event.from_engineer?.name || event.from_value} → ${event.to_engineer?.name || event.to_value}`;
+    case 'engineer_unassigned':
+      return event.from_engineer?.name || event.from_value;
+    case 'service_date_changed':
+      return `${formatDate(event.from_value)} → ${formatDate(event.to_value)}`;
+    case 'comment':
+      return event.comment;
+    default:
+      return null;
+  }
+};
 
 interface ServiceRequestDetailProps {
   serviceRequest: ServiceRequest;
@@ -37,12 +83,34 @@ export const ServiceRequestDetail: React.FC<ServiceRequestDetailProps> = ({
   onClose,
   onEdit
 }) => {
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'completed': return 'green';
-      case 'cancelled': return 'red';
-      case 'pending': return 'yellow';
-      default: return 'gray';
+  const can = useCan();
+  const { user } = useAuth();
+  const [comment, setComment] = useState('');
+  const [addingComment, setAddingComment] = useState(false);
+  const {
+    events,
+    timings,
+    loading: eventsLoading,
+    error: eventsError,
+    addComment
+  } = useServiceRequestEvents(serviceRequest.id, serviceRequest.updated_at);
+  const {
+    attachments,
+    loading: attachmentsLoading,
+    error: attachmentsError,
+    deleteAttachment
+  } = useServiceRequestAttachments(serviceRequest.id);
+
+  const handleAddComment = async () => {
+    if (!user || !comment.trim()) return;
+    setAddingComment(true);
+    try {
+      await addComment(comment.trim(), { id: user.id, email: user.email });
+      setComment('');
+    } catch {
+      // Error notification is shown by the hook
+    } finally {
+      setAddingComment(false);
     }
   };
 
@@ -93,7 +161,7 @@ Ticket Number: ${serviceRequest.ticket_no}
 Product: ${serviceRequest.product}
 Serial Number: ${serviceRequest.serial_no}
 Service Type: ${getServiceTypeLabel(serviceRequest.service_type)}
-Status: ${serviceRequest.status}
+Status: ${getServiceStatusLabel(serviceRequest.status)}
 
 Organization: ${serviceRequest.organization?.name || 'N/A'}
 Device: ${serviceRequest.device?.device_name || 'N/A'}
@@ -137,9 +205,11 @@ Updated: ${new Date(serviceRequest.updated_at).toLocaleString()}
                 <IconDownload size={16} />
               </ActionIcon>
             </Tooltip>
-            <Button leftSection={<IconEdit size={16} />} onClick={onEdit}>
-              Edit
-            </Button>
+            {can('service_request:edit') && (
+              <Button leftSection={<IconEdit size={16} />} onClick={onEdit}>
+                Edit
+              </Button>
+            )}
           </Group>
         </Group>
 
@@ -151,13 +221,16 @@ Updated: ${new Date(serviceRequest.updated_at).toLocaleString()}
                 <Text size="xl" fw={700}>{serviceRequest.ticket_no}</Text>
                 <Text c="dimmed">{serviceRequest.product}</Text>
               </div>
-              <Badge 
-                color={getStatusColor(serviceRequest.status)} 
-                size="lg" 
-                variant="light"
-              >
-                {serviceRequest.status.toUpperCase()}
-              </Badge>
+              <Group gap="xs">
+                <SlaBadge serviceRequest={serviceRequest} size="lg" />
+                <Badge 
+                  color={SERVICE_STATUS_COLORS[serviceRequest.status] || 'gray'} 
+                  size="lg" 
+                  variant="light"
+                >
+                  {getServiceStatusLabel(serviceRequest.status).toUpperCase()}
+                </Badge>
+              </Group>
             </Group>
 
             <Divider />
@@ -220,43 +293,95 @@ Updated: ${new Date(serviceRequest.updated_at).toLocaleString()}
               <Text pl="md">{serviceRequest.service_details}</Text>
             </Stack>
 
+            {/* Attachments */}
+            <Stack gap="xs">
+              <Group>
+                <ThemeIcon variant="light" size="sm">
+                  <IconPaperclip size={14} />
+                </ThemeIcon>
+                <Text size="sm" fw={500}>Attachments</Text>
+              </Group>
+              <ServiceRequestAttachmentList
+                attachments={attachments}
+                loading={attachmentsLoading}
+                error={attachmentsError}
+                onDelete={can('service_request:edit') ? deleteAttachment : undefined}
+              />
+            </Stack>
+
             <Divider />
 
-            {/* Timeline */}
-            <Timeline active={serviceRequest.status === 'completed' ? 2 : serviceRequest.status === 'cancelled' ? 1 : 0}>
-              <Timeline.Item title="Request Created">
-                <Text size="sm" c="dimmed">
-                  {new Date(serviceRequest.date_of_request).toLocaleString()}
-                </Text>
-              </Timeline.Item>
-              
-              {serviceRequest.service_engineer && (
-                <Timeline.Item title="Engineer Assigned">
-                  <Text size="sm">{serviceRequest.engineer?.name}</Text>
-                  <Text size="xs" c="dimmed">{serviceRequest.engineer?.email}</Text>
-                </Timeline.Item>
-              )}
-
-              {serviceRequest.date_of_service && (
-                <Timeline.Item title="Preferred Service Date">
-                  <Text size="sm" c="dimmed">
-                    {new Date(serviceRequest.date_of_service).toLocaleString()}
-                  </Text>
-                </Timeline.Item>
-              )}
-
-              {serviceRequest.status === 'completed' && (
-                <Timeline.Item title="Service Completed" color="green">
-                  <Text size="sm" c="dimmed">Service has been completed</Text>
-                </Timeline.Item>
-              )}
-
-              {serviceRequest.status === 'cancelled' && (
-                <Timeline.Item title="Service Cancelled" color="red">
-                  <Text size="sm" c="dimmed">Service request was cancelled</Text>
-                </Timeline.Item>
-              )}
-            </Timeline>
+            {/* History */}
+            <Group justify="space-between">
+              <Text size="sm" fw={500}>History</Text>
+              <Group gap="lg" style={{ flexWrap: 'wrap' }}>
+                <div>
+                  <Text size="xs" c="dimmed">Time to assign</Text>
+                  <Text size="sm" fw={500}>{formatDuration(timings.timeToAssign)}</Text>
+                </div>
+                <div>
+                  <Text size="xs" c="dimmed">Time to close</Text>
+                  <Text size="sm" fw={500}>{formatDuration(timings.timeToClose)}</Text>
+                </div>
+                {serviceRequest.response_due_at && (
+                  <div>
+                    <Text size="xs" c="dimmed">Response due</Text>
+                    <Text size="sm" fw={500}>{new Date(serviceRequest.response_due_at).toLocaleString()}</Text>
+                  </div>
+                )}
+                {serviceRequest.resolution_due_at && (
+                  <div>
+                    <Text size="xs" c="dimmed">Resolution due</Text>
+                    <Text size="sm" fw={500}>{new Date(serviceRequest.resolution_due_at).toLocaleString()}</Text>
+                  </div>
+                )}
+              </Group>
+            </Group>
+
+            {eventsError && <Alert color="red" title="Error">{eventsError}</Alert>}
+
+            {eventsLoading && events.length === 0 ? (
+              <Loader size="sm" style={{ display: 'block', margin: '1rem auto' }} />
+            ) : (
+              <Timeline active={events.length - 1} bulletSize={20}>
+                {events.map(event => {
+                  const { title, color } = describeEvent(event);
+                  return (
+                    <Timeline.Item key={event.id} title={title} color={color}>
+                      {getEventDetail(event) && (
+                        <Text size="sm">{getEventDetail(event)}</Text>
+                      )}
+                      <Text size="xs" c="dimmed">
+                        {new Date(event.created_at).toLocaleString()}
+                        {event.actor_email && ` · ${event.actor_email}`}
+                      </Text>
+                    </Timeline.Item>
+                  );
+                })}
+              </Timeline>
+            )}
+
+            {can('service_request:edit') && (
+              <Group align="flex-end" className="no-print">
+                <Textarea
+                  placeholder="Add a note to the history"
+                  value={comment}
+                  onChange={(event) => setComment(event.currentTarget.value)}
+                  autosize
+                  minRows={1}
+                  style={{ flex: 1 }}
+                />
+                <Button
+                  variant="light"
+                  leftSection={<IconMessagePlus size={16} />}
+                  onClick={handleAddComment}
+                  loading={addingComment}
+                  disabled={!comment.trim()}
+                >
+                  Add Note
+                </Button>
+              </Group>
+            )}
 
             {/* Engineer Information */}
             {serviceRequest.service_engineer && (
@@ -295,14 +420,6 @@ Updated: ${new Date(serviceRequest.updated_at).toLocaleString()}
               </Stack>
             )}
 
-            {/* Additional Information */}
-            {serviceRequest.uploaded_reference && (
-              <Stack gap="xs">
-                <Text size="sm" fw={500}>Reference Type</Text>
-                <Text size="sm" pl="md">{serviceRequest.uploaded_reference}</Text>
-              </Stack>
-            )}
-
             <Divider />
 
             {/* Timestamps */}
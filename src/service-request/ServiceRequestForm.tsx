@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useMemo, useRef } from 'react';
+import React, { useCallback, useEffect, useState, useMemo, useRef } from 'react';
 import { useForm } from '@mantine/form';
 import {
   Stack,
@@ -11,50 +11,45 @@ import {
   Card,
   Text,
   Badge,
-  Image,
-  AspectRatio,
   ThemeIcon,
   Divider,
   Checkbox,
   Alert,
-  Progress,
   Box
 } from '@mantine/core';
-import { Dropzone, type FileRejection } from '@mantine/dropzone';
 import {
   IconBuilding,
   IconDevices,
   IconFileText,
   IconCalendar,
   IconAlertTriangle,
-  IconUpload,
-  IconX,
-  IconFile,
-  IconPhoto,
-  IconVideo,
   IconTag,
   IconSettings,
-  IconCategory,
-  IconCloudUpload
+  IconPaperclip
 } from '@tabler/icons-react';
 import { DatePickerInput } from '@mantine/dates';
-import { useServiceRequestActions } from './service_request.hook';
+import { useServiceRequestActions, useServiceRequestAttachments } from './service_request.hook';
 import { useOrganizations } from '../organization/organization.hook';
 import { useDevices } from '../device/device.hook';
 import { useServiceEngineers } from '../service-engineer/service-engineer.hook';
 import { useAuth } from '../auth/useAuth';
-import supabase from '../supabase';
 import { 
   type ServiceRequest, 
   type CreateServiceRequestData, 
   type UpdateServiceRequestData,
+  type UploadedServiceRequestFile,
   SERVICE_TYPES,
   SERVICE_STATUSES,
+  SERVICE_STATUS_COLORS,
   MODE_OF_SERVICE
 } from './service_request.type';
+import { canTransitionServiceStatus, getServiceStatusLabel, serviceRequestService } from './service_request.service';
+import { ServiceRequestAttachmentList, ServiceRequestAttachmentUploader } from './ServiceRequestAttachments';
 
 interface ServiceRequestFormProps {
   serviceRequest?: ServiceRequest | null;
+  // Pre-filled values for new requests (ignored when editing)
+  defaultValues?: Partial<Pick<CreateServiceRequestData, 'service_type' | 'service_details' | 'organization_id' | 'device_id'>>;
   onClose: () => void;
   onSuccess: () => void;
 }
@@ -106,6 +101,7 @@ const OrganizationSearch: React.FC<OrganizationSearchProps> = ({
 
 export const ServiceRequestForm: React.FC<ServiceRequestFormProps> = ({
   serviceRequest,
+  defaultValues,
   onClose,
   onSuccess
 }) => {
@@ -116,9 +112,20 @@ export const ServiceRequestForm: React.FC<ServiceRequestFormProps> = ({
   const { user } = useAuth();
   
   const [forceCreate, setForceCreate] = useState(false);
-  const [uploadingFile, setUploadingFile] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState(0);
-  const [uploadedFile, setUploadedFile] = useState<File | null>(null);
+  const [newAttachments, setNewAttachments] = useState<UploadedServiceRequestFile[]>([]);
+  const [uploadingFiles, setUploadingFiles] = useState(false);
+  // Set once a new request is inserted, so a retry after a failed attachment link
+  // only re-links the files instead of raising a second request
+  const [createdRequestId, setCreatedRequestId] = useState<string | null>(null);
+  const unlinkedAttachmentsRef = useRef<UploadedServiceRequestFile[]>([]);
+  unlinkedAttachmentsRef.current = newAttachments;
+  const {
+    attachments,
+    loading: attachmentsLoading,
+    error: attachmentsError,
+    addAttachments,
+    deleteAttachment
+  } = useServiceRequestAttachments(serviceRequest?.id);
   const isEditing = !!serviceRequest;
   const previousDeviceIdRef = useRef<string>('');
 
@@ -126,20 +133,18 @@ export const ServiceRequestForm: React.FC<ServiceRequestFormProps> = ({
   const initialValues = useMemo(() => ({
       product: serviceRequest?.product || '',
       serial_no: serviceRequest?.serial_no || '',
-      service_type: serviceRequest?.service_type || 'repair',
-      service_details: serviceRequest?.service_details || '',
-      organization_id: serviceRequest?.organization_id || '',
-      device_id: serviceRequest?.device_id || '',
+      service_type: serviceRequest?.service_type || defaultValues?.service_type || 'repair',
+      service_details: serviceRequest?.service_details || defaultValues?.service_details || '',
+      organization_id: serviceRequest?.organization_id || defaultValues?.organization_id || '',
+      device_id: serviceRequest?.device_id || defaultValues?.device_id || '',
     user_id: serviceRequest?.user_id || user?.id || '',
       date_of_service: serviceRequest?.date_of_service ? new Date(serviceRequest.date_of_service) : null,
-      uploaded_reference: serviceRequest?.uploaded_reference || '',
-    uploaded_file_url: serviceRequest?.uploaded_file_url || '',
     mode_of_service: serviceRequest?.mode_of_service || '',
     service_engineer: serviceRequest?.service_engineer || '',
     engineer_comments: serviceRequest?.engineer_comments || '',
     payment_details: serviceRequest?.payment_details || '',
     status: serviceRequest?.status || 'pending'
-  }), [serviceRequest, user?.id]);
+  }), [serviceRequest, defaultValues, user?.id]);
 
   // Memoize validation rules to prevent re-renders
   const validationRules = useMemo(() => ({
@@ -192,103 +197,38 @@ export const ServiceRequestForm: React.FC<ServiceRequestFormProps> = ({
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [form.values.device_id, devices, serviceRequest]);
 
-  // File upload handler
-  const handleFileUpload = async (files: File[]) => {
-    if (files.length === 0) return;
-    
-    const file = files[0];
-    setUploadedFile(file);
-    setUploadingFile(true);
-    setUploadProgress(0);
-
-    try {
-      // Generate unique filename with timestamp
-      const timestamp = Date.now();
-      const fileExt = file.name.split('.').pop();
-      const fileName = `${user?.id || 'unknown'}_${timestamp}.${fileExt}`;
-      const filePath = `service-requests/${fileName}`;
-
-      // Start progress simulation
-      const progressInterval = setInterval(() => {
-        setUploadProgress(prev => {
-          if (prev >= 80) {
-            clearInterval(progressInterval);
-            return prev;
-          }
-          return prev + 10;
-        });
-      }, 200);
-
-      // Upload to Supabase Storage
-      const { error } = await supabase.storage
-        .from('service-files')
-        .upload(filePath, file, {
-          cacheControl: '3600',
-          upsert: false
-        });
-
-      if (error) {
-        throw error;
-      }
+  const handleAttachmentUploaded = useCallback((file: UploadedServiceRequestFile) => {
+    setNewAttachments(prev => [...prev, file]);
+  }, []);
 
-      // Get public URL
-      const { data: { publicUrl } } = supabase.storage
-        .from('service-files')
-        .getPublicUrl(filePath);
+  const handleAttachmentRemoved = useCallback((file: UploadedServiceRequestFile) => {
+    setNewAttachments(prev => prev.filter(item => item.storage_path !== file.storage_path));
+  }, []);
 
-      // Update form values
-      form.setFieldValue('uploaded_file_url', publicUrl);
-      
-      // Set reference type based on file type
-      if (file.type.startsWith('image/')) {
-        form.setFieldValue('uploaded_reference', 'image');
-      } else if (file.type.startsWith('video/')) {
-        form.setFieldValue('uploaded_reference', 'video');
-      } else if (file.type === 'application/pdf') {
-        form.setFieldValue('uploaded_reference', 'pdf');
-      } else {
-        form.setFieldValue('uploaded_reference', 'document');
+  // Files uploaded in this session are not linked to anything until the form is saved,
+  // so remove them however the form goes away (Cancel, modal close button, Escape)
+  useEffect(() => () => {
+    unlinkedAttachmentsRef.current.forEach(file => {
+      if (file.storage_path) {
+        serviceRequestService.removeUploadedServiceRequestFile(file.storage_path)
+          .catch(err => console.error('Failed to delete uploaded file:', err));
       }
-      
-      // Complete progress
-      clearInterval(progressInterval);
-      setUploadProgress(100);
-      
-      setTimeout(() => {
-        setUploadingFile(false);
-        setUploadProgress(0);
-      }, 500);
+    });
+  }, []);
 
-    } catch (error) {
-      console.error('Upload failed:', error);
-      setUploadingFile(false);
-      setUploadProgress(0);
-      
-      // Show error notification
-      const errorMessage = error instanceof Error ? error.message : 'Upload failed';
-      alert(`Upload failed: ${errorMessage}`);
-    }
+  const linkAttachments = async (serviceRequestId: string) => {
+    await addAttachments(newAttachments, serviceRequestId);
+    unlinkedAttachmentsRef.current = [];
+    setNewAttachments([]);
   };
 
-  const removeUploadedFile = async () => {
-    if (form.values.uploaded_file_url && uploadedFile) {
-      try {
-        // Extract file path from URL for deletion
-        const url = new URL(form.values.uploaded_file_url);
-        const filePath = url.pathname.split('/').slice(-2).join('/'); // Get last two parts of path
-        
-        // Delete from Supabase Storage
-        await supabase.storage
-          .from('service-files')
-          .remove([filePath]);
-      } catch (error) {
-        console.error('Failed to delete file:', error);
-      }
+  // The request list must pick up a request created before the attachments failed
+  const handleCancel = () => {
+    if (createdRequestId) {
+      onSuccess();
+    } else {
+      onClose();
     }
-    
-    setUploadedFile(null);
-    form.setFieldValue('uploaded_file_url', '');
-    form.setFieldValue('uploaded_reference', '');
   };
 
   const handleSubmit = async (values: typeof form.values) => {
@@ -308,6 +248,7 @@ export const ServiceRequestForm: React.FC<ServiceRequestFormProps> = ({
           status: values.status
         };
         await updateServiceRequest(updateData);
+        await linkAttachments(serviceRequest.id);
       } else {
         // For creation, send all required fields
         const createData: CreateServiceRequestData = {
@@ -319,11 +260,14 @@ export const ServiceRequestForm: React.FC<ServiceRequestFormProps> = ({
           device_id: values.device_id,
           user_id: user?.id || values.user_id,
           date_of_service: formattedDate,
-          uploaded_reference: values.uploaded_reference || null,
-          uploaded_file_url: values.uploaded_file_url || null,
           mode_of_service: values.mode_of_service || null
         };
-        await createServiceRequest(createData);
+        let requestId = createdRequestId;
+        if (!requestId) {
+          requestId = (await createServiceRequest(createData)).id;
+          setCreatedRequestId(requestId);
+        }
+        await linkAttachments(requestId);
       }
       
       onSuccess();
@@ -337,16 +281,13 @@ export const ServiceRequestForm: React.FC<ServiceRequestFormProps> = ({
     return (type: string) => SERVICE_TYPES.find(t => t.value === type)?.label || type;
   }, []);
 
-  const getStatusColor = useMemo(() => {
-    return (status: string) => {
-      switch (status) {
-        case 'completed': return 'green';
-        case 'cancelled': return 'red';
-        case 'pending': return 'yellow';
-        default: return 'gray';
-      }
-    };
-  }, []);
+  // Only offer statuses reachable from the saved one
+  const statusOptions = useMemo(() =>
+    serviceRequest
+      ? SERVICE_STATUSES.filter(status => canTransitionServiceStatus(serviceRequest.status, status.value))
+      : SERVICE_STATUSES,
+    [serviceRequest]
+  );
 
   const selectedOrganization = useMemo(() => 
     organizations.find(org => org.id === form.values.organization_id), 
@@ -366,8 +307,8 @@ export const ServiceRequestForm: React.FC<ServiceRequestFormProps> = ({
             <Stack>
               <Group justify="space-between">
                 <Text fw={600} size="lg">Service Request Details</Text>
-                <Badge color={getStatusColor(serviceRequest.status)} variant="light">
-                  {serviceRequest.status.toUpperCase()}
+                <Badge color={SERVICE_STATUS_COLORS[serviceRequest.status] || 'gray'} variant="light">
+                  {getServiceStatusLabel(serviceRequest.status).toUpperCase()}
                 </Badge>
               </Group>
               
@@ -464,53 +405,20 @@ export const ServiceRequestForm: React.FC<ServiceRequestFormProps> = ({
                 </Group>
               </div>
 
-              {serviceRequest.uploaded_reference && (
-                <div>
-                  <Group gap="xs" mb="xs">
-                    <ThemeIcon variant="light" size="sm">
-                      <IconCategory size={14} />
-                    </ThemeIcon>
-                    <div>
-                      <Text size="sm" c="dimmed">Reference Type</Text>
-                      <Text fw={500}>{serviceRequest.uploaded_reference}</Text>
-                    </div>
-                  </Group>
-                </div>
-              )}
-
-              {serviceRequest.uploaded_file_url && (
-                <div>
-                  <Group gap="xs" mb="xs">
-                    <ThemeIcon variant="light" size="sm">
-                      <IconCloudUpload size={14} />
-                    </ThemeIcon>
-                    <Text size="sm" c="dimmed">Uploaded Media</Text>
-                  </Group>
-                  {serviceRequest.uploaded_reference?.includes('image') || 
-                   serviceRequest.uploaded_file_url.match(/\.(jpg|jpeg|png|gif|webp)$/i) ? (
-                    <AspectRatio ratio={16 / 9} maw={400}>
-                      <Image
-                        src={serviceRequest.uploaded_file_url}
-                        alt="Service request reference"
-                        fit="contain"
-                        fallbackSrc="data:image/svg+xml,%3csvg width='100' height='100' xmlns='http://www.w3.org/2000/svg'%3e%3crect width='100' height='100' fill='%23ddd'/%3e%3ctext x='50' y='50' text-anchor='middle' dy='.3em'%3eImage%3c/text%3e%3c/svg%3e"
-                      />
-                    </AspectRatio>
-                  ) : serviceRequest.uploaded_reference?.includes('video') || 
-                       serviceRequest.uploaded_file_url.match(/\.(mp4|webm|ogg|mov)$/i) ? (
-                    <AspectRatio ratio={16 / 9} maw={400}>
-                      <video controls style={{ width: '100%', height: '100%' }}>
-                        <source src={serviceRequest.uploaded_file_url} type="video/mp4" />
-                        Your browser does not support the video tag.
-                      </video>
-                    </AspectRatio>
-                  ) : (
-                    <Text size="sm" c="blue" component="a" href={serviceRequest.uploaded_file_url} target="_blank">
-                      View File
-                    </Text>
-                  )}
-                </div>
-              )}
+              <div>
+                <Group gap="xs" mb="xs">
+                  <ThemeIcon variant="light" size="sm">
+                    <IconPaperclip size={14} />
+                  </ThemeIcon>
+                  <Text size="sm" c="dimmed">Attachments</Text>
+                </Group>
+                <ServiceRequestAttachmentList
+                  attachments={attachments}
+                  loading={attachmentsLoading}
+                  error={attachmentsError}
+                  onDelete={deleteAttachment}
+                />
+              </div>
             </Stack>
           </Card>
         )}
@@ -630,112 +538,17 @@ export const ServiceRequestForm: React.FC<ServiceRequestFormProps> = ({
                    clearable
             />
           </Grid.Col>
-          <Grid.Col span={6}>
-            <TextInput
-              label="Reference Type"
-              placeholder="e.g., video, image, pdf"
-              {...form.getInputProps('uploaded_reference')}
-                   disabled
-            />
-          </Grid.Col>
         </Grid>
 
              {/* File Upload Section */}
              <Box>
-               <Text size="sm" fw={500} mb="xs">Upload Reference File</Text>
-               
-               {!form.values.uploaded_file_url ? (
-                 <Dropzone
-                   onDrop={handleFileUpload}
-                   onReject={(fileRejections: FileRejection[]) => console.log('rejected files', fileRejections)}
-                   maxSize={50 * 1024 ** 2} // 50MB
-                   accept={{
-                     'image/*': ['.png', '.jpg', '.jpeg', '.gif', '.webp'],
-                     'video/*': ['.mp4', '.avi', '.mov', '.wmv', '.flv', '.webm'],
-                     'application/pdf': ['.pdf'],
-                     'text/plain': ['.txt'],
-                     'application/msword': ['.doc'],
-                     'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx']
-                   }}
-                   disabled={uploadingFile}
-                 >
-                   <Group justify="center" gap="xl" mih={120} style={{ pointerEvents: 'none' }}>
-                     <Dropzone.Accept>
-                       <IconUpload size={52} color="var(--mantine-color-blue-6)" stroke={1.5} />
-                     </Dropzone.Accept>
-                     <Dropzone.Reject>
-                       <IconX size={52} color="var(--mantine-color-red-6)" stroke={1.5} />
-                     </Dropzone.Reject>
-                     <Dropzone.Idle>
-                       <IconFile size={52} color="var(--mantine-color-dimmed)" stroke={1.5} />
-                     </Dropzone.Idle>
-
-                     <div>
-                       <Text size="xl" inline>
-                         Drag files here or click to select
-                       </Text>
-                       <Text size="sm" c="dimmed" inline mt={7}>
-                         Attach images, videos, or documents (max 50MB)
-                       </Text>
-                       <Text size="xs" c="dimmed" mt={4}>
-                         Supported: Images, Videos, PDF, Word documents
-                       </Text>
-                     </div>
-                   </Group>
-                 </Dropzone>
-               ) : (
-                 <Card withBorder p="md">
-                   <Group justify="space-between">
-                     <Group>
-                       {form.values.uploaded_reference === 'image' && <IconPhoto size={20} color="green" />}
-                       {form.values.uploaded_reference === 'video' && <IconVideo size={20} color="blue" />}
-                       {!['image', 'video'].includes(form.values.uploaded_reference) && <IconFile size={20} color="gray" />}
-                       <div>
-                         <Text size="sm" fw={500}>
-                           {uploadedFile?.name || 'Uploaded file'}
-                         </Text>
-                         <Text size="xs" c="dimmed">
-                           {form.values.uploaded_reference} • {uploadedFile && (uploadedFile.size / 1024 / 1024).toFixed(2)} MB
-                         </Text>
-                       </div>
-                     </Group>
-                     <Button
-                       variant="outline"
-                       color="red"
-                       size="xs"
-                       onClick={removeUploadedFile}
-                       leftSection={<IconX size={14} />}
-                     >
-                       Remove
-                     </Button>
-                   </Group>
-                   
-                   {/* Preview for images */}
-                   {form.values.uploaded_reference === 'image' && form.values.uploaded_file_url && (
-                     <Box mt="md">
-                       <Text size="xs" c="dimmed" mb="xs">Preview:</Text>
-                       <AspectRatio ratio={16 / 9} maw={300}>
-                         <Image
-                           src={form.values.uploaded_file_url}
-                           alt="Uploaded preview"
-                           fit="contain"
-                           fallbackSrc="data:image/svg+xml,%3csvg width='100' height='100' xmlns='http://www.w3.org/2000/svg'%3e%3crect width='100' height='100' fill='%23ddd'/%3e%3ctext x='50' y='50' text-anchor='middle' dy='.3em'%3eImage%3c/text%3e%3c/svg%3e"
-                         />
-                       </AspectRatio>
-                     </Box>
-                   )}
-                 </Card>
-               )}
-
-               {uploadingFile && (
-                 <Box mt="sm">
-                   <Group justify="space-between" mb="xs">
-                     <Text size="sm">Uploading...</Text>
-                     <Text size="sm">{uploadProgress}%</Text>
-                   </Group>
-                   <Progress value={uploadProgress} size="sm" />
-                 </Box>
-               )}
+               <Text size="sm" fw={500} mb="xs">Attachments</Text>
+               <ServiceRequestAttachmentUploader
+                 uploaderId={user?.id || 'unknown'}
+                 onUploaded={handleAttachmentUploaded}
+                 onRemoved={handleAttachmentRemoved}
+                 onUploadingChange={setUploadingFiles}
+               />
              </Box>
           </>
         )}
@@ -771,7 +584,7 @@ export const ServiceRequestForm: React.FC<ServiceRequestFormProps> = ({
                 <Select
                   label="Status"
                   placeholder="Select status"
-                  data={SERVICE_STATUSES}
+                  data={statusOptions}
                   {...form.getInputProps('status')}
                   required
                 />
@@ -791,19 +604,36 @@ export const ServiceRequestForm: React.FC<ServiceRequestFormProps> = ({
               minRows={2}
               {...form.getInputProps('payment_details')}
             />
+
+            <Box>
+              <Text size="sm" fw={500} mb="xs">Add Attachments</Text>
+              <ServiceRequestAttachmentUploader
+                uploaderId={user?.id || 'unknown'}
+                onUploaded={handleAttachmentUploaded}
+                onRemoved={handleAttachmentRemoved}
+                onUploadingChange={setUploadingFiles}
+              />
+            </Box>
           </>
         )}
 
+        {createdRequestId && (
+          <Alert color="orange" icon={<IconAlertTriangle size={16} />} title="Attachments not saved">
+            The service request was created, but its attachments could not be linked.
+            Retry to link them; cancelling discards the uploaded files.
+          </Alert>
+        )}
+
         <Group justify="flex-end" mt="md">
-          <Button variant="outline" onClick={onClose}>
+          <Button variant="outline" onClick={handleCancel}>
             Cancel
           </Button>
           <Button 
             type="submit" 
             loading={loading}
-            disabled={!isEditing && !user && !forceCreate}
+            disabled={(!isEditing && !user && !forceCreate) || uploadingFiles}
           >
-            {serviceRequest ? 'Update' : 'Create'} Service Request
+            {createdRequestId ? 'Retry Attachments' : `${serviceRequest ? 'Update' : 'Create'} Service Request`}
           </Button>
         </Group>
       </Stack>
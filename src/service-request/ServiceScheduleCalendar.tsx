@@ -0,0 +1,526 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Paper,
+  Title,
+  Group,
+  Button,
+  Text,
+  Badge,
+  Stack,
+  Grid,
+  SegmentedControl,
+  MultiSelect,
+  ActionIcon,
+  Tooltip,
+  Alert,
+  Loader,
+  Modal,
+  ScrollArea
+} from '@mantine/core';
+import { modals } from '@mantine/modals';
+import { notifications } from '@mantine/notifications';
+import {
+  IconAlertTriangle,
+  IconCalendarEvent,
+  IconChevronLeft,
+  IconChevronRight,
+  IconRefresh
+} from '@tabler/icons-react';
+import dayjs, { type Dayjs } from 'dayjs';
+import { useServiceSchedule } from './service_request.hook';
+import { useServiceEngineers } from '../service-engineer/service-engineer.hook';
+import { findDoubleBookings, getServiceDateKey, getServiceStatusLabel } from './service_request.service';
+import {
+  ENGINEER_DAILY_CAPACITY,
+  OPEN_SERVICE_STATUSES,
+  SERVICE_SCHEDULE_VIEWS,
+  SERVICE_STATUS_COLORS,
+  SERVICE_TYPES
+} from './service_request.type';
+import type { ServiceRequest, ServiceScheduleView } from './service_request.type';
+import { ServiceRequestDetail } from './ServiceRequestDetail';
+import { ServiceRequestForm } from './ServiceRequestForm';
+import { useCan } from '../auth/useCan';
+
+const UNASSIGNED = 'unassigned';
+const MONTH_CELL_LIMIT = 3;
+const DATE_KEY_FORMAT = 'YYYY-MM-DD';
+
+const startOfWeek = (date: Dayjs) => date.subtract((date.day() + 6) % 7, 'day').startOf('day');
+
+// Days shown for a view; weeks start on Monday and the month view pads to whole weeks
+const getVisibleDays = (view: ServiceScheduleView, anchor: Dayjs): Dayjs[] => {
+  if (view === 'day') return [anchor.startOf('day')];
+  const start = view === 'week' ? startOfWeek(anchor) : startOfWeek(anchor.startOf('month'));
+  const end = view === 'week'
+    ? start.add(6, 'day')
+    : startOfWeek(anchor.endOf('month')).add(6, 'day');
+  const days: Dayjs[] = [];
+  for (let day = start; !day.isAfter(end, 'day'); day = day.add(1, 'day')) {
+    days.push(day);
+  }
+  return days;
+};
+
+const getRangeLabel = (view: ServiceScheduleView, days: Dayjs[], anchor: Dayjs) => {
+  if (view === 'day') return anchor.format('dddd, D MMM YYYY');
+  if (view === 'month') return anchor.format('MMMM YYYY');
+  return `${days[0].format('D MMM')} – ${days[days.length - 1].format('D MMM YYYY')}`;
+};
+
+const getServiceTypeLabel = (type: string) =>
+  SERVICE_TYPES.find(t => t.value === type)?.label || type;
+
+interface ScheduleCardProps {
+  request: ServiceRequest;
+  showEngineer?: boolean;
+  doubleBooked?: boolean;
+  draggable: boolean;
+  onOpen: (request: ServiceRequest) => void;
+}
+
+const ScheduleCard: React.FC<ScheduleCardProps> = ({ request, showEngineer, doubleBooked, draggable, onOpen }) => (
+  <Paper
+    withBorder
+    p={6}
+    draggable={draggable}
+    onDragStart={(event: React.DragEvent<HTMLDivElement>) => {
+      event.dataTransfer.setData('text/plain', request.id);
+      event.dataTransfer.effectAllowed = 'move';
+    }}
+    onClick={() => onOpen(request)}
+    style={{
+      cursor: draggable ? 'grab' : 'pointer',
+      borderLeft: `4px solid var(--mantine-color-${SERVICE_STATUS_COLORS[request.status]}-6)`,
+      borderColor: doubleBooked ? 'var(--mantine-color-red-6)' : undefined,
+      opacity: OPEN_SERVICE_STATUSES.includes(request.status) ? 1 : 0.6
+    }}
+  >
+    <Group justify="space-between" gap={4} wrap="nowrap">
+      <Text size="xs" fw={600} truncate>{request.ticket_no}</Text>
+      {doubleBooked && (
+        <Tooltip label="Double-booked">
+          <IconAlertTriangle size={14} color="var(--mantine-color-red-6)" />
+        </Tooltip>
+      )}
+    </Group>
+    <Text size="xs" truncate>{request.organization?.name || request.product}</Text>
+    <Text size="xs" c="dimmed" truncate>
+      {getServiceTypeLabel(request.service_type)} · {getServiceStatusLabel(request.status)}
+    </Text>
+    {showEngineer && (
+      <Text size="xs" c="dimmed" truncate>{request.engineer?.name || 'Unassigned'}</Text>
+    )}
+  </Paper>
+);
+
+export const ServiceScheduleCalendar: React.FC = () => {
+  const can = useCan();
+  const canReschedule = can('service_request:edit');
+  const canReassign = can('service_request:assign');
+  const [view, setView] = useState<ServiceScheduleView>('week');
+  const [anchor, setAnchor] = useState(() => dayjs().startOf('day'));
+  const [expertise, setExpertise] = useState<string[]>([]);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [selectedRequest, setSelectedRequest] = useState<ServiceRequest | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+
+  const days = useMemo(() => getVisibleDays(view, anchor), [view, anchor]);
+  const from = days[0].format(DATE_KEY_FORMAT);
+  const to = days[days.length - 1].format(DATE_KEY_FORMAT);
+  const today = dayjs().format(DATE_KEY_FORMAT);
+
+  const { scheduled, unscheduled, loading, error, refresh, reschedule } = useServiceSchedule(from, to);
+  const { engineers } = useServiceEngineers();
+
+  const visibleEngineers = useMemo(() =>
+    engineers.filter(engineer =>
+      engineer.id && (expertise.length === 0 || engineer.expertise.some(type => expertise.includes(type)))
+    ),
+    [engineers, expertise]
+  );
+
+  // Unassigned visits only make sense without an expertise filter
+  const showUnassigned = expertise.length === 0;
+  const visibleRequests = useMemo(() => {
+    const engineerIds = new Set(visibleEngineers.map(engineer => engineer.id));
+    return scheduled.filter(request =>
+      request.service_engineer ? engineerIds.has(request.service_engineer) : showUnassigned
+    );
+  }, [scheduled, visibleEngineers, showUnassigned]);
+
+  const doubleBookings = useMemo(() => findDoubleBookings(scheduled), [scheduled]);
+
+  const requestsByCell = useMemo(() => {
+    const cells = new Map<string, ServiceRequest[]>();
+    visibleRequests.forEach(request => {
+      if (!request.date_of_service) return;
+      const date = getServiceDateKey(request.date_of_service);
+      [`${request.service_engineer || UNASSIGNED}|${date}`, `all|${date}`].forEach(key => {
+        cells.set(key, [...(cells.get(key) || []), request]);
+      });
+    });
+    return cells;
+  }, [visibleRequests]);
+
+  const isDoubleBooked = (request: ServiceRequest) =>
+    !!request.service_engineer && !!request.date_of_service &&
+    doubleBookings.has(`${request.service_engineer}|${getServiceDateKey(request.date_of_service)}`);
+
+  const isDraggable = (request: ServiceRequest) =>
+    canReschedule && OPEN_SERVICE_STATUSES.includes(request.status);
+
+  const shiftAnchor = (direction: 1 | -1) => {
+    const unit = view === 'day' ? 'day' : view === 'week' ? 'week' : 'month';
+    setAnchor(prev => prev.add(direction, unit));
+  };
+
+  // engineerId undefined keeps the request's current engineer (month view)
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>, date: string, engineerId?: string | null) => {
+    event.preventDefault();
+    setDropTarget(null);
+
+    const request = [...scheduled, ...unscheduled].find(item => item.id === event.dataTransfer.getData('text/plain'));
+    if (!request) return;
+
+    const currentEngineer = request.service_engineer || null;
+    const targetEngineer = engineerId === undefined ? currentEngineer : engineerId;
+    const currentDate = request.date_of_service ? getServiceDateKey(request.date_of_service) : null;
+    if (currentDate === date && targetEngineer === currentEngineer) return;
+
+    if (date < today) {
+      notifications.show({ title: 'Cannot reschedule', message: 'Visits cannot be scheduled in the past', color: 'orange' });
+      return;
+    }
+    if (targetEngineer !== currentEngineer && !canReassign) {
+      notifications.show({ title: 'Cannot reassign', message: 'You do not have permission to assign engineers', color: 'orange' });
+      return;
+    }
+
+    const move = () => reschedule(request, date, targetEngineer).catch(() => {
+      // Error notification is shown by the hook
+    });
+
+    const clashes = targetEngineer
+      ? scheduled.filter(item =>
+          item.id !== request.id &&
+          item.service_engineer === targetEngineer &&
+          !!item.date_of_service &&
+          getServiceDateKey(item.date_of_service) === date &&
+          OPEN_SERVICE_STATUSES.includes(item.status)
+        )
+      : [];
+
+    if (clashes.length >= ENGINEER_DAILY_CAPACITY) {
+      const engineerName = engineers.find(engineer => engineer.id === targetEngineer)?.name || 'This engineer';
+      modals.openConfirmModal({
+        title: 'Double Booking',
+        children: (
+          <Text size="sm">
+            {engineerName} already has {clashes.map(item => item.ticket_no).join(', ')} on{' '}
+            {dayjs(date).format('D MMM YYYY')}. Book {request.ticket_no} as well?
+          </Text>
+        ),
+        labels: { confirm: 'Book Anyway', cancel: 'Cancel' },
+        confirmProps: { color: 'orange' },
+        onConfirm: move
+      });
+      return;
+    }
+
+    move();
+  };
+
+  const dropProps = (cellKey: string, date: string, engineerId?: string | null) => canReschedule ? {
+    onDragOver: (event: React.DragEvent<HTMLDivElement>) => {
+      event.preventDefault();
+      if (dropTarget !== cellKey) setDropTarget(cellKey);
+    },
+    onDragLeave: () => setDropTarget(prev => (prev === cellKey ? null : prev)),
+    onDrop: (event: React.DragEvent<HTMLDivElement>) => handleDrop(event, date, engineerId)
+  } : {};
+
+  const cellStyle = (cellKey: string, date: string, doubleBooked = false): React.CSSProperties => ({
+    minHeight: 80,
+    padding: 4,
+    borderRadius: 4,
+    border: `1px solid var(--mantine-color-${doubleBooked ? 'red-4' : 'gray-3'})`,
+    backgroundColor: dropTarget === cellKey
+      ? 'var(--mantine-color-blue-0)'
+      : date === today
+        ? 'var(--mantine-color-yellow-0)'
+        : date < today
+          ? 'var(--mantine-color-gray-0)'
+          : undefined
+  });
+
+  const lanes = [
+    ...visibleEngineers.map(engineer => ({
+      id: engineer.id || '',
+      name: engineer.name,
+      expertise: engineer.expertise
+    })),
+    ...(showUnassigned ? [{ id: UNASSIGNED, name: 'Unassigned', expertise: [] }] : [])
+  ];
+
+  const renderLaneView = () => (
+    <ScrollArea>
+      <div
+        style={{
+          display: 'grid',
+          gridTemplateColumns: `180px repeat(${days.length}, minmax(${view === 'day' ? 240 : 130}px, 1fr))`,
+          gap: 4,
+          minWidth: view === 'day' ? 420 : 1100
+        }}
+      >
+        <div />
+        {days.map(day => (
+          <Text key={day.format(DATE_KEY_FORMAT)} size="sm" fw={600} ta="center">
+            {day.format(view === 'day' ? 'dddd D MMM' : 'ddd D MMM')}
+          </Text>
+        ))}
+
+        {lanes.map(lane => (
+          <React.Fragment key={lane.id}>
+            <Stack gap={2} p={4}>
+              <Text size="sm" fw={500} truncate>{lane.name}</Text>
+              <Group gap={2}>
+                {lane.expertise.map(type => (
+                  <Badge key={type} size="xs" variant="light">{getServiceTypeLabel(type)}</Badge>
+                ))}
+              </Group>
+            </Stack>
+            {days.map(day => {
+              const date = day.format(DATE_KEY_FORMAT);
+              const cellKey = `${lane.id}|${date}`;
+              const requests = requestsByCell.get(cellKey) || [];
+              const doubleBooked = doubleBookings.has(cellKey);
+              return (
+                <div
+                  key={cellKey}
+                  style={cellStyle(cellKey, date, doubleBooked)}
+                  {...dropProps(cellKey, date, lane.id === UNASSIGNED ? null : lane.id)}
+                >
+                  <Stack gap={4}>
+                    {requests.map(request => (
+                      <ScheduleCard
+                        key={request.id}
+                        request={request}
+                        doubleBooked={isDoubleBooked(request)}
+                        draggable={isDraggable(request)}
+                        onOpen={setSelectedRequest}
+                      />
+                    ))}
+                  </Stack>
+                </div>
+              );
+            })}
+          </React.Fragment>
+        ))}
+      </div>
+      {lanes.length === 0 && (
+        <Text c="dimmed" ta="center" py="xl">No engineers match the selected expertise</Text>
+      )}
+    </ScrollArea>
+  );
+
+  const renderMonthView = () => (
+    <ScrollArea>
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(7, minmax(120px, 1fr))', gap: 4, minWidth: 860 }}>
+        {days.slice(0, 7).map(day => (
+          <Text key={day.day()} size="sm" fw={600} ta="center">{day.format('ddd')}</Text>
+        ))}
+        {days.map(day => {
+          const date = day.format(DATE_KEY_FORMAT);
+          const cellKey = `all|${date}`;
+          const requests = requestsByCell.get(cellKey) || [];
+          const hasDoubleBooking = requests.some(isDoubleBooked);
+          return (
+            <div key={cellKey} style={cellStyle(cellKey, date, hasDoubleBooking)} {...dropProps(cellKey, date)}>
+              <Text
+                size="xs"
+                fw={date === today ? 700 : 400}
+                c={day.month() === anchor.month() ? undefined : 'dimmed'}
+                mb={4}
+                style={{ cursor: 'pointer' }}
+                onClick={() => {
+                  setAnchor(day);
+                  setView('day');
+                }}
+              >
+                {day.date()}
+              </Text>
+              <Stack gap={4}>
+                {requests.slice(0, MONTH_CELL_LIMIT).map(request => (
+                  <ScheduleCard
+                    key={request.id}
+                    request={request}
+                    showEngineer
+                    doubleBooked={isDoubleBooked(request)}
+                    draggable={isDraggable(request)}
+                    onOpen={setSelectedRequest}
+                  />
+                ))}
+                {requests.length > MONTH_CELL_LIMIT && (
+                  <Button
+                    variant="subtle"
+                    size="compact-xs"
+                    onClick={() => {
+                      setAnchor(day);
+                      setView('day');
+                    }}
+                  >
+                    +{requests.length - MONTH_CELL_LIMIT} more
+                  </Button>
+                )}
+              </Stack>
+            </div>
+          );
+        })}
+      </div>
+    </ScrollArea>
+  );
+
+  const doubleBookedCount = [...doubleBookings].filter(key => {
+    const [engineerId] = key.split('|');
+    return visibleEngineers.some(engineer => engineer.id === engineerId);
+  }).length;
+
+  return (
+    <Stack gap="md" p={{ base: 'sm', md: 'md' }}>
+      <Paper p="md">
+        <Stack gap="md">
+          <Group justify="space-between" style={{ flexWrap: 'wrap', gap: 'md' }}>
+            <div>
+              <Title order={2}>Engineer Schedule</Title>
+              <Text size="sm" c="dimmed">
+                {canReschedule
+                  ? 'Drag a visit to another day or engineer to reschedule it'
+                  : 'Scheduled service visits per engineer'}
+              </Text>
+            </div>
+            <Button
+              leftSection={<IconRefresh size={16} />}
+              variant="subtle"
+              onClick={refresh}
+              loading={loading}
+            >
+              Refresh
+            </Button>
+          </Group>
+
+          <Group justify="space-between" style={{ flexWrap: 'wrap', gap: 'md' }}>
+            <Group gap="xs">
+              <ActionIcon variant="default" onClick={() => shiftAnchor(-1)} aria-label="Previous">
+                <IconChevronLeft size={16} />
+              </ActionIcon>
+              <Button variant="default" size="xs" onClick={() => setAnchor(dayjs().startOf('day'))}>
+                Today
+              </Button>
+              <ActionIcon variant="default" onClick={() => shiftAnchor(1)} aria-label="Next">
+                <IconChevronRight size={16} />
+              </ActionIcon>
+              <Text fw={600} ml="xs">{getRangeLabel(view, days, anchor)}</Text>
+            </Group>
+            <Group gap="sm">
+              <MultiSelect
+                placeholder={expertise.length ? undefined : 'Any expertise'}
+                data={SERVICE_TYPES}
+                value={expertise}
+                onChange={setExpertise}
+                clearable
+                w={260}
+              />
+              <SegmentedControl
+                value={view}
+                onChange={(value) => setView(value as ServiceScheduleView)}
+                data={SERVICE_SCHEDULE_VIEWS}
+              />
+            </Group>
+          </Group>
+
+          <Group gap="xs">
+            <Badge variant="light" leftSection={<IconCalendarEvent size={12} />}>
+              {visibleRequests.length} visit{visibleRequests.length === 1 ? '' : 's'}
+            </Badge>
+            {doubleBookedCount > 0 && (
+              <Badge color="red" variant="light" leftSection={<IconAlertTriangle size={12} />}>
+                {doubleBookedCount} double-booked engineer-day{doubleBookedCount === 1 ? '' : 's'}
+              </Badge>
+            )}
+          </Group>
+
+          {error && <Alert color="red" title="Error">{error}</Alert>}
+        </Stack>
+      </Paper>
+
+      <Grid>
+        <Grid.Col span={{ base: 12, lg: 9 }}>
+          <Paper p="md">
+            {loading && scheduled.length === 0 ? (
+              <Loader size="sm" style={{ display: 'block', margin: '2rem auto' }} />
+            ) : view === 'month' ? renderMonthView() : renderLaneView()}
+          </Paper>
+        </Grid.Col>
+        <Grid.Col span={{ base: 12, lg: 3 }}>
+          <Paper p="md">
+            <Stack gap="xs">
+              <Group justify="space-between">
+                <Text fw={600}>Unscheduled</Text>
+                <Badge variant="light">{unscheduled.length}</Badge>
+              </Group>
+              <Text size="xs" c="dimmed">
+                Open requests without a service date{canReschedule ? '; drag one onto the calendar' : ''}
+              </Text>
+              <ScrollArea.Autosize mah={600}>
+                <Stack gap={4}>
+                  {unscheduled.length === 0 ? (
+                    <Text size="sm" c="dimmed" ta="center" py="md">Nothing waiting</Text>
+                  ) : (
+                    unscheduled.map(request => (
+                      <ScheduleCard
+                        key={request.id}
+                        request={request}
+                        showEngineer
+                        draggable={isDraggable(request)}
+                        onOpen={setSelectedRequest}
+                      />
+                    ))
+                  )}
+                </Stack>
+              </ScrollArea.Autosize>
+            </Stack>
+          </Paper>
+        </Grid.Col>
+      </Grid>
+
+      <Modal
+        opened={!!selectedRequest}
+        onClose={() => {
+          setSelectedRequest(null);
+          setIsEditing(false);
+        }}
+        title={isEditing ? 'Edit Service Request' : undefined}
+        size="xl"
+      >
+        {selectedRequest && (isEditing ? (
+          <ServiceRequestForm
+            serviceRequest={selectedRequest}
+            onClose={() => setIsEditing(false)}
+            onSuccess={() => {
+              setSelectedRequest(null);
+              setIsEditing(false);
+              refresh();
+            }}
+          />
+        ) : (
+          <ServiceRequestDetail
+            serviceRequest={selectedRequest}
+            onClose={() => setSelectedRequest(null)}
+            onEdit={() => setIsEditing(true)}
+          />
+        ))}
+      </Modal>
+    </Stack>
+  );
+};
@@ -1,14 +1,20 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { notifications } from '@mantine/notifications';
-import { serviceRequestService } from './service_request.service';
+import { serviceRequestService, computeServiceRequestTimings, rankEngineers } from './service_request.service';
 import type { 
   ServiceRequest, 
+  EngineerAssignmentContext,
+  ServiceRequestAttachment,
+  ServiceRequestEvent,
+  ServiceRequestStatus,
   CreateServiceRequestData, 
   UpdateServiceRequestData, 
   ServiceRequestFilters, 
+  UploadedServiceRequestFile,
   PaginationParams, 
   PaginatedResponse 
 } from './service_request.type';
+import type { ServiceEngineer } from '../service-engineer/service-engineer.type';
 
 export const useServiceRequests = (
   initialFilters: ServiceRequestFilters = {},
@@ -111,6 +117,237 @@ export const useServiceRequest = (id?: string) => {
   };
 };
 
+// History of a request; pass a changing refreshKey (e.g. updated_at) to reload after edits
+export const useServiceRequestEvents = (serviceRequestId?: string, refreshKey?: string) => {
+  const [events, setEvents] = useState<ServiceRequestEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEvents = useCallback(async () => {
+    if (!serviceRequestId) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await serviceRequestService.getServiceRequestEvents(serviceRequestId);
+      setEvents(result);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch service request history';
+      setError(errorMessage);
+      console.error('Failed to fetch service request history:', errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, [serviceRequestId]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents, refreshKey]);
+
+  const addComment = useCallback(async (comment: string, actor: { id: string; email: string }) => {
+    if (!serviceRequestId) return;
+    try {
+      await serviceRequestService.addServiceRequestComment(serviceRequestId, comment, actor);
+      await fetchEvents();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to add comment';
+      notifications.show({
+        title: 'Error',
+        message: errorMessage,
+        color: 'red'
+      });
+      throw err;
+    }
+  }, [serviceRequestId, fetchEvents]);
+
+  return {
+    events,
+    timings: computeServiceRequestTimings(events),
+    loading,
+    error,
+    refresh: fetchEvents,
+    addComment
+  };
+};
+
+export const useServiceRequestAttachments = (serviceRequestId?: string) => {
+  const [attachments, setAttachments] = useState<ServiceRequestAttachment[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAttachments = useCallback(async () => {
+    if (!serviceRequestId) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await serviceRequestService.getServiceRequestAttachments(serviceRequestId);
+      setAttachments(result);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch attachments';
+      setError(errorMessage);
+      console.error('Failed to fetch attachments:', errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, [serviceRequestId]);
+
+  useEffect(() => {
+    fetchAttachments();
+  }, [fetchAttachments]);
+
+  // targetId is for requests created after the hook mounted
+  const addAttachments = useCallback(async (files: UploadedServiceRequestFile[], targetId?: string) => {
+    const requestId = targetId || serviceRequestId;
+    if (!requestId || !files.length) return [];
+    try {
+      const result = await serviceRequestService.addServiceRequestAttachments(requestId, files);
+      if (requestId === serviceRequestId) await fetchAttachments();
+      return result;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to save attachments';
+      notifications.show({
+        title: 'Error',
+        message: errorMessage,
+        color: 'red'
+      });
+      throw err;
+    }
+  }, [serviceRequestId, fetchAttachments]);
+
+  const deleteAttachment = useCallback(async (attachment: ServiceRequestAttachment) => {
+    try {
+      await serviceRequestService.deleteServiceRequestAttachment(attachment);
+      setAttachments(prev => prev.filter(item => item.id !== attachment.id));
+      notifications.show({
+        title: 'Success',
+        message: `${attachment.file_name} deleted`,
+        color: 'green'
+      });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete attachment';
+      notifications.show({
+        title: 'Error',
+        message: errorMessage,
+        color: 'red'
+      });
+      throw err;
+    }
+  }, []);
+
+  return {
+    attachments,
+    loading,
+    error,
+    refresh: fetchAttachments,
+    addAttachments,
+    deleteAttachment
+  };
+};
+
+// Calendar data for [from, to] (YYYY-MM-DD) plus the requests still waiting for a date
+export const useServiceSchedule = (from: string, to: string) => {
+  const [scheduled, setScheduled] = useState<ServiceRequest[]>([]);
+  const [unscheduled, setUnscheduled] = useState<ServiceRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSchedule = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [scheduledResult, unscheduledResult] = await Promise.all([
+        serviceRequestService.getServiceSchedule(from, to),
+        serviceRequestService.getUnscheduledServiceRequests()
+      ]);
+      setScheduled(scheduledResult);
+      setUnscheduled(unscheduledResult);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch service schedule';
+      setError(errorMessage);
+      console.error('Failed to fetch service schedule:', errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, [from, to]);
+
+  useEffect(() => {
+    fetchSchedule();
+  }, [fetchSchedule]);
+
+  const reschedule = useCallback(async (serviceRequest: ServiceRequest, date: string, engineerId: string | null) => {
+    try {
+      const result = await serviceRequestService.rescheduleServiceRequest(serviceRequest, date, engineerId);
+      setUnscheduled(prev => prev.filter(request => request.id !== result.id));
+      setScheduled(prev => {
+        const others = prev.filter(request => request.id !== result.id);
+        return date >= from && date <= to ? [...others, result] : others;
+      });
+      notifications.show({
+        title: 'Rescheduled',
+        message: `${result.ticket_no} moved to ${new Date(`${date}T00:00:00`).toLocaleDateString()}${result.engineer ? ` with ${result.engineer.name}` : ''}`,
+        color: 'green'
+      });
+      return result;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to reschedule service request';
+      notifications.show({
+        title: 'Error',
+        message: errorMessage,
+        color: 'red'
+      });
+      throw err;
+    }
+  }, [from, to]);
+
+  return {
+    scheduled,
+    unscheduled,
+    loading,
+    error,
+    refresh: fetchSchedule,
+    reschedule
+  };
+};
+
+// Engineers ranked for assigning serviceRequest, best first
+export const useEngineerSuggestions = (serviceRequest: ServiceRequest, engineers: ServiceEngineer[]) => {
+  const [context, setContext] = useState<EngineerAssignmentContext | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchContext = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    setContext(null);
+    try {
+      setContext(await serviceRequestService.getEngineerAssignmentContext(serviceRequest));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch engineer workload';
+      setError(errorMessage);
+      console.error('Failed to fetch engineer workload:', errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, [serviceRequest]);
+
+  useEffect(() => {
+    fetchContext();
+  }, [fetchContext]);
+
+  // Without workload data, rank on expertise alone rather than showing nothing
+  const suggestions = useMemo(
+    () => rankEngineers(serviceRequest, engineers, context),
+    [serviceRequest, engineers, context]
+  );
+
+  return {
+    suggestions,
+    hasWorkload: !!context,
+    loading,
+    error,
+    refresh: fetchContext
+  };
+};
+
 export const useServiceRequestActions = () => {
   const [loading, setLoading] = useState(false);
 
@@ -184,7 +421,7 @@ export const useServiceRequestActions = () => {
     }
   }, []);
 
-  const updateStatus = useCallback(async (id: string, status: 'pending' | 'completed' | 'cancelled'): Promise<ServiceRequest> => {
+  const updateStatus = useCallback(async (id: string, status: ServiceRequestStatus): Promise<ServiceRequest> => {
     setLoading(true);
     try {
       const result = await serviceRequestService.updateServiceRequestStatus(id, status);
@@ -3,10 +3,215 @@ import type {
   ServiceRequest, 
   CreateServiceRequestData, 
   UpdateServiceRequestData, 
+  EngineerAssignmentContext,
+  EngineerAssignmentRecord,
+  EngineerSuggestion,
+  EngineerSuggestionReason,
   ServiceRequestFilters, 
+  ServiceRequestAttachment,
+  ServiceRequestAttachmentKind,
+  ServiceRequestEvent,
+  ServiceRequestStatus,
+  ServiceRequestTimings,
+  UploadedServiceRequestFile,
   PaginationParams, 
   PaginatedResponse 
 } from './service_request.type';
+import {
+  CLOSED_SERVICE_STATUSES,
+  ENGINEER_DAILY_CAPACITY,
+  ENGINEER_SUGGESTION_WEIGHTS,
+  OPEN_SERVICE_STATUSES,
+  SERVICE_FILES_BUCKET,
+  SERVICE_STATUSES,
+  SERVICE_STATUS_TRANSITIONS,
+  SERVICE_TYPES
+} from './service_request.type';
+import type { ServiceEngineer } from '../service-engineer/service-engineer.type';
+
+const ENGINEER_EVENT_TYPES = ['engineer_assigned', 'engineer_reassigned', 'engineer_unassigned'];
+const ENGINEER_ASSIGNMENT_COLUMNS = 'id, ticket_no, service_engineer, organization_id, device_id, date_of_service, status';
+const MAX_TICKET_NUMBER_ATTEMPTS = 3;
+
+const isTicketNumberConflict = (error: { code?: string; message?: string }) =>
+  error.code === '23505' && !!error.message?.includes('service_requests_ticket_no_key');
+
+export const getAttachmentKind = (mimeType: string): ServiceRequestAttachmentKind => {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('video/')) return 'video';
+  if (mimeType === 'application/pdf') return 'pdf';
+  return 'document';
+};
+
+// supabase-js does not report upload progress, so PUT to a signed upload URL directly
+const uploadWithProgress = (signedUrl: string, file: File, onProgress: (percent: number) => void) =>
+  new Promise<void>((resolve, reject) => {
+    const body = new FormData();
+    body.append('cacheControl', '3600');
+    body.append('', file);
+
+    const xhr = new XMLHttpRequest();
+    xhr.open('PUT', signedUrl);
+    xhr.setRequestHeader('x-upsert', 'false');
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress(Math.round((event.loaded / event.total) * 100));
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress(100);
+        resolve();
+      } else {
+        let message = `Upload failed (${xhr.status})`;
+        try {
+          message = JSON.parse(xhr.responseText).message || message;
+        } catch {
+          // Non-JSON error body
+        }
+        reject(new Error(message));
+      }
+    };
+    xhr.onerror = () => reject(new Error('Upload failed: network error'));
+    xhr.send(body);
+  });
+
+// Calendar day of a date_of_service value; the form stores dates as UTC midnight
+export const getServiceDateKey = (dateOfService: string) => new Date(dateOfService).toISOString().slice(0, 10);
+
+// "<engineer id>|<YYYY-MM-DD>" for every engineer-day with more open visits than ENGINEER_DAILY_CAPACITY
+export const findDoubleBookings = (serviceRequests: ServiceRequest[]): Set<string> => {
+  const visits = new Map<string, number>();
+  serviceRequests.forEach(request => {
+    if (!request.service_engineer || !request.date_of_service) return;
+    if (!OPEN_SERVICE_STATUSES.includes(request.status)) return;
+    const key = `${request.service_engineer}|${getServiceDateKey(request.date_of_service)}`;
+    visits.set(key, (visits.get(key) || 0) + 1);
+  });
+  return new Set([...visits].filter(([, count]) => count > ENGINEER_DAILY_CAPACITY).map(([key]) => key));
+};
+
+export const canTransitionServiceStatus = (from: ServiceRequestStatus, to: ServiceRequestStatus) =>
+  from === to || SERVICE_STATUS_TRANSITIONS[from].includes(to);
+
+// Compact "2d 3h" / "4h 10m" / "25m" form of a duration; the sign is ignored
+export const formatDuration = (ms: number | null) => {
+  if (ms === null) return '—';
+  const minutes = Math.round(Math.abs(ms) / 60000);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+};
+
+export const getServiceStatusLabel = (status: string | null | undefined) =>
+  SERVICE_STATUSES.find(s => s.value === status)?.label || status || 'None';
+
+// Derive time-to-assign and time-to-close from a request's history (oldest first)
+export const computeServiceRequestTimings = (events: ServiceRequestEvent[]): ServiceRequestTimings => {
+  const created = events.find(event => event.event_type === 'created');
+  if (!created) return { timeToAssign: null, timeToClose: null };
+  const createdAt = new Date(created.created_at).getTime();
+
+  const firstAssignment = events.find(event => event.event_type === 'engineer_assigned');
+
+  const statusChanges = events.filter(event => event.event_type === 'status_changed');
+  const latestStatus = statusChanges[statusChanges.length - 1];
+  const isClosed = !!latestStatus?.to_value && CLOSED_SERVICE_STATUSES.includes(latestStatus.to_value as ServiceRequestStatus);
+
+  return {
+    timeToAssign: firstAssignment ? new Date(firstAssignment.created_at).getTime() - createdAt : null,
+    timeToClose: isClosed ? new Date(latestStatus.created_at).getTime() - createdAt : null
+  };
+};
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+// Ranks engineers for a request, best first: matching expertise, fewest open requests,
+// no other visit on the requested date and earlier work at the same device/organization.
+// Without a context (still loading or failed) only expertise is judged, so no
+// workload or availability claims are made.
+export const rankEngineers = (
+  serviceRequest: ServiceRequest,
+  engineers: ServiceEngineer[],
+  context: EngineerAssignmentContext | null
+): EngineerSuggestion[] => {
+  const weights = ENGINEER_SUGGESTION_WEIGHTS;
+  const serviceTypeLabel = SERVICE_TYPES.find(t => t.value === serviceRequest.service_type)?.label || serviceRequest.service_type;
+  const requestDate = serviceRequest.date_of_service ? getServiceDateKey(serviceRequest.date_of_service) : null;
+  const otherOpenRequests = context?.openRequests.filter(request => request.id !== serviceRequest.id) || [];
+
+  const suggestions = engineers
+    .filter((engineer): engineer is ServiceEngineer & { id: string } => !!engineer.id)
+    .map(engineer => {
+      const reasons: EngineerSuggestionReason[] = [];
+      let score = 0;
+
+      const hasExpertise = engineer.expertise.includes(serviceRequest.service_type);
+      if (hasExpertise) {
+        score += weights.expertise;
+        reasons.push({ label: `${serviceTypeLabel} expertise`, tone: 'positive' });
+      } else {
+        reasons.push({ label: `No ${serviceTypeLabel} expertise`, tone: 'negative' });
+      }
+
+      const openRequests = otherOpenRequests.filter(request => request.service_engineer === engineer.id);
+      const conflicts: EngineerAssignmentRecord[] = requestDate
+        ? openRequests.filter(request =>
+            !!request.date_of_service && getServiceDateKey(request.date_of_service) === requestDate
+          )
+        : [];
+
+      if (context) {
+        score += openRequests.length * weights.openRequest;
+        reasons.push(openRequests.length === 0
+          ? { label: 'No open requests', tone: 'positive' }
+          : { label: plural(openRequests.length, 'open request'), tone: 'neutral' });
+
+        if (requestDate) {
+          // Parsed as local midnight; a bare YYYY-MM-DD would be UTC and show the previous day west of UTC
+          const dateLabel = new Date(`${requestDate}T00:00:00`).toLocaleDateString();
+          if (conflicts.length >= ENGINEER_DAILY_CAPACITY) {
+            score += conflicts.length * weights.dateConflict;
+            reasons.push({
+              label: `Booked on ${dateLabel} (${conflicts.map(request => request.ticket_no).join(', ')})`,
+              tone: 'negative'
+            });
+          } else {
+            reasons.push({ label: `Free on ${dateLabel}`, tone: 'positive' });
+          }
+        }
+
+        const pastVisits = context.history.filter(request =>
+          request.service_engineer === engineer.id && request.id !== serviceRequest.id
+        );
+        const deviceVisits = pastVisits.filter(request => request.device_id === serviceRequest.device_id).length;
+        const organizationVisits = pastVisits.length - deviceVisits;
+        if (deviceVisits > 0) {
+          score += Math.min(deviceVisits, weights.maxDeviceVisits) * weights.deviceVisit;
+          reasons.push({ label: `Serviced this device ${plural(deviceVisits, 'time')}`, tone: 'positive' });
+        }
+        if (organizationVisits > 0) {
+          score += Math.min(organizationVisits, weights.maxOrganizationVisits) * weights.organizationVisit;
+          reasons.push({
+            label: `${plural(organizationVisits, 'other visit')} to ${serviceRequest.organization?.name || 'this organization'}`,
+            tone: 'positive'
+          });
+        }
+      }
+
+      if (serviceRequest.service_engineer === engineer.id) {
+        reasons.push({ label: 'Currently assigned', tone: 'neutral' });
+      }
+
+      return { engineer, score, hasExpertise, openRequests: openRequests.length, conflicts, reasons };
+    });
+
+  return suggestions.sort((a, b) =>
+    b.score - a.score ||
+    a.openRequests - b.openRequests ||
+    a.engineer.name.localeCompare(b.engineer.name)
+  );
+};
 
 export class ServiceRequestService {
   
@@ -100,34 +305,44 @@ export class ServiceRequestService {
   }
 
   async createServiceRequest(serviceRequestData: CreateServiceRequestData): Promise<ServiceRequest> {
-    // Generate ticket number
-    const ticketNo = await this.generateTicketNumber(serviceRequestData.organization_id, serviceRequestData.device_id);
-    
-    const { data, error } = await supabase
-      .from('service_requests')
-      .insert({
-        ...serviceRequestData,
-        ticket_no: ticketNo
-      })
-      .select(`
-        *,
-        organization:company_details(id, name),
-        device:devices(id, device_name, serial_number)
-      `)
-      .single();
+    // Ticket numbers are allocated by the database; a unique violation on ticket_no can
+    // still happen if a ticket was inserted with a hand-picked number, so retry with a new one
+    for (let attempt = 1; ; attempt++) {
+      const ticketNo = await this.generateTicketNumber(serviceRequestData.organization_id, serviceRequestData.device_id);
+
+      const { data, error } = await supabase
+        .from('service_requests')
+        .insert({
+          ...serviceRequestData,
+          ticket_no: ticketNo
+        })
+        .select(`
+          *,
+          organization:company_details(id, name),
+          device:devices(id, device_name, serial_number)
+        `)
+        .single();
+
+      if (error) {
+        if (isTicketNumberConflict(error) && attempt < MAX_TICKET_NUMBER_ATTEMPTS) {
+          continue;
+        }
+        console.error('Supabase error creating service request:', error);
+        throw new Error(error.message || 'Failed to create service request');
+      }
 
-    if (error) {
-      console.error('Supabase error creating service request:', error);
-      throw new Error(error.message || 'Failed to create service request');
+      // Enrich with engineer data
+      const enrichedData = await this.enrichWithEngineerData([data]);
+      return enrichedData[0];
     }
-
-    // Enrich with engineer data
-    const enrichedData = await this.enrichWithEngineerData([data]);
-    return enrichedData[0];
   }
 
   async updateServiceRequest(serviceRequestData: UpdateServiceRequestData): Promise<ServiceRequest> {
     const { id, ...updateData } = serviceRequestData;
+
+    if (updateData.status) {
+      await this.assertStatusTransition(id, updateData.status);
+    }
     
     const { data, error } = await supabase
       .from('service_requests')
@@ -173,7 +388,9 @@ export class ServiceRequestService {
     return enrichedData[0];
   }
 
-  async updateServiceRequestStatus(id: string, status: 'pending' | 'completed' | 'cancelled'): Promise<ServiceRequest> {
+  async updateServiceRequestStatus(id: string, status: ServiceRequestStatus): Promise<ServiceRequest> {
+    await this.assertStatusTransition(id, status);
+
     const { data, error } = await supabase
       .from('service_requests')
       .update({ status })
@@ -249,26 +466,292 @@ export class ServiceRequestService {
     return await this.enrichWithEngineerData(data || []);
   }
 
-  private async generateTicketNumber(organizationId: string, deviceId: string): Promise<string> {
-    const now = new Date();
-    const year = now.getFullYear();
-    const month = String(now.getMonth() + 1).padStart(2, '0');
-    const day = String(now.getDate()).padStart(2, '0');
-    
-    // Get organization and device short codes (first 4 chars of ID)
-    const orgCode = organizationId.slice(0, 4).toUpperCase();
-    const deviceCode = deviceId.slice(0, 4).toUpperCase();
-    
-    // Get sequential number for today
-    const { count } = await supabase
+  // Requests with a service date in [from, to] (YYYY-MM-DD, inclusive), cancelled ones excluded
+  async getServiceSchedule(from: string, to: string): Promise<ServiceRequest[]> {
+    const { data, error } = await supabase
+      .from('service_requests')
+      .select(`
+        *,
+        organization:company_details(id, name),
+        device:devices(id, device_name, serial_number)
+      `)
+      .gte('date_of_service', from)
+      .lte('date_of_service', `${to}T23:59:59.999Z`)
+      .neq('status', 'cancelled')
+      .order('date_of_service', { ascending: true });
+
+    if (error) {
+      console.error('Supabase error fetching service schedule:', error);
+      throw new Error(error.message || 'Failed to fetch service schedule');
+    }
+
+    return this.enrichWithEngineerData(data || []);
+  }
+
+  // Open requests still waiting for a service date, oldest first
+  async getUnscheduledServiceRequests(limit = 50): Promise<ServiceRequest[]> {
+    const { data, error } = await supabase
       .from('service_requests')
-      .select('*', { count: 'exact', head: true })
-      .gte('date_of_request', `${year}-${month}-${day}T00:00:00.000Z`)
-      .lt('date_of_request', `${year}-${month}-${day}T23:59:59.999Z`);
+      .select(`
+        *,
+        organization:company_details(id, name),
+        device:devices(id, device_name, serial_number)
+      `)
+      .is('date_of_service', null)
+      .in('status', OPEN_SERVICE_STATUSES)
+      .order('date_of_request', { ascending: true })
+      .limit(limit);
 
-    const sequentialNumber = String((count || 0) + 1).padStart(4, '0');
-    
-    return `${year}-${month}-${day}-${orgCode}-${deviceCode}-${sequentialNumber}`;
+    if (error) {
+      console.error('Supabase error fetching unscheduled service requests:', error);
+      throw new Error(error.message || 'Failed to fetch unscheduled service requests');
+    }
+
+    return this.enrichWithEngineerData(data || []);
+  }
+
+  // Moves a visit to another day and/or engineer. A request with an engineer and a
+  // date is booked, so early statuses advance to 'scheduled'; taking the engineer
+  // away sends it back to 'pending', which only an assigned request may do.
+  async rescheduleServiceRequest(serviceRequest: ServiceRequest, date: string, engineerId: string | null): Promise<ServiceRequest> {
+    const update: UpdateServiceRequestData = {
+      id: serviceRequest.id,
+      date_of_service: date,
+      service_engineer: engineerId
+    };
+
+    if (engineerId && ['pending', 'assigned', 'reopened'].includes(serviceRequest.status)) {
+      update.status = 'scheduled';
+    } else if (!engineerId && serviceRequest.service_engineer) {
+      if (!canTransitionServiceStatus(serviceRequest.status, 'pending')) {
+        throw new Error(`Cannot unassign the engineer of a ${getServiceStatusLabel(serviceRequest.status).toLowerCase()} request`);
+      }
+      update.status = 'pending';
+    }
+
+    return this.updateServiceRequest(update);
+  }
+
+  // Workload and history needed by rankEngineers for one request
+  async getEngineerAssignmentContext(serviceRequest: ServiceRequest): Promise<EngineerAssignmentContext> {
+    const [openResult, historyResult] = await Promise.all([
+      supabase
+        .from('service_requests')
+        .select(ENGINEER_ASSIGNMENT_COLUMNS)
+        .not('service_engineer', 'is', null)
+        .in('status', OPEN_SERVICE_STATUSES),
+      supabase
+        .from('service_requests')
+        .select(ENGINEER_ASSIGNMENT_COLUMNS)
+        .not('service_engineer', 'is', null)
+        .eq('organization_id', serviceRequest.organization_id)
+        .eq('status', 'completed')
+    ]);
+
+    const error = openResult.error || historyResult.error;
+    if (error) {
+      console.error('Supabase error fetching engineer workload:', error);
+      throw new Error(error.message || 'Failed to fetch engineer workload');
+    }
+
+    return {
+      openRequests: openResult.data || [],
+      history: historyResult.data || []
+    };
+  }
+
+  async getServiceRequestEvents(serviceRequestId: string): Promise<ServiceRequestEvent[]> {
+    const { data, error } = await supabase
+      .from('service_request_events')
+      .select('*')
+      .eq('service_request_id', serviceRequestId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Supabase error fetching service request history:', error);
+      throw new Error(error.message || 'Failed to fetch service request history');
+    }
+
+    const events: ServiceRequestEvent[] = data || [];
+
+    // Resolve engineer names for assignment events
+    const engineerIds = [...new Set(
+      events
+        .filter(event => ENGINEER_EVENT_TYPES.includes(event.event_type))
+        .flatMap(event => [event.from_value, event.to_value])
+        .filter((id): id is string => !!id)
+    )];
+
+    const engineerMap = new Map<string, { id: string; name: string }>();
+    if (engineerIds.length > 0) {
+      const { data: engineers, error: engineersError } = await supabase
+        .from('service_engineers')
+        .select('id, name')
+        .in('id', engineerIds);
+
+      if (!engineersError && engineers) {
+        engineers.forEach(eng => engineerMap.set(eng.id, eng));
+      }
+    }
+
+    return events.map(event => ENGINEER_EVENT_TYPES.includes(event.event_type)
+      ? {
+          ...event,
+          from_engineer: event.from_value ? engineerMap.get(event.from_value) || null : null,
+          to_engineer: event.to_value ? engineerMap.get(event.to_value) || null : null
+        }
+      : event
+    );
+  }
+
+  async addServiceRequestComment(serviceRequestId: string, comment: string, actor: { id: string; email: string }): Promise<void> {
+    const { error } = await supabase
+      .from('service_request_events')
+      .insert({
+        service_request_id: serviceRequestId,
+        event_type: 'comment',
+        comment,
+        actor_id: actor.id,
+        actor_email: actor.email
+      });
+
+    if (error) {
+      console.error('Supabase error adding service request comment:', error);
+      throw new Error(error.message || 'Failed to add comment');
+    }
+  }
+
+  async getServiceRequestAttachments(serviceRequestId: string): Promise<ServiceRequestAttachment[]> {
+    const { data, error } = await supabase
+      .from('service_request_attachments')
+      .select('*')
+      .eq('service_request_id', serviceRequestId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Supabase error fetching service request attachments:', error);
+      throw new Error(error.message || 'Failed to fetch attachments');
+    }
+
+    return data || [];
+  }
+
+  // Uploads to the service-files bucket only; link the result with addServiceRequestAttachments
+  async uploadServiceRequestFile(file: File, uploaderId: string, onProgress: (percent: number) => void): Promise<UploadedServiceRequestFile> {
+    const safeName = file.name.replace(/[^A-Za-z0-9._-]/g, '_');
+    const storagePath = `service-requests/${uploaderId}/${Date.now()}_${safeName}`;
+
+    const { data, error } = await supabase.storage
+      .from(SERVICE_FILES_BUCKET)
+      .createSignedUploadUrl(storagePath);
+
+    if (error || !data) {
+      console.error('Supabase error preparing upload:', error);
+      throw new Error(error?.message || 'Failed to prepare upload');
+    }
+
+    await uploadWithProgress(data.signedUrl, file, onProgress);
+
+    const { data: { publicUrl } } = supabase.storage
+      .from(SERVICE_FILES_BUCKET)
+      .getPublicUrl(storagePath);
+
+    return {
+      storage_path: storagePath,
+      file_url: publicUrl,
+      file_name: file.name,
+      file_kind: getAttachmentKind(file.type),
+      mime_type: file.type || null,
+      file_size: file.size
+    };
+  }
+
+  async addServiceRequestAttachments(serviceRequestId: string, files: UploadedServiceRequestFile[]): Promise<ServiceRequestAttachment[]> {
+    if (!files.length) return [];
+
+    const { data, error } = await supabase
+      .from('service_request_attachments')
+      .insert(files.map(file => ({ ...file, service_request_id: serviceRequestId })))
+      .select();
+
+    if (error) {
+      console.error('Supabase error adding service request attachments:', error);
+      throw new Error(error.message || 'Failed to save attachments');
+    }
+
+    return data || [];
+  }
+
+  // For uploads discarded before they were linked to a request
+  async removeUploadedServiceRequestFile(storagePath: string): Promise<void> {
+    const { error } = await supabase.storage
+      .from(SERVICE_FILES_BUCKET)
+      .remove([storagePath]);
+
+    if (error) {
+      console.error('Supabase error removing uploaded file:', error);
+      throw new Error(error.message || 'Failed to remove file');
+    }
+  }
+
+  async deleteServiceRequestAttachment(attachment: ServiceRequestAttachment): Promise<void> {
+    if (attachment.storage_path) {
+      await this.removeUploadedServiceRequestFile(attachment.storage_path);
+    }
+
+    const { error } = await supabase
+      .from('service_request_attachments')
+      .delete()
+      .eq('id', attachment.id);
+
+    if (error) {
+      console.error('Supabase error deleting service request attachment:', error);
+      throw new Error(error.message || 'Failed to delete attachment');
+    }
+
+    // Don't leave the legacy single-file columns pointing at the deleted object
+    const { error: legacyError } = await supabase
+      .from('service_requests')
+      .update({ uploaded_file_url: null, uploaded_reference: null })
+      .eq('id', attachment.service_request_id)
+      .eq('uploaded_file_url', attachment.file_url);
+
+    if (legacyError) {
+      console.error('Supabase error clearing legacy attachment:', legacyError);
+    }
+  }
+
+  // Fail early with a readable message; the database trigger enforces the same rules
+  private async assertStatusTransition(id: string, status: ServiceRequestStatus): Promise<void> {
+    const { data, error } = await supabase
+      .from('service_requests')
+      .select('status')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('Supabase error fetching service request status:', error);
+      throw new Error(error.message || 'Failed to fetch service request status');
+    }
+
+    if (!canTransitionServiceStatus(data.status, status)) {
+      throw new Error(`Cannot change status from ${getServiceStatusLabel(data.status)} to ${getServiceStatusLabel(status)}`);
+    }
+  }
+
+  private async generateTicketNumber(organizationId: string, deviceId: string): Promise<string> {
+    // Format is configured in ticket_number_settings (Settings page)
+    const { data, error } = await supabase.rpc('next_ticket_number', {
+      org_id: organizationId,
+      device_id: deviceId
+    });
+
+    if (error || !data) {
+      console.error('Supabase error generating ticket number:', error);
+      throw new Error(error?.message || 'Failed to generate ticket number');
+    }
+
+    return data;
   }
 
   private async enrichWithEngineerData(serviceRequests: Partial<ServiceRequest>[]): Promise<ServiceRequest[]> {
@@ -1,3 +1,5 @@
+import type { ServiceEngineer } from '../service-engineer/service-engineer.type';
+
 export interface ServiceRequest {
   id: string;
   ticket_no: string;
@@ -10,13 +12,20 @@ export interface ServiceRequest {
   user_id: string;
   date_of_request: string;
   date_of_service?: string | null;
+  // Legacy single attachment, copied into service_request_attachments
   uploaded_reference?: string | null;
   uploaded_file_url?: string | null;
   mode_of_service?: string | null;
   service_engineer?: string | null;
   engineer_comments?: string | null;
-  status: "pending" | "completed" | "cancelled";
+  status: ServiceRequestStatus;
   payment_details?: string | null;
+  // SLA targets stamped on creation (sql/sla_policies.sql)
+  sla_policy_id?: string | null;
+  response_due_at?: string | null;
+  resolution_due_at?: string | null;
+  first_response_at?: string | null;
+  resolved_at?: string | null;
   created_at: string;
   updated_at: string;
   // Related data
@@ -43,7 +52,7 @@ export interface UpdateServiceRequestData extends Partial<Omit<CreateServiceRequ
   id: string;
   service_engineer?: string | null;
   engineer_comments?: string | null;
-  status?: "pending" | "completed" | "cancelled";
+  status?: ServiceRequestStatus;
   payment_details?: string | null;
 }
 
@@ -59,6 +68,66 @@ export interface ServiceRequestFilters {
   date_to?: string;
 }
 
+export type ServiceRequestStatus =
+  | 'pending'
+  | 'assigned'
+  | 'scheduled'
+  | 'in_progress'
+  | 'on_hold'
+  | 'completed'
+  | 'cancelled'
+  | 'reopened';
+
+export type ServiceRequestEventType =
+  | 'created'
+  | 'status_changed'
+  | 'engineer_assigned'
+  | 'engineer_reassigned'
+  | 'engineer_unassigned'
+  | 'service_date_changed'
+  | 'comment';
+
+export interface ServiceRequestEvent {
+  id: string;
+  service_request_id: string;
+  event_type: ServiceRequestEventType;
+  from_value: string | null;
+  to_value: string | null;
+  comment: string | null;
+  actor_id: string | null;
+  actor_email: string | null;
+  created_at: string;
+  // Engineer names for assignment events, resolved from service_engineers
+  from_engineer?: { id: string; name: string } | null;
+  to_engineer?: { id: string; name: string } | null;
+}
+
+export interface ServiceRequestTimings {
+  // Milliseconds from creation to first engineer assignment; null while unassigned
+  timeToAssign: number | null;
+  // Milliseconds from creation to the latest close; null while the request is open
+  timeToClose: number | null;
+}
+
+export type ServiceRequestAttachmentKind = 'image' | 'video' | 'pdf' | 'document';
+
+export interface ServiceRequestAttachment {
+  id: string;
+  service_request_id: string;
+  // Object key in the service-files bucket; null for files hosted elsewhere
+  storage_path: string | null;
+  file_url: string;
+  file_name: string;
+  file_kind: ServiceRequestAttachmentKind;
+  mime_type: string | null;
+  file_size: number | null;
+  uploaded_by: string | null;
+  created_at: string;
+}
+
+// A file already in storage that is not yet linked to a request
+export type UploadedServiceRequestFile = Omit<ServiceRequestAttachment, 'id' | 'service_request_id' | 'uploaded_by' | 'created_at'>;
+
 export interface PaginationParams {
   page: number;
   pageSize: number;
@@ -81,10 +150,120 @@ export const SERVICE_TYPES = [
 
 export const SERVICE_STATUSES = [
   { value: 'pending', label: 'Pending' },
+  { value: 'assigned', label: 'Assigned' },
+  { value: 'scheduled', label: 'Scheduled' },
+  { value: 'in_progress', label: 'In Progress' },
+  { value: 'on_hold', label: 'On Hold' },
   { value: 'completed', label: 'Completed' },
-  { value: 'cancelled', label: 'Cancelled' }
+  { value: 'cancelled', label: 'Cancelled' },
+  { value: 'reopened', label: 'Reopened' }
 ] as const;
 
+export const SERVICE_STATUS_COLORS: Record<ServiceRequestStatus, string> = {
+  pending: 'yellow',
+  assigned: 'blue',
+  scheduled: 'indigo',
+  in_progress: 'cyan',
+  on_hold: 'orange',
+  completed: 'green',
+  cancelled: 'red',
+  reopened: 'grape'
+};
+
+// Allowed next statuses; mirrored by the enforce_service_request_status_transition trigger
+export const SERVICE_STATUS_TRANSITIONS: Record<ServiceRequestStatus, ServiceRequestStatus[]> = {
+  pending: ['assigned', 'scheduled', 'on_hold', 'cancelled'],
+  assigned: ['pending', 'scheduled', 'in_progress', 'on_hold', 'cancelled'],
+  scheduled: ['assigned', 'in_progress', 'on_hold', 'cancelled'],
+  in_progress: ['on_hold', 'completed', 'cancelled'],
+  on_hold: ['pending', 'assigned', 'scheduled', 'in_progress', 'cancelled'],
+  completed: ['reopened'],
+  cancelled: ['reopened'],
+  reopened: ['assigned', 'scheduled', 'in_progress', 'on_hold', 'completed', 'cancelled']
+};
+
+// Statuses that end a request; time-to-close is measured to the latest of these
+export const CLOSED_SERVICE_STATUSES: ServiceRequestStatus[] = ['completed', 'cancelled'];
+
+// Everything still being worked on
+export const OPEN_SERVICE_STATUSES: ServiceRequestStatus[] = [
+  'pending',
+  'assigned',
+  'scheduled',
+  'in_progress',
+  'on_hold',
+  'reopened'
+];
+
+export type ServiceScheduleView = 'day' | 'week' | 'month';
+
+export const SERVICE_SCHEDULE_VIEWS: { value: ServiceScheduleView; label: string }[] = [
+  { value: 'day', label: 'Day' },
+  { value: 'week', label: 'Week' },
+  { value: 'month', label: 'Month' }
+];
+
+// Visits one engineer can take per day; more than this is flagged as double-booked
+export const ENGINEER_DAILY_CAPACITY = 1;
+
+// Minimal request rows used to rank engineers for an assignment
+export interface EngineerAssignmentRecord {
+  id: string;
+  ticket_no: string;
+  service_engineer: string;
+  organization_id: string;
+  device_id: string;
+  date_of_service: string | null;
+  status: ServiceRequestStatus;
+}
+
+export interface EngineerAssignmentContext {
+  // Open requests of every engineer
+  openRequests: EngineerAssignmentRecord[];
+  // Completed requests at the request's organization
+  history: EngineerAssignmentRecord[];
+}
+
+export interface EngineerSuggestionReason {
+  label: string;
+  tone: 'positive' | 'negative' | 'neutral';
+}
+
+export interface EngineerSuggestion {
+  engineer: ServiceEngineer;
+  score: number;
+  hasExpertise: boolean;
+  openRequests: number;
+  conflicts: EngineerAssignmentRecord[];
+  reasons: EngineerSuggestionReason[];
+}
+
+// Points per ranking signal; history counts are capped so a long-serving
+// engineer does not outrank an idle one on history alone
+export const ENGINEER_SUGGESTION_WEIGHTS = {
+  expertise: 50,
+  openRequest: -5,
+  dateConflict: -30,
+  deviceVisit: 15,
+  maxDeviceVisits: 3,
+  organizationVisit: 5,
+  maxOrganizationVisits: 5
+};
+
+export const SERVICE_FILES_BUCKET = 'service-files';
+
+// Matches the service-files bucket limit
+export const MAX_ATTACHMENT_SIZE = 50 * 1024 ** 2;
+
+export const ATTACHMENT_ACCEPT = {
+  'image/*': ['.png', '.jpg', '.jpeg', '.gif', '.webp'],
+  'video/*': ['.mp4', '.avi', '.mov', '.wmv', '.flv', '.webm'],
+  'application/pdf': ['.pdf'],
+  'text/plain': ['.txt'],
+  'application/msword': ['.doc'],
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx']
+};
+
 export const MODE_OF_SERVICE = [
   { value: 'on-site', label: 'On-site' },
   { value: 'remote', label: 'Remote' }
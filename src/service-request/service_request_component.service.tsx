@@ -36,16 +36,22 @@ import { useServiceRequests, useServiceRequestActions, useServiceRequestExport }
 import { useServiceEngineers } from '../service-engineer/service-engineer.hook';
 import type { 
   ServiceRequest, 
-  ServiceRequestFilters
+  ServiceRequestFilters,
+  ServiceRequestStatus
 } from './service_request.type';
 import {
   SERVICE_TYPES,
-  SERVICE_STATUSES
+  SERVICE_STATUSES,
+  SERVICE_STATUS_COLORS,
+  SERVICE_STATUS_TRANSITIONS
 } from './service_request.type';
+import { getServiceStatusLabel } from './service_request.service';
 import { ServiceRequestForm } from './ServiceRequestForm';
 import { ServiceRequestDetail } from './ServiceRequestDetail';
 import { AssignEngineerModal } from './AssignEngineerModal';
 import { OrganizationSelect } from '../organization/OrganizationSelect';
+import { SlaBadge } from '../sla/SlaBadge';
+import { useCan } from '../auth/useCan';
 
 export const ServiceRequestComponent: React.FC = () => {
   const [searchValue, setSearchValue] = useState('');
@@ -70,6 +76,7 @@ export const ServiceRequestComponent: React.FC = () => {
   const { engineers: serviceEngineers } = useServiceEngineers();
   const { assignServiceEngineer, updateStatus } = useServiceRequestActions();
   const { loading: exportLoading, exportToExcel } = useServiceRequestExport();
+  const can = useCan();
 
   const handleSearch = () => {
     updateFilters({ search: searchValue || undefined });
@@ -103,9 +110,13 @@ export const ServiceRequestComponent: React.FC = () => {
   };
 
 
-  const handleStatusUpdate = async (serviceRequest: ServiceRequest, status: 'pending' | 'completed' | 'cancelled') => {
-    await updateStatus(serviceRequest.id, status);
-    refresh();
+  const handleStatusUpdate = async (serviceRequest: ServiceRequest, status: ServiceRequestStatus) => {
+    try {
+      await updateStatus(serviceRequest.id, status);
+      refresh();
+    } catch {
+      // Error notification is shown by the hook
+    }
   };
 
   const handleExport = () => {
@@ -116,15 +127,6 @@ export const ServiceRequestComponent: React.FC = () => {
     window.print();
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'completed': return 'green';
-      case 'cancelled': return 'red';
-      case 'pending': return 'yellow';
-      default: return 'gray';
-    }
-  };
-
   const getServiceTypeLabel = (type: string) => {
     return SERVICE_TYPES.find(t => t.value === type)?.label || type;
   };
@@ -145,15 +147,17 @@ export const ServiceRequestComponent: React.FC = () => {
             >
               Refresh
             </Button>
-            <Button
-              leftSection={<IconDownload size={16} />}
-              variant="outline"
-              onClick={handleExport}
-              loading={exportLoading}
-              title={hasActiveFilters ? "Export filtered results (max 500 records)" : "Export all service requests (max 500 records)"}
-            >
-              {hasActiveFilters ? "Export Filtered" : "Export Excel"}
-            </Button>
+            {can('service_request:export') && (
+              <Button
+                leftSection={<IconDownload size={16} />}
+                variant="outline"
+                onClick={handleExport}
+                loading={exportLoading}
+                title={hasActiveFilters ? "Export filtered results (max 500 records)" : "Export all service requests (max 500 records)"}
+              >
+                {hasActiveFilters ? "Export Filtered" : "Export Excel"}
+              </Button>
+            )}
             <Button
               leftSection={<IconPrinter size={16} />}
               variant="outline"
@@ -161,15 +165,17 @@ export const ServiceRequestComponent: React.FC = () => {
             >
               Print
             </Button>
-            <Button
-              leftSection={<IconPlus size={16} />}
-              onClick={() => {
-                setSelectedServiceRequest(null);
-                openForm();
-              }}
-            >
-              Create Request
-            </Button>
+            {can('service_request:create') && (
+              <Button
+                leftSection={<IconPlus size={16} />}
+                onClick={() => {
+                  setSelectedServiceRequest(null);
+                  openForm();
+                }}
+              >
+                Create Request
+              </Button>
+            )}
           </Group>
         </Group>
 
@@ -204,7 +210,7 @@ export const ServiceRequestComponent: React.FC = () => {
 
       <Paper p="md">
         <div style={{ overflowX: 'auto' }}>
-          <Table highlightOnHover style={{ minWidth: '900px' }}>
+          <Table highlightOnHover style={{ minWidth: '1050px' }}>
             <Table.Thead>
               <Table.Tr>
                 <Table.Th>Ticket No</Table.Th>
@@ -212,6 +218,7 @@ export const ServiceRequestComponent: React.FC = () => {
                 <Table.Th>Organization</Table.Th>
                 <Table.Th>Service Type</Table.Th>
                 <Table.Th>Status</Table.Th>
+                <Table.Th>SLA</Table.Th>
                 <Table.Th>Engineer</Table.Th>
                 <Table.Th>Date Requested</Table.Th>
                 <Table.Th>Actions</Table.Th>
@@ -220,13 +227,13 @@ export const ServiceRequestComponent: React.FC = () => {
             <Table.Tbody>
               {loading ? (
                 <Table.Tr>
-                  <Table.Td colSpan={8} style={{ textAlign: 'center', padding: '2rem' }}>
+                  <Table.Td colSpan={9} style={{ textAlign: 'center', padding: '2rem' }}>
                     <Loader size="md" />
                   </Table.Td>
                 </Table.Tr>
               ) : serviceRequests.data.length === 0 ? (
                 <Table.Tr>
-                  <Table.Td colSpan={8} style={{ textAlign: 'center', padding: '2rem', color: 'var(--mantine-color-dimmed)' }}>
+                  <Table.Td colSpan={9} style={{ textAlign: 'center', padding: '2rem', color: 'var(--mantine-color-dimmed)' }}>
                     No service requests found
                   </Table.Td>
                 </Table.Tr>
@@ -245,10 +252,13 @@ export const ServiceRequestComponent: React.FC = () => {
                     <Table.Td>{request.organization?.name}</Table.Td>
                     <Table.Td>{getServiceTypeLabel(request.service_type)}</Table.Td>
                     <Table.Td>
-                      <Badge color={getStatusColor(request.status)} variant="light">
-                        {request.status}
+                      <Badge color={SERVICE_STATUS_COLORS[request.status] || 'gray'} variant="light">
+                        {getServiceStatusLabel(request.status)}
                       </Badge>
                     </Table.Td>
+                    <Table.Td>
+                      <SlaBadge serviceRequest={request} size="sm" />
+                    </Table.Td>
                     <Table.Td>
                       {request.engineer?.name || (
                         <Text c="dimmed" size="sm">Not assigned</Text>
@@ -281,6 +291,7 @@ export const ServiceRequestComponent: React.FC = () => {
                               e.stopPropagation();
                               handleEdit(request);
                             }}
+                            disabled={!can('service_request:edit')}
                           >
                             Edit
                           </Menu.Item>
@@ -292,38 +303,25 @@ export const ServiceRequestComponent: React.FC = () => {
                                 e.stopPropagation();
                                 handleAssign(request);
                               }}
+                              disabled={!can('service_request:assign')}
                             >
                               Assign Engineer
                             </Menu.Item>
                           )}
                           <Menu.Divider />
-                          <Menu.Item
-                            onClick={(e: React.MouseEvent) => {
-                              e.stopPropagation();
-                              handleStatusUpdate(request, 'pending');
-                            }}
-                            disabled={request.status === 'pending'}
-                          >
-                            Mark as Pending
-                          </Menu.Item>
-                          <Menu.Item
-                            onClick={(e: React.MouseEvent) => {
-                              e.stopPropagation();
-                              handleStatusUpdate(request, 'completed');
-                            }}
-                            disabled={request.status === 'completed'}
-                          >
-                            Mark as Completed
-                          </Menu.Item>
-                          <Menu.Item
-                            onClick={(e: React.MouseEvent) => {
-                              e.stopPropagation();
-                              handleStatusUpdate(request, 'cancelled');
-                            }}
-                            disabled={request.status === 'cancelled'}
-                          >
-                            Mark as Cancelled
-                          </Menu.Item>
+                          <Menu.Label>Move to</Menu.Label>
+                          {(SERVICE_STATUS_TRANSITIONS[request.status] || []).map(nextStatus => (
+                            <Menu.Item
+                              key={nextStatus}
+                              onClick={(e: React.MouseEvent) => {
+                                e.stopPropagation();
+                                handleStatusUpdate(request, nextStatus);
+                              }}
+                              disabled={!can('service_request:edit')}
+                            >
+                              {getServiceStatusLabel(nextStatus)}
+                            </Menu.Item>
+                          ))}
                         </Menu.Dropdown>
                       </Menu>
                     </Table.Td>
@@ -407,7 +405,7 @@ export const ServiceRequestComponent: React.FC = () => {
         opened={assignOpened}
         onClose={closeAssign}
         title="Assign Service Engineer"
-        size="md"
+        size="lg"
       >
         {selectedServiceRequest && (
           <AssignEngineerModal
@@ -0,0 +1,59 @@
+import { useState, useEffect, useCallback } from 'react';
+import { notifications } from '@mantine/notifications';
+import { settingsService } from './settings.service';
+import type { TicketNumberSettings, UpdateTicketNumberSettingsData } from './settings.type';
+
+export const useTicketNumberSettings = () => {
+  const [settings, setSettings] = useState<TicketNumberSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSettings = useCallback(async () => {
+    try {
+      setLoading(true);
+      setSettings(await settingsService.getTicketNumberSettings());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch ticket number settings');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  const updateSettings = useCallback(async (updates: UpdateTicketNumberSettingsData) => {
+    setSaving(true);
+    try {
+      const result = await settingsService.updateTicketNumberSettings(updates);
+      setSettings(result);
+      notifications.show({
+        title: 'Success',
+        message: 'Ticket numbering updated',
+        color: 'green'
+      });
+      return result;
+    } catch (err) {
+      notifications.show({
+        title: 'Error',
+        message: err instanceof Error ? err.message : 'Failed to update ticket numbering',
+        color: 'red'
+      });
+      throw err;
+    } finally {
+      setSaving(false);
+    }
+  }, []);
+
+  return {
+    settings,
+    loading,
+    saving,
+    error,
+    refetch: fetchSettings,
+    updateSettings
+  };
+};
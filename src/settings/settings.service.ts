@@ -0,0 +1,77 @@
+import supabase from '../supabase';
+import type { TicketNumberSettings, UpdateTicketNumberSettingsData } from './settings.type';
+
+const TICKET_SETTINGS_TABLE = 'ticket_number_settings';
+
+// Date parts in the configured time zone, matching to_char(now() at time zone ...) in SQL
+const getZonedDateParts = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).formatToParts(date);
+  const get = (type: string) => parts.find(part => part.type === type)?.value || '';
+  return { year: get('year'), month: get('month'), day: get('day') };
+};
+
+// Client-side rendering of the format for the settings preview; the real
+// number always comes from next_ticket_number()
+export const formatTicketNumberPreview = (
+  settings: TicketNumberSettings,
+  orgCode: string,
+  deviceCode: string,
+  sequence: number,
+  date: Date = new Date()
+): string => {
+  let dateParts: { year: string; month: string; day: string };
+  try {
+    dateParts = getZonedDateParts(date, settings.time_zone);
+  } catch {
+    dateParts = getZonedDateParts(date, 'UTC');
+  }
+  const { year, month, day } = dateParts;
+
+  const datePart = {
+    'YYYYMMDD': `${year}${month}${day}`,
+    'YYYY-MM-DD': `${year}-${month}-${day}`,
+    'YYMM': `${year.slice(2)}${month}`,
+    'YYYY': year,
+    'none': ''
+  }[settings.date_format];
+
+  return [
+    settings.prefix,
+    datePart,
+    settings.include_org_code ? orgCode.toUpperCase() : '',
+    settings.include_device_code ? deviceCode.toUpperCase() : '',
+    String(sequence).padStart(settings.sequence_padding, '0')
+  ]
+    .filter(part => part !== '')
+    .join(settings.separator);
+};
+
+export const settingsService = {
+  async getTicketNumberSettings(): Promise<TicketNumberSettings> {
+    const { data, error } = await supabase
+      .from(TICKET_SETTINGS_TABLE)
+      .select('*')
+      .eq('id', true)
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async updateTicketNumberSettings(settings: UpdateTicketNumberSettingsData): Promise<TicketNumberSettings> {
+    const { data, error } = await supabase
+      .from(TICKET_SETTINGS_TABLE)
+      .update(settings)
+      .eq('id', true)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+};
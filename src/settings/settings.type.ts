@@ -0,0 +1,45 @@
+export type TicketDateFormat = 'YYYYMMDD' | 'YYYY-MM-DD' | 'YYMM' | 'YYYY' | 'none';
+
+export type TicketSequenceReset = 'daily' | 'monthly' | 'yearly' | 'never';
+
+// Mirrors public.ticket_number_settings; numbers are allocated by the
+// next_ticket_number() RPC (sql/ticket_numbering.sql)
+export interface TicketNumberSettings {
+  prefix: string;
+  date_format: TicketDateFormat;
+  include_org_code: boolean;
+  include_device_code: boolean;
+  sequence_padding: number;
+  sequence_reset: TicketSequenceReset;
+  separator: string;
+  time_zone: string;
+  updated_at?: string;
+}
+
+export type UpdateTicketNumberSettingsData = Partial<Omit<TicketNumberSettings, 'updated_at'>>;
+
+export const TICKET_DATE_FORMATS: { value: TicketDateFormat; label: string }[] = [
+  { value: 'YYYY-MM-DD', label: 'YYYY-MM-DD (2025-01-31)' },
+  { value: 'YYYYMMDD', label: 'YYYYMMDD (20250131)' },
+  { value: 'YYMM', label: 'YYMM (2501)' },
+  { value: 'YYYY', label: 'YYYY (2025)' },
+  { value: 'none', label: 'No date' }
+];
+
+export const TICKET_SEQUENCE_RESETS: { value: TicketSequenceReset; label: string }[] = [
+  { value: 'daily', label: 'Every day' },
+  { value: 'monthly', label: 'Every month' },
+  { value: 'yearly', label: 'Every year' },
+  { value: 'never', label: 'Never' }
+];
+
+export const DEFAULT_TICKET_NUMBER_SETTINGS: TicketNumberSettings = {
+  prefix: '',
+  date_format: 'YYYY-MM-DD',
+  include_org_code: true,
+  include_device_code: true,
+  sequence_padding: 4,
+  sequence_reset: 'daily',
+  separator: '-',
+  time_zone: 'UTC'
+};
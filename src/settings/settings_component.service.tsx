@@ -0,0 +1,176 @@
+import { useEffect } from 'react';
+import {
+  Paper,
+  Title,
+  Group,
+  Button,
+  Text,
+  TextInput,
+  Select,
+  NumberInput,
+  Switch,
+  SimpleGrid,
+  Stack,
+  Alert,
+  Loader,
+  Center,
+  Code
+} from '@mantine/core';
+import { useForm } from '@mantine/form';
+import { IconDeviceFloppy, IconTicket } from '@tabler/icons-react';
+import { useTicketNumberSettings } from './settings.hook';
+import { formatTicketNumberPreview } from './settings.service';
+import {
+  DEFAULT_TICKET_NUMBER_SETTINGS,
+  TICKET_DATE_FORMATS,
+  TICKET_SEQUENCE_RESETS
+} from './settings.type';
+import type { TicketDateFormat, TicketNumberSettings, TicketSequenceReset } from './settings.type';
+
+const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export function TicketNumberSettingsForm() {
+  const { settings, loading, saving, error, updateSettings } = useTicketNumberSettings();
+
+  const form = useForm<TicketNumberSettings>({
+    initialValues: DEFAULT_TICKET_NUMBER_SETTINGS,
+    validate: {
+      prefix: (value) => (/^[A-Za-z0-9]*$/.test(value) ? null : 'Use letters and digits only'),
+      separator: (value) => (value.length <= 1 ? null : 'Use a single character or leave empty'),
+      sequence_padding: (value) => (value >= 1 && value <= 10 ? null : 'Padding must be between 1 and 10'),
+      time_zone: (value) => (isValidTimeZone(value) ? null : 'Unknown time zone')
+    }
+  });
+
+  useEffect(() => {
+    if (settings) {
+      form.setValues(settings);
+      form.resetDirty(settings);
+    }
+    // form is recreated on every render; sync only when the stored settings change
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [settings]);
+
+  const handleSubmit = async (values: TicketNumberSettings) => {
+    try {
+      await updateSettings({
+        prefix: values.prefix.trim().toUpperCase(),
+        date_format: values.date_format,
+        include_org_code: values.include_org_code,
+        include_device_code: values.include_device_code,
+        sequence_padding: values.sequence_padding,
+        sequence_reset: values.sequence_reset,
+        separator: values.separator,
+        time_zone: values.time_zone.trim()
+      });
+    } catch {
+      // Notification already shown by the hook
+    }
+  };
+
+  return (
+    <Paper p="md">
+      <Stack gap="md">
+        <Group gap="xs">
+          <IconTicket size={20} />
+          <Title order={4}>Ticket Numbering</Title>
+        </Group>
+        <Text size="sm" c="dimmed">
+          Format of new service request ticket numbers. Numbers are allocated by the database,
+          so requests raised at the same moment never share a number. Existing tickets keep their numbers.
+        </Text>
+
+        {error && <Alert color="red" title="Error">{error}</Alert>}
+
+        {loading ? (
+          <Center py="md"><Loader size="sm" /></Center>
+        ) : (
+          <form onSubmit={form.onSubmit(handleSubmit)}>
+            <Stack gap="md">
+              <SimpleGrid cols={{ base: 1, sm: 2 }} spacing="md">
+                <TextInput
+                  label="Prefix"
+                  placeholder="e.g. SR"
+                  {...form.getInputProps('prefix')}
+                />
+                <Select
+                  label="Date"
+                  data={TICKET_DATE_FORMATS}
+                  value={form.values.date_format}
+                  onChange={(value) => value && form.setFieldValue('date_format', value as TicketDateFormat)}
+                  allowDeselect={false}
+                />
+                <NumberInput
+                  label="Sequence digits"
+                  min={1}
+                  max={10}
+                  {...form.getInputProps('sequence_padding')}
+                />
+                <Select
+                  label="Restart sequence"
+                  data={TICKET_SEQUENCE_RESETS}
+                  value={form.values.sequence_reset}
+                  onChange={(value) => value && form.setFieldValue('sequence_reset', value as TicketSequenceReset)}
+                  allowDeselect={false}
+                />
+                <TextInput
+                  label="Separator"
+                  placeholder="-"
+                  maxLength={1}
+                  {...form.getInputProps('separator')}
+                />
+                <TextInput
+                  label="Time zone"
+                  description="Used for the date part and for restarting the sequence"
+                  placeholder="UTC"
+                  {...form.getInputProps('time_zone')}
+                />
+              </SimpleGrid>
+
+              <Group gap="xl">
+                <Switch
+                  label="Include organization short code"
+                  {...form.getInputProps('include_org_code', { type: 'checkbox' })}
+                />
+                <Switch
+                  label="Include device code"
+                  {...form.getInputProps('include_device_code', { type: 'checkbox' })}
+                />
+              </Group>
+
+              <div>
+                <Text size="xs" c="dimmed">Preview</Text>
+                <Code fz="md">
+                  {formatTicketNumberPreview(
+                    { ...form.values, prefix: form.values.prefix.toUpperCase() },
+                    'ACME',
+                    '3F2A',
+                    1
+                  )}
+                </Code>
+              </div>
+
+              <Group justify="flex-end">
+                <Button
+                  type="submit"
+                  leftSection={<IconDeviceFloppy size={16} />}
+                  loading={saving}
+                  disabled={!form.isDirty()}
+                >
+                  Save
+                </Button>
+              </Group>
+            </Stack>
+          </form>
+        )}
+      </Stack>
+    </Paper>
+  );
+}
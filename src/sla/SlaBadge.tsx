@@ -0,0 +1,41 @@
+import React from 'react';
+import { Badge, Tooltip } from '@mantine/core';
+import { IconAlertTriangle, IconCircleCheck, IconClock } from '@tabler/icons-react';
+import { getServiceRequestSla } from './sla.service';
+import { useSlaClock } from './sla.hook';
+import { formatDuration } from '../service-request/service_request.service';
+import { SLA_STATE_COLORS, SLA_STATE_LABELS } from './sla.type';
+import type { SlaTrackedRequest } from './sla.type';
+
+interface SlaBadgeProps {
+  serviceRequest: SlaTrackedRequest;
+  size?: 'xs' | 'sm' | 'md' | 'lg';
+}
+
+export const SlaBadge: React.FC<SlaBadgeProps> = ({ serviceRequest, size = 'sm' }) => {
+  const now = useSlaClock();
+
+  const sla = getServiceRequestSla(serviceRequest, now);
+  if (!sla) return null;
+
+  const targetLabel = sla.target === 'response' ? 'Response' : 'Resolution';
+  const label = sla.state === 'met'
+    ? SLA_STATE_LABELS.met
+    : sla.remainingMs >= 0
+      ? `${targetLabel} in ${formatDuration(sla.remainingMs)}`
+      : `${targetLabel} ${formatDuration(sla.remainingMs)} late`;
+
+  const icon = sla.state === 'met'
+    ? <IconCircleCheck size={12} />
+    : sla.state === 'on_track'
+      ? <IconClock size={12} />
+      : <IconAlertTriangle size={12} />;
+
+  return (
+    <Tooltip label={`${SLA_STATE_LABELS[sla.state]} · ${targetLabel} due ${new Date(sla.dueAt).toLocaleString()}`}>
+      <Badge color={SLA_STATE_COLORS[sla.state]} variant="light" size={size} leftSection={icon}>
+        {sla.state === 'breached' && sla.remainingMs >= 0 ? SLA_STATE_LABELS.breached : label}
+      </Badge>
+    </Tooltip>
+  );
+};
@@ -0,0 +1,107 @@
+import { useState, useEffect, useCallback, useSyncExternalStore } from 'react';
+import { notifications } from '@mantine/notifications';
+import { slaService } from './sla.service';
+import { SLA_CLOCK_INTERVAL_MS } from './sla.type';
+import type { CreateSlaPolicyData, SlaPolicy, UpdateSlaPolicyData } from './sla.type';
+
+// One clock shared by every SLA countdown, so a table of badges runs a single timer
+// that only ticks while something is subscribed
+const slaClockListeners = new Set<() => void>();
+let slaClockNow = Date.now();
+let slaClockTimer: ReturnType<typeof setInterval> | null = null;
+
+const subscribeSlaClock = (listener: () => void) => {
+  slaClockListeners.add(listener);
+  if (!slaClockTimer) {
+    slaClockNow = Date.now();
+    slaClockTimer = setInterval(() => {
+      slaClockNow = Date.now();
+      slaClockListeners.forEach(notify => notify());
+    }, SLA_CLOCK_INTERVAL_MS);
+  }
+  return () => {
+    slaClockListeners.delete(listener);
+    if (slaClockListeners.size === 0 && slaClockTimer) {
+      clearInterval(slaClockTimer);
+      slaClockTimer = null;
+    }
+  };
+};
+
+export const useSlaClock = () => useSyncExternalStore(subscribeSlaClock, () => slaClockNow);
+
+export const useSlaPolicies = () => {
+  const [policies, setPolicies] = useState<SlaPolicy[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPolicies = useCallback(async () => {
+    try {
+      setLoading(true);
+      setPolicies(await slaService.getPolicies());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch SLA policies');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPolicies();
+  }, [fetchPolicies]);
+
+  return {
+    policies,
+    loading,
+    error,
+    refetch: fetchPolicies
+  };
+};
+
+export const useSlaPolicyActions = () => {
+  const [loading, setLoading] = useState(false);
+
+  // Shared success/error notifications; errors are rethrown for the caller
+  const run = useCallback(async <T>(action: () => Promise<T>, successMessage: string, fallbackError: string) => {
+    setLoading(true);
+    try {
+      const result = await action();
+      notifications.show({
+        title: 'Success',
+        message: successMessage,
+        color: 'green'
+      });
+      return result;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : fallbackError;
+      notifications.show({
+        title: 'Error',
+        message: errorMessage,
+        color: 'red'
+      });
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const createPolicy = useCallback((policy: CreateSlaPolicyData) =>
+    run(() => slaService.createPolicy(policy), `SLA policy "${policy.name}" created`, 'Failed to create SLA policy'),
+  [run]);
+
+  const updatePolicy = useCallback((policy: UpdateSlaPolicyData) =>
+    run(() => slaService.updatePolicy(policy), 'SLA policy updated', 'Failed to update SLA policy'),
+  [run]);
+
+  const deletePolicy = useCallback((policy: SlaPolicy) =>
+    run(() => slaService.deletePolicy(policy.id), `SLA policy "${policy.name}" deleted`, 'Failed to delete SLA policy'),
+  [run]);
+
+  return {
+    loading,
+    createPolicy,
+    updatePolicy,
+    deletePolicy
+  };
+};
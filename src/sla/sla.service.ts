@@ -0,0 +1,119 @@
+import supabase from '../supabase';
+import { OPEN_SERVICE_STATUSES } from '../service-request/service_request.type';
+import { SLA_AT_RISK_RATIO } from './sla.type';
+import type {
+  CreateSlaPolicyData,
+  ServiceRequestSla,
+  SlaCounts,
+  SlaPolicy,
+  SlaTrackedRequest,
+  UpdateSlaPolicyData
+} from './sla.type';
+
+const TABLE_NAME = 'sla_policies';
+const SLA_STATUS_VIEW = 'service_request_sla_status';
+
+const time = (value: string | null | undefined) => (value ? new Date(value).getTime() : null);
+
+// Client-side mirror of the service_request_sla_status view, so countdowns stay live
+export const getServiceRequestSla = (request: SlaTrackedRequest, now: number = Date.now()): ServiceRequestSla | null => {
+  const requestedAt = time(request.date_of_request);
+  const responseDue = time(request.response_due_at);
+  const resolutionDue = time(request.resolution_due_at);
+  const respondedAt = time(request.first_response_at);
+  const resolvedAt = time(request.resolved_at);
+  if (requestedAt === null || resolutionDue === null) return null;
+
+  const responseLate = responseDue !== null && (respondedAt !== null ? respondedAt > responseDue : now > responseDue);
+  const awaitingResponse = respondedAt === null && responseDue !== null;
+  const target = awaitingResponse ? 'response' : 'resolution';
+  const dueAt = awaitingResponse ? responseDue : resolutionDue;
+  const dueAtIso = new Date(dueAt).toISOString();
+
+  if (resolvedAt !== null) {
+    return {
+      state: resolvedAt <= resolutionDue && !responseLate ? 'met' : 'breached',
+      target: 'resolution',
+      dueAt: new Date(resolutionDue).toISOString(),
+      remainingMs: resolutionDue - resolvedAt
+    };
+  }
+
+  const remainingMs = dueAt - now;
+  if (responseLate || now > resolutionDue) {
+    return { state: 'breached', target, dueAt: dueAtIso, remainingMs };
+  }
+
+  const atRisk = remainingMs < (dueAt - requestedAt) * SLA_AT_RISK_RATIO
+    || resolutionDue - now < (resolutionDue - requestedAt) * SLA_AT_RISK_RATIO;
+  return { state: atRisk ? 'at_risk' : 'on_track', target, dueAt: dueAtIso, remainingMs };
+};
+
+export const slaService = {
+  async getPolicies(): Promise<SlaPolicy[]> {
+    const { data, error } = await supabase
+      .from(TABLE_NAME)
+      .select('*, organization:company_details(id, name)')
+      .order('service_type', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async createPolicy(policy: CreateSlaPolicyData): Promise<SlaPolicy> {
+    const { data, error } = await supabase
+      .from(TABLE_NAME)
+      .insert([policy])
+      .select('*, organization:company_details(id, name)')
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async updatePolicy(updateData: UpdateSlaPolicyData): Promise<SlaPolicy> {
+    const { id, ...policy } = updateData;
+    const { data, error } = await supabase
+      .from(TABLE_NAME)
+      .update(policy)
+      .eq('id', id)
+      .select('*, organization:company_details(id, name)')
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async deletePolicy(id: string): Promise<void> {
+    const { error } = await supabase
+      .from(TABLE_NAME)
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  // Open requests that have breached or are close to breaching an SLA target
+  async getCounts(): Promise<SlaCounts> {
+    const countByState = (state: string) =>
+      supabase
+        .from(SLA_STATUS_VIEW)
+        .select('*', { count: 'exact', head: true })
+        .in('status', OPEN_SERVICE_STATUSES)
+        .eq('sla_state', state);
+
+    const [breachedResult, atRiskResult] = await Promise.all([
+      countByState('breached'),
+      countByState('at_risk')
+    ]);
+
+    if (breachedResult.error) throw breachedResult.error;
+    if (atRiskResult.error) throw atRiskResult.error;
+
+    return {
+      breached: breachedResult.count || 0,
+      atRisk: atRiskResult.count || 0
+    };
+  }
+};
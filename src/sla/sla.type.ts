@@ -0,0 +1,83 @@
+import type { ServiceRequest } from '../service-request/service_request.type';
+
+export type SlaAmcStatus = 'active' | 'expired' | 'none';
+
+export type SlaState = 'on_track' | 'at_risk' | 'breached' | 'met';
+
+export type SlaTarget = 'response' | 'resolution';
+
+export interface SlaPolicy {
+  id: string;
+  name: string;
+  service_type: ServiceRequest['service_type'];
+  // null applies the policy to every organization / AMC status
+  organization_id: string | null;
+  amc_status: SlaAmcStatus | null;
+  response_hours: number;
+  resolution_hours: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+  // Related data
+  organization?: { id: string; name: string } | null;
+}
+
+export interface CreateSlaPolicyData {
+  name: string;
+  service_type: ServiceRequest['service_type'];
+  organization_id?: string | null;
+  amc_status?: SlaAmcStatus | null;
+  response_hours: number;
+  resolution_hours: number;
+  is_active?: boolean;
+}
+
+export interface UpdateSlaPolicyData extends Partial<CreateSlaPolicyData> {
+  id: string;
+}
+
+// Columns stamped on service_requests by the apply_service_request_sla trigger
+export type SlaTrackedRequest = Pick<
+  ServiceRequest,
+  'date_of_request' | 'response_due_at' | 'resolution_due_at' | 'first_response_at' | 'resolved_at'
+>;
+
+export interface ServiceRequestSla {
+  state: SlaState;
+  // The target the countdown refers to: response until an engineer is assigned, then resolution
+  target: SlaTarget;
+  dueAt: string;
+  // Negative once the target has passed
+  remainingMs: number;
+}
+
+export interface SlaCounts {
+  breached: number;
+  atRisk: number;
+}
+
+// A target is at risk once less than this share of its window is left
+export const SLA_AT_RISK_RATIO = 0.25;
+
+// How often SLA countdowns refresh
+export const SLA_CLOCK_INTERVAL_MS = 60 * 1000;
+
+export const SLA_AMC_STATUSES: { value: SlaAmcStatus; label: string }[] = [
+  { value: 'active', label: 'AMC active' },
+  { value: 'expired', label: 'AMC expired' },
+  { value: 'none', label: 'No AMC' }
+];
+
+export const SLA_STATE_COLORS: Record<SlaState, string> = {
+  on_track: 'green',
+  at_risk: 'orange',
+  breached: 'red',
+  met: 'teal'
+};
+
+export const SLA_STATE_LABELS: Record<SlaState, string> = {
+  on_track: 'On track',
+  at_risk: 'At risk',
+  breached: 'Breached',
+  met: 'Met'
+};
@@ -0,0 +1,290 @@
+import { useState } from 'react';
+import {
+  Paper,
+  Title,
+  Group,
+  Button,
+  Text,
+  TextInput,
+  Select,
+  NumberInput,
+  Switch,
+  Table,
+  Badge,
+  Modal,
+  Stack,
+  Alert,
+  Loader,
+  ActionIcon,
+  Tooltip,
+  SimpleGrid
+} from '@mantine/core';
+import { useForm } from '@mantine/form';
+import { modals } from '@mantine/modals';
+import { IconEdit, IconGauge, IconPlus, IconTrash } from '@tabler/icons-react';
+import { OrganizationSelect } from '../organization/OrganizationSelect';
+import { SERVICE_TYPES } from '../service-request/service_request.type';
+import { useSlaPolicies, useSlaPolicyActions } from './sla.hook';
+import { SLA_AMC_STATUSES } from './sla.type';
+import type { CreateSlaPolicyData, SlaAmcStatus, SlaPolicy } from './sla.type';
+
+const EMPTY_POLICY: CreateSlaPolicyData = {
+  name: '',
+  service_type: 'repair',
+  organization_id: null,
+  amc_status: null,
+  response_hours: 4,
+  resolution_hours: 48,
+  is_active: true
+};
+
+const getServiceTypeLabel = (type: string) =>
+  SERVICE_TYPES.find(t => t.value === type)?.label || type;
+
+const getAmcStatusLabel = (status: SlaAmcStatus | null) =>
+  status ? SLA_AMC_STATUSES.find(s => s.value === status)?.label || status : 'Any';
+
+export function SlaPolicyManager() {
+  const { policies, loading, error, refetch } = useSlaPolicies();
+  const { loading: saving, createPolicy, updatePolicy, deletePolicy } = useSlaPolicyActions();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingPolicy, setEditingPolicy] = useState<SlaPolicy | null>(null);
+
+  const form = useForm<CreateSlaPolicyData>({
+    initialValues: EMPTY_POLICY,
+    validate: {
+      name: (value) => (value.trim().length < 2 ? 'Name is required' : null),
+      response_hours: (value) => (value > 0 ? null : 'Must be more than 0'),
+      resolution_hours: (value, values) =>
+        value >= values.response_hours ? null : 'Must be at least the response target'
+    }
+  });
+
+  const openCreate = () => {
+    setEditingPolicy(null);
+    form.setValues(EMPTY_POLICY);
+    form.resetDirty(EMPTY_POLICY);
+    setIsModalOpen(true);
+  };
+
+  const openEdit = (policy: SlaPolicy) => {
+    setEditingPolicy(policy);
+    form.setValues({
+      name: policy.name,
+      service_type: policy.service_type,
+      organization_id: policy.organization_id,
+      amc_status: policy.amc_status,
+      response_hours: Number(policy.response_hours),
+      resolution_hours: Number(policy.resolution_hours),
+      is_active: policy.is_active
+    });
+    setIsModalOpen(true);
+  };
+
+  const handleSubmit = async (values: CreateSlaPolicyData) => {
+    const policy = { ...values, name: values.name.trim() };
+    try {
+      if (editingPolicy) {
+        await updatePolicy({ ...policy, id: editingPolicy.id });
+      } else {
+        await createPolicy(policy);
+      }
+      setIsModalOpen(false);
+      refetch();
+    } catch {
+      // Notification already shown by the hook
+    }
+  };
+
+  const handleToggleActive = async (policy: SlaPolicy) => {
+    try {
+      await updatePolicy({ id: policy.id, is_active: !policy.is_active });
+      refetch();
+    } catch {
+      // Notification already shown by the hook
+    }
+  };
+
+  const handleDelete = (policy: SlaPolicy) => {
+    modals.openConfirmModal({
+      title: 'Delete SLA Policy',
+      children: (
+        <Text size="sm">
+          Delete <strong>{policy.name}</strong>? Requests already raised keep their due dates;
+          new requests fall back to the next matching policy.
+        </Text>
+      ),
+      labels: { confirm: 'Delete', cancel: 'Cancel' },
+      confirmProps: { color: 'red' },
+      onConfirm: async () => {
+        try {
+          await deletePolicy(policy);
+          refetch();
+        } catch {
+          // Notification already shown by the hook
+        }
+      }
+    });
+  };
+
+  return (
+    <Paper p="md">
+      <Stack gap="md">
+        <Group justify="space-between">
+          <Group gap="xs">
+            <IconGauge size={20} />
+            <Title order={4}>SLA Policies</Title>
+          </Group>
+          <Button leftSection={<IconPlus size={16} />} onClick={openCreate}>
+            Add Policy
+          </Button>
+        </Group>
+        <Text size="sm" c="dimmed">
+          Response (engineer assigned) and resolution (completed or cancelled) targets per service type.
+          Organization- and AMC-specific policies take precedence over the general one.
+          Due dates are set when a request is raised.
+        </Text>
+
+        {error && <Alert color="red" title="Error">{error}</Alert>}
+
+        <div style={{ overflowX: 'auto' }}>
+          <Table striped highlightOnHover style={{ minWidth: '800px' }}>
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>Name</Table.Th>
+                <Table.Th>Service Type</Table.Th>
+                <Table.Th>Organization</Table.Th>
+                <Table.Th>AMC</Table.Th>
+                <Table.Th>Response</Table.Th>
+                <Table.Th>Resolution</Table.Th>
+                <Table.Th>Active</Table.Th>
+                <Table.Th>Actions</Table.Th>
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {loading && policies.length === 0 ? (
+                <Table.Tr>
+                  <Table.Td colSpan={8} style={{ textAlign: 'center', padding: '2rem' }}>
+                    <Loader size="sm" />
+                  </Table.Td>
+                </Table.Tr>
+              ) : policies.length === 0 ? (
+                <Table.Tr>
+                  <Table.Td colSpan={8} style={{ textAlign: 'center', padding: '2rem', color: 'var(--mantine-color-dimmed)' }}>
+                    No SLA policies; requests are raised without due dates
+                  </Table.Td>
+                </Table.Tr>
+              ) : (
+                policies.map(policy => (
+                  <Table.Tr key={policy.id}>
+                    <Table.Td><Text size="sm" fw={500}>{policy.name}</Text></Table.Td>
+                    <Table.Td>
+                      <Badge variant="light">{getServiceTypeLabel(policy.service_type)}</Badge>
+                    </Table.Td>
+                    <Table.Td><Text size="sm">{policy.organization?.name || 'All'}</Text></Table.Td>
+                    <Table.Td><Text size="sm">{getAmcStatusLabel(policy.amc_status)}</Text></Table.Td>
+                    <Table.Td><Text size="sm">{Number(policy.response_hours)}h</Text></Table.Td>
+                    <Table.Td><Text size="sm">{Number(policy.resolution_hours)}h</Text></Table.Td>
+                    <Table.Td>
+                      <Switch
+                        checked={policy.is_active}
+                        onChange={() => handleToggleActive(policy)}
+                        disabled={saving}
+                      />
+                    </Table.Td>
+                    <Table.Td>
+                      <Group gap={4} wrap="nowrap">
+                        <Tooltip label="Edit">
+                          <ActionIcon variant="subtle" onClick={() => openEdit(policy)}>
+                            <IconEdit size={16} />
+                          </ActionIcon>
+                        </Tooltip>
+                        <Tooltip label="Delete">
+                          <ActionIcon variant="subtle" color="red" onClick={() => handleDelete(policy)}>
+                            <IconTrash size={16} />
+                          </ActionIcon>
+                        </Tooltip>
+                      </Group>
+                    </Table.Td>
+                  </Table.Tr>
+                ))
+              )}
+            </Table.Tbody>
+          </Table>
+        </div>
+      </Stack>
+
+      <Modal
+        opened={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        title={editingPolicy ? 'Edit SLA Policy' : 'Add SLA Policy'}
+        size="lg"
+      >
+        <form onSubmit={form.onSubmit(handleSubmit)}>
+          <Stack gap="md">
+            <TextInput
+              label="Name"
+              placeholder="e.g. Repair – AMC customers"
+              required
+              {...form.getInputProps('name')}
+            />
+            <SimpleGrid cols={{ base: 1, sm: 2 }} spacing="md">
+              <Select
+                label="Service Type"
+                data={SERVICE_TYPES}
+                value={form.values.service_type}
+                onChange={(value) => value && form.setFieldValue('service_type', value as CreateSlaPolicyData['service_type'])}
+                allowDeselect={false}
+                required
+              />
+              <Select
+                label="AMC Status"
+                placeholder="Any"
+                data={SLA_AMC_STATUSES}
+                value={form.values.amc_status || null}
+                onChange={(value) => form.setFieldValue('amc_status', (value as SlaAmcStatus) || null)}
+                clearable
+              />
+            </SimpleGrid>
+            <OrganizationSelect
+              label="Organization"
+              placeholder="All organizations"
+              value={form.values.organization_id || undefined}
+              onChange={(value) => form.setFieldValue('organization_id', value || null)}
+            />
+            <SimpleGrid cols={{ base: 1, sm: 2 }} spacing="md">
+              <NumberInput
+                label="Response target (hours)"
+                min={0.5}
+                step={0.5}
+                decimalScale={1}
+                required
+                {...form.getInputProps('response_hours')}
+              />
+              <NumberInput
+                label="Resolution target (hours)"
+                min={0.5}
+                step={1}
+                decimalScale={1}
+                required
+                {...form.getInputProps('resolution_hours')}
+              />
+            </SimpleGrid>
+            <Switch
+              label="Active"
+              {...form.getInputProps('is_active', { type: 'checkbox' })}
+            />
+            <Group justify="flex-end">
+              <Button variant="outline" onClick={() => setIsModalOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" loading={saving}>
+                {editingPolicy ? 'Update' : 'Create'} Policy
+              </Button>
+            </Group>
+          </Stack>
+        </form>
+      </Modal>
+    </Paper>
+  );
+}
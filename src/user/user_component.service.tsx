@@ -32,6 +32,7 @@ import { notifications } from '@mantine/notifications';
 import { modals } from '@mantine/modals';
 import { useOrganizationUsers, useUserMutations } from './user.hook';
 import { useCompanyDevices } from '../device/device.hook';
+import { useCan } from '../auth/useCan';
 import type { OrganizationUser, CreateUserTrackingData, UpdateUserDevicesData, USER_TYPES } from './user.type';
 
 interface UserManagementProps {
@@ -61,6 +62,7 @@ export function UserManagement({ companyId }: UserManagementProps) {
   const { devices: allDevices } = useCompanyDevices(companyId, {}, { page: 1, pageSize: 1000 });
   
   const { removeUser, updateUserDevices, addUser, loading: mutationLoading } = useUserMutations();
+  const can = useCan();
 
   const deviceOptions = allDevices.map(device => ({
     value: device.id,
@@ -225,9 +227,11 @@ export function UserManagement({ companyId }: UserManagementProps) {
         <Stack gap="md">
           <Group justify="space-between" style={{ flexWrap: 'wrap', gap: 'md' }}>
             <Title order={3}>Users</Title>
-            <Button leftSection={<IconPlus size={16} />} onClick={openInviteModal}>
-              Invite User
-            </Button>
+            {can('user:invite') && (
+              <Button leftSection={<IconPlus size={16} />} onClick={openInviteModal}>
+                Invite User
+              </Button>
+            )}
           </Group>
 
           <TextInput
@@ -325,6 +329,7 @@ export function UserManagement({ companyId }: UserManagementProps) {
                               <Menu.Item
                                 leftSection={<IconDevices size={14} />}
                                 onClick={() => openEditModal(user)}
+                                disabled={!can('user:edit')}
                               >
                                 Edit Devices
                               </Menu.Item>
@@ -332,6 +337,7 @@ export function UserManagement({ companyId }: UserManagementProps) {
                                 leftSection={<IconTrash size={14} />}
                                 color="red"
                                 onClick={() => handleRemoveUser(user)}
+                                disabled={!can('user:remove')}
                               >
                                 {isRegistered ? 'Remove User' : 'Remove Invitation'}
                               </Menu.Item>
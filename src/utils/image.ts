@@ -0,0 +1,2 @@
+// Grey "Image" placeholder for thumbnails whose file cannot be loaded
+export const IMAGE_FALLBACK = "data:image/svg+xml,%3csvg width='100' height='100' xmlns='http://www.w3.org/2000/svg'%3e%3crect width='100' height='100' fill='%23ddd'/%3e%3ctext x='50' y='50' text-anchor='middle' dy='.3em'%3eImage%3c/text%3e%3c/svg%3e";